@@ -0,0 +1,380 @@
+import express, { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import * as yup from 'yup';
+import { AdminModel } from './models/admin.js';
+import { DrawModel } from './models/draw.js';
+import { NumberModel } from './models/number.js';
+import { PurchaseModel } from './models/purchase.js';
+import { BUYER_NAME_DISPLAYS, RAFFLE_STATUSES, RaffleModel, RaffleStatus, findRaffle } from './models/raffle.js';
+import { requireAdmin, signAdminToken } from './middleware/auth.js';
+import { rateLimit, sendTooManyRequests } from './middleware/rateLimit.js';
+import { validateBody } from './middleware/validate.js';
+import { BruteForceGuard } from './services/rateLimit.js';
+import { verifySecret } from './utils/hash.js';
+import { seedRaffleNumbers } from './raffles.js';
+import { PricingInput, PrizeListInput, pricingSchema, prizeListSchema } from '../shared/schemas.js';
+
+const router = express.Router();
+
+// Every number is a document created with the raffle, so one request can't ask for millions of them
+const MAX_RAFFLE_NUMBERS = 100000;
+
+// Raffles move forward draft → open → closed → drawn; a closed raffle reopens only while it has no draw
+const RAFFLE_TRANSITIONS: Record<RaffleStatus, RaffleStatus[]> = {
+  draft: ['open'],
+  open: ['closed'],
+  closed: ['open', 'drawn'],
+  drawn: []
+};
+
+// Fields an admin can change after creating the raffle; only the ones sent are changed
+const raffleChangesSchema = yup.object({
+  title: yup.string().trim().min(1, 'RAFFLE_TITLE_REQUIRED'),
+  description: yup.string(),
+  ticketPrice: yup.number().typeError('PRICE_INVALID').min(0, 'PRICE_INVALID'),
+  drawDate: yup.date().typeError('DATE_INVALID').nullable(),
+  status: yup.string().oneOf(RAFFLE_STATUSES, 'RAFFLE_STATUS_INVALID'),
+  buyerNameDisplay: yup.string().oneOf(BUYER_NAME_DISPLAYS, 'BUYER_NAME_DISPLAY_INVALID'),
+  revenueGoal: yup.number().typeError('REVENUE_GOAL_INVALID').min(0, 'REVENUE_GOAL_INVALID').nullable()
+});
+
+const raffleSchema = raffleChangesSchema.omit(['buyerNameDisplay']).shape({
+  title: yup.string().trim().required('RAFFLE_TITLE_REQUIRED'),
+  ticketPrice: yup.number().typeError('PRICE_INVALID').min(0, 'PRICE_INVALID').required('TICKET_PRICE_REQUIRED'),
+  numberStart: yup.number().typeError('NUMBER_RANGE_INVALID').integer('NUMBER_RANGE_INVALID').min(0, 'NUMBER_RANGE_INVALID').required('NUMBER_RANGE_INVALID'),
+  numberEnd: yup
+    .number()
+    .typeError('NUMBER_RANGE_INVALID')
+    .integer('NUMBER_RANGE_INVALID')
+    .required('NUMBER_RANGE_INVALID')
+    .when('numberStart', ([numberStart], schema) => (typeof numberStart === 'number'
+      ? schema.min(numberStart, 'NUMBER_RANGE_INVALID').max(numberStart + MAX_RAFFLE_NUMBERS - 1, 'NUMBER_RANGE_TOO_LARGE')
+      : schema))
+});
+
+const loginGuard = new BruteForceGuard('admin-login');
+
+router.post('/admin/login', rateLimit('admin-login', 10, 60 * 1000), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { username, password } = req.body;
+
+    if (typeof username !== 'string' || typeof password !== 'string') {
+      res.status(400).json({
+        error: 'Invalid request',
+        code: 'VALIDATION_FAILED',
+        message: 'Username and password are required',
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    const guardIds = [`ip:${req.ip}`, `user:${username.trim().toLowerCase()}`];
+    const retryAfter = await loginGuard.retryAfter(guardIds);
+    if (retryAfter > 0) {
+      sendTooManyRequests(res, retryAfter, 'Too many failed logins, try again later');
+      return;
+    }
+
+    const admin = await AdminModel.findOne({ username: username.trim().toLowerCase() }).select('+passwordHash');
+    if (!admin || !await verifySecret(password, admin.passwordHash)) {
+      const lockout = await loginGuard.fail(guardIds);
+      if (lockout > 0) {
+        sendTooManyRequests(res, lockout, 'Too many failed logins, try again later');
+        return;
+      }
+      res.status(401).json({
+        error: 'Unauthorized',
+        code: 'INVALID_CREDENTIALS',
+        message: 'Invalid username or password',
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    await loginGuard.succeed(guardIds);
+    const claims = { id: admin._id.toString(), username: admin.username, name: admin.name };
+    res.json({
+      token: signAdminToken(claims),
+      admin: claims,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error logging in:', error);
+    res.status(500).json({
+      error: 'Error logging in',
+      code: 'INTERNAL_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// Every other admin route requires a token
+router.use('/admin', requireAdmin);
+
+router.get('/admin/raffles', async (_req: Request, res: Response): Promise<void> => {
+  try {
+    const raffles = await RaffleModel.find().sort({ createdAt: -1 });
+    res.json(raffles);
+  } catch (error) {
+    console.error('Error fetching raffles:', error);
+    res.status(500).json({
+      error: 'Error fetching raffles',
+      code: 'INTERNAL_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+router.post('/admin/raffles', validateBody(raffleSchema), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { title, description, ticketPrice, numberStart, numberEnd, drawDate, status, revenueGoal } = req.body as yup.InferType<typeof raffleSchema>;
+
+    const raffle = await RaffleModel.create({ title, description, ticketPrice, numberStart, numberEnd, drawDate, status, revenueGoal });
+    await seedRaffleNumbers(raffle._id, raffle.numberStart, raffle.numberEnd);
+    res.status(201).json(raffle);
+  } catch (error) {
+    if (error instanceof mongoose.Error.ValidationError) {
+      res.status(400).json({
+        error: 'Invalid request',
+        code: 'VALIDATION_FAILED',
+        message: error.message,
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+    console.error('Error creating raffle:', error);
+    res.status(500).json({
+      error: 'Error creating raffle',
+      code: 'INTERNAL_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+router.patch('/admin/raffles/:raffleId', validateBody(raffleChangesSchema), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { title, description, ticketPrice, drawDate, status, buyerNameDisplay, revenueGoal } = req.body as yup.InferType<typeof raffleChangesSchema>;
+
+    const raffle = await findRaffle(req.params.raffleId, { includeDrafts: true });
+    if (!raffle) {
+      res.status(404).json({
+        error: 'Raffle not found',
+        code: 'RAFFLE_NOT_FOUND',
+        message: 'Raffle does not exist',
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    if (status !== undefined && status !== raffle.status) {
+      const hasDraw = await DrawModel.exists({ raffleId: raffle._id }) !== null;
+      if (raffle.status === 'drawn' || (status === 'open' && hasDraw)) {
+        res.status(409).json({
+          error: 'Sales frozen',
+          code: 'SALES_FROZEN',
+          message: 'A raffle cannot reopen once the draw seed is committed',
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+      if (!RAFFLE_TRANSITIONS[raffle.status as RaffleStatus].includes(status)) {
+        res.status(409).json({
+          error: 'Raffle not open',
+          code: 'RAFFLE_NOT_OPEN',
+          message: `A ${raffle.status} raffle cannot become ${status}`,
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+    }
+
+    raffle.set(Object.fromEntries(
+      Object.entries({ title, description, ticketPrice, drawDate, status, buyerNameDisplay, revenueGoal }).filter(([, value]) => value !== undefined)
+    ));
+    await raffle.save();
+    res.json(raffle);
+  } catch (error) {
+    if (error instanceof mongoose.Error.ValidationError) {
+      res.status(400).json({
+        error: 'Invalid request',
+        code: 'VALIDATION_FAILED',
+        message: error.message,
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+    console.error('Error updating raffle:', error);
+    res.status(500).json({
+      error: 'Error updating raffle',
+      code: 'INTERNAL_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// Per-number price and bundle deals; orders already placed keep the total they were charged
+router.put('/admin/raffles/:raffleId/pricing', validateBody(pricingSchema), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { ticketPrice, bundles } = req.body as PricingInput;
+
+    const raffle = await findRaffle(req.params.raffleId, { includeDrafts: true });
+    if (!raffle) {
+      res.status(404).json({
+        error: 'Raffle not found',
+        code: 'RAFFLE_NOT_FOUND',
+        message: 'Raffle does not exist',
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    raffle.ticketPrice = ticketPrice;
+    raffle.bundles = [...bundles].sort((a, b) => a.quantity - b.quantity);
+    await raffle.save();
+    res.json(raffle);
+  } catch (error) {
+    console.error('Error updating pricing:', error);
+    res.status(500).json({
+      error: 'Error updating pricing',
+      code: 'INTERNAL_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// Replace the prize catalog; prizes are drawn by `order`, ties keeping the list order
+router.put('/admin/raffles/:raffleId/prizes', validateBody(prizeListSchema), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { prizes } = req.body as PrizeListInput;
+
+    const raffle = await findRaffle(req.params.raffleId, { includeDrafts: true });
+    if (!raffle) {
+      res.status(404).json({
+        error: 'Raffle not found',
+        code: 'RAFFLE_NOT_FOUND',
+        message: 'Raffle does not exist',
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    // Results point to the prizes as they were drawn
+    if (raffle.status === 'drawn' || await DrawModel.exists({ raffleId: raffle._id, 'results.0': { $exists: true } })) {
+      res.status(409).json({
+        error: 'Prizes locked',
+        code: 'PRIZES_LOCKED',
+        message: 'Prizes cannot change once the draw has started',
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    raffle.prizes = prizes
+      .map((prize, index) => ({ prize, order: prize.order ?? index + 1, index }))
+      .sort((a, b) => a.order - b.order || a.index - b.index)
+      .map(({ prize }, index) => ({
+        ...(prize._id ? { _id: new mongoose.Types.ObjectId(prize._id) } : {}),
+        name: prize.name,
+        description: prize.description,
+        imageUrl: prize.imageUrl,
+        order: index + 1
+      }));
+    await raffle.save();
+    res.json(raffle);
+  } catch (error) {
+    console.error('Error updating prizes:', error);
+    res.status(500).json({
+      error: 'Error updating prizes',
+      code: 'INTERNAL_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// Full number details, including buyers, for the admin
+router.get('/admin/raffles/:raffleId/numbers', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const raffle = await findRaffle(req.params.raffleId, { includeDrafts: true });
+    if (!raffle) {
+      res.status(404).json({
+        error: 'Raffle not found',
+        code: 'RAFFLE_NOT_FOUND',
+        message: 'Raffle does not exist',
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    const numbers = await NumberModel.find({ raffleId: raffle._id })
+      .sort({ number: 1 })
+      .populate('sellerId', 'name');
+    res.json(numbers);
+  } catch (error) {
+    console.error('Error fetching numbers:', error);
+    res.status(500).json({
+      error: 'Error fetching numbers',
+      code: 'INTERNAL_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+router.get('/admin/raffles/:raffleId/totals', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const raffle = await findRaffle(req.params.raffleId, { includeDrafts: true });
+    if (!raffle) {
+      res.status(404).json({
+        error: 'Raffle not found',
+        code: 'RAFFLE_NOT_FOUND',
+        message: 'Raffle does not exist',
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    const [total, sold, [orders]] = await Promise.all([
+      NumberModel.countDocuments({ raffleId: raffle._id }),
+      NumberModel.countDocuments({ raffleId: raffle._id, isAvailable: false }),
+      PurchaseModel.aggregate([
+        { $match: { raffleId: raffle._id, paymentStatus: { $ne: 'cancelled' } } },
+        {
+          $group: {
+            _id: null,
+            paid: { $sum: { $cond: [{ $eq: ['$paymentStatus', 'paid'] }, { $size: '$numbers' }, 0] } },
+            expectedRevenue: { $sum: '$totalAmount' },
+            receivedRevenue: { $sum: { $cond: [{ $eq: ['$paymentStatus', 'paid'] }, '$totalAmount', 0] } }
+          }
+        }
+      ])
+    ]);
+
+    const paid = orders?.paid ?? 0;
+    res.json({
+      total,
+      sold,
+      available: total - sold,
+      paid,
+      unpaid: sold - paid,
+      expectedRevenue: orders?.expectedRevenue ?? 0,
+      receivedRevenue: orders?.receivedRevenue ?? 0,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error fetching totals:', error);
+    res.status(500).json({
+      error: 'Error fetching totals',
+      code: 'INTERNAL_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+export default router;
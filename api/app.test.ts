@@ -0,0 +1,105 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+import { ApiErrorBody, PurchaseResponse, ReserveResponse } from '../shared/api.js';
+
+// The API reads the configuration when loaded, so it comes in once the required variables are set
+process.env.MONGODB_URI ||= 'mongodb://127.0.0.1:27017/test';
+process.env.ADMIN_JWT_SECRET ||= 'test-admin-secret';
+process.env.RECEIPT_SECRET ||= 'test-receipt-secret';
+process.env.SELLER_CODE_PEPPER ||= 'test-seller-pepper';
+const { createApp } = await import('./app.js');
+const { closeDatabase, initializeDatabase } = await import('./db.js');
+const { PurchaseModel } = await import('./models/purchase.js');
+const { RaffleModel } = await import('./models/raffle.js');
+const { SellerModel, sellerCodeFields } = await import('./models/seller.js');
+const { StaticPixProvider, setPaymentProvider } = await import('./services/payments.js');
+
+const SELLER_CODE = '12345678';
+
+describe('API routes', () => {
+  let mongo: MongoMemoryServer;
+  let server: Server;
+  let baseUrl: string;
+
+  before(async () => {
+    mongo = await MongoMemoryServer.create();
+    // Migrations create the default open raffle with numbers 1 to 400
+    await initializeDatabase(mongo.getUri());
+    await SellerModel.create({ name: 'Vendedor', ...await sellerCodeFields(SELLER_CODE) });
+    const raffle = await RaffleModel.findOne().lean<{ _id: unknown }>();
+    server = createApp().listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/raffles/${raffle?._id}`;
+  });
+
+  after(async () => {
+    setPaymentProvider(null);
+    server.close();
+    await closeDatabase();
+    await mongo.stop();
+  });
+
+  function post(path: string, body: unknown, headers: Record<string, string> = {}) {
+    return fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body)
+    });
+  }
+
+  test('reserves free numbers and reports the ones held by others', async () => {
+    const first = await post('/numbers/reserve', { numbers: [1, 2] });
+    assert.equal(first.status, 200);
+    const reservation = await first.json() as ReserveResponse;
+    assert.deepEqual([...reservation.reserved].sort(), [1, 2]);
+
+    const second = await post('/numbers/reserve', { numbers: [2, 3] });
+    assert.equal(second.status, 409);
+    const conflict = await second.json() as ApiErrorBody & ReserveResponse;
+    assert.equal(conflict.code, 'NUMBERS_UNAVAILABLE');
+    assert.deepEqual(conflict.numbers, [2]);
+    assert.deepEqual(conflict.reserved, [3]);
+    assert.notEqual(conflict.token, reservation.token);
+  });
+
+  test('replays a purchase sent again with the same Idempotency-Key', async () => {
+    const order = { numbers: [10, 11], buyer: 'Maria Silva', phone: '11987654321', sellerCode: SELLER_CODE };
+    const headers = { 'Idempotency-Key': 'purchase-test-1' };
+
+    const first = await post('/numbers/purchase', order, headers);
+    assert.equal(first.status, 200);
+    const purchase = await first.json() as PurchaseResponse;
+
+    const retry = await post('/numbers/purchase', order, headers);
+    assert.equal(retry.status, 200);
+    assert.equal(retry.headers.get('idempotent-replayed'), 'true');
+    assert.deepEqual(await retry.json(), purchase);
+    assert.equal(await PurchaseModel.countDocuments({ buyerName: 'Maria Silva' }), 1);
+
+    const reused = await post('/numbers/purchase', { ...order, numbers: [12] }, headers);
+    assert.equal(reused.status, 422);
+    assert.equal((await reused.json() as ApiErrorBody).code, 'IDEMPOTENCY_KEY_REUSED');
+  });
+
+  test('rejects webhook calls without the shared secret', async () => {
+    setPaymentProvider(new StaticPixProvider('chave@pix.local', 'Rifa', 'Sao Paulo', 'webhook-secret'));
+    const webhookUrl = new URL('/api/payments/webhook', baseUrl).toString();
+    const call = (headers: Record<string, string>) => fetch(webhookUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify({ pix: [] })
+    });
+
+    const missing = await call({});
+    assert.equal(missing.status, 401);
+    assert.equal((await missing.json() as ApiErrorBody).code, 'UNAUTHORIZED');
+
+    const wrong = await call({ 'x-webhook-secret': 'not-the-secret' });
+    assert.equal(wrong.status, 401);
+
+    const right = await call({ 'x-webhook-secret': 'webhook-secret' });
+    assert.equal(right.status, 200);
+  });
+});
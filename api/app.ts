@@ -0,0 +1,94 @@
+import express, { Request, Response, NextFunction } from 'express';
+import cors from 'cors';
+import mongoose from 'mongoose';
+import { requireDatabase } from './db.js';
+import { localizeErrors } from './middleware/locale.js';
+import numbersRouter from './numbers.js';
+import rafflesRouter from './raffles.js';
+import adminRouter from './admin.js';
+import sellersRouter from './sellers.js';
+import purchasesRouter from './purchases.js';
+import drawsRouter from './draws.js';
+import paymentsRouter from './payments.js';
+import spreadsheetsRouter from './spreadsheets.js';
+import auditRouter from './audit.js';
+import lookupRouter from './lookup.js';
+import receiptsRouter from './receipts.js';
+import notificationsRouter from './notifications.js';
+import statsRouter from './stats.js';
+import pricingRouter from './pricing.js';
+import promoCodesRouter from './promoCodes.js';
+import openApiRouter from './openapi.js';
+import { ApiErrorBody, HealthResponse } from '../shared/api.js';
+
+// Build the API; the database is connected on the first request unless the caller initialized it already
+export function createApp(): express.Express {
+  const app = express();
+
+  // Behind the Vercel proxy; req.ip comes from X-Forwarded-For
+  app.set('trust proxy', 1);
+
+  // Middleware
+  app.use(cors());
+  // Error messages in the language of the Accept-Language header, malformed JSON bodies included
+  app.use(localizeErrors);
+  app.use(express.json());
+
+  // Health check endpoint, answered even when the database is down
+  app.get('/api/health', (_req: Request, res: Response): void => {
+    const dbState = mongoose.connection.readyState;
+    res.json({
+      status: 'ok',
+      timestamp: new Date().toISOString(),
+      dbStatus: dbState === 1 ? 'connected' : 'disconnected',
+      database: mongoose.connection.db?.databaseName || 'unknown'
+    } satisfies HealthResponse);
+  });
+
+  // The API contract, generated from shared/api.ts
+  app.use('/api', openApiRouter);
+
+  app.use('/api', requireDatabase);
+
+  // Use routes
+  app.use('/api', rafflesRouter);
+  app.use('/api', numbersRouter);
+  app.use('/api', adminRouter);
+  app.use('/api', sellersRouter);
+  app.use('/api', purchasesRouter);
+  app.use('/api', drawsRouter);
+  app.use('/api', paymentsRouter);
+  app.use('/api', spreadsheetsRouter);
+  app.use('/api', auditRouter);
+  app.use('/api', lookupRouter);
+  app.use('/api', receiptsRouter);
+  app.use('/api', notificationsRouter);
+  app.use('/api', statsRouter);
+  app.use('/api', pricingRouter);
+  app.use('/api', promoCodesRouter);
+
+  // Error handling middleware
+  app.use((err: Error & { status?: number; type?: string }, _req: Request, res: Response, _next: NextFunction): void => {
+    // Client errors raised before the routes (malformed or oversized bodies) keep their 4xx status,
+    // so clients do not mistake them for an outage and retry them forever
+    if (err.status && err.status >= 400 && err.status < 500) {
+      res.status(err.type === 'entity.parse.failed' ? 400 : err.status).json({
+        error: 'Invalid request body',
+        code: 'VALIDATION_FAILED',
+        message: err.type === 'entity.parse.failed' ? 'Request body is not valid JSON' : err.message,
+        timestamp: new Date().toISOString()
+      } satisfies ApiErrorBody);
+      return;
+    }
+
+    console.error('Global error:', err);
+    res.status(500).json({
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+      message: err.message,
+      timestamp: new Date().toISOString()
+    } satisfies ApiErrorBody);
+  });
+
+  return app;
+}
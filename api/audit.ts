@@ -0,0 +1,74 @@
+import express, { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { AuditEventModel } from './models/auditEvent.js';
+import { findRaffle } from './models/raffle.js';
+import { requireAdmin } from './middleware/auth.js';
+
+const router = express.Router();
+
+// Most recent events returned when no number or purchase is given
+const RECENT_EVENTS_LIMIT = 100;
+
+router.use('/admin', requireAdmin);
+
+// History of a raffle: ?number= for one number, ?purchaseId= for one order, oldest first
+router.get('/admin/audit', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { raffleId, number, purchaseId } = req.query;
+
+    const raffle = await findRaffle(typeof raffleId === 'string' ? raffleId : undefined, { includeDrafts: true });
+    if (!raffle) {
+      res.status(404).json({
+        error: 'Raffle not found',
+        code: 'RAFFLE_NOT_FOUND',
+        message: 'Raffle does not exist',
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    const filter: Record<string, unknown> = { raffleId: raffle._id };
+
+    if (number !== undefined) {
+      if (!Number.isInteger(Number(number))) {
+        res.status(400).json({
+          error: 'Invalid request',
+          code: 'VALIDATION_FAILED',
+          message: 'Number must be an integer',
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+      filter.numbers = Number(number);
+    }
+
+    if (purchaseId !== undefined) {
+      if (!mongoose.isValidObjectId(purchaseId)) {
+        res.status(400).json({
+          error: 'Invalid request',
+          code: 'VALIDATION_FAILED',
+          message: 'Purchase id is invalid',
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+      filter.purchaseId = purchaseId;
+    }
+
+    const events = number === undefined && purchaseId === undefined
+      ? (await AuditEventModel.find(filter).sort({ createdAt: -1 }).limit(RECENT_EVENTS_LIMIT)).reverse()
+      : await AuditEventModel.find(filter).sort({ createdAt: 1 });
+
+    res.json(events);
+  } catch (error) {
+    console.error('Error fetching audit events:', error);
+    res.status(500).json({
+      error: 'Error fetching audit events',
+      code: 'INTERNAL_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,79 @@
+import dotenv from 'dotenv';
+import * as yup from 'yup';
+
+// Carregar variáveis de ambiente
+dotenv.config();
+
+// Unset and empty variables both count as missing
+const optionalString = () => yup.string().transform((value: string) => (value === '' ? undefined : value));
+const requiredString = (name: string) => optionalString().required(`${name} is required`);
+const positiveInteger = (name: string, defaultValue: number) => yup
+  .number()
+  .transform((value: number, original: string) => (original === '' ? undefined : value))
+  .typeError(`${name} must be a number`)
+  .integer(`${name} must be an integer`)
+  .positive(`${name} must be positive`)
+  .default(defaultValue);
+
+const envSchema = yup.object({
+  MONGODB_URI: requiredString('MONGODB_URI'),
+  ADMIN_JWT_SECRET: requiredString('ADMIN_JWT_SECRET'),
+  RECEIPT_SECRET: requiredString('RECEIPT_SECRET'),
+  SELLER_CODE_PEPPER: requiredString('SELLER_CODE_PEPPER'),
+  ADMIN_USERNAME: optionalString(),
+  ADMIN_PASSWORD: optionalString(),
+  PURCHASE_PASSWORD: optionalString(),
+  PUBLIC_URL: optionalString().url('PUBLIC_URL must be a URL'),
+  PORT: positiveInteger('PORT', 3001),
+  RESERVATION_TTL_MINUTES: positiveInteger('RESERVATION_TTL_MINUTES', 10),
+  PURCHASE_RATE_LIMIT: positiveInteger('PURCHASE_RATE_LIMIT', 20),
+  RESERVE_RATE_LIMIT: positiveInteger('RESERVE_RATE_LIMIT', 30),
+  SECRET_MAX_FAILURES: positiveInteger('SECRET_MAX_FAILURES', 5),
+  // On Vercel every invocation may hit a fresh instance, so limits default to Mongo there
+  RATE_LIMIT_STORE: optionalString().oneOf(['memory', 'mongo'], 'RATE_LIMIT_STORE must be memory or mongo'),
+  VERCEL: optionalString(),
+  NODE_ENV: optionalString(),
+  // The fake provider confirms any webhook call, so a production deployment must not start with it
+  PAYMENT_PROVIDER: optionalString()
+    .oneOf(['static', 'fake'], 'PAYMENT_PROVIDER must be static or fake')
+    .when('NODE_ENV', {
+      is: 'production',
+      then: schema => schema.test('not-fake', 'PAYMENT_PROVIDER cannot be fake when NODE_ENV is production', value => value !== 'fake')
+    }),
+  PIX_KEY: optionalString(),
+  PIX_MERCHANT_NAME: optionalString().default('Rifa Solidaria'),
+  PIX_MERCHANT_CITY: optionalString().default('Sao Paulo'),
+  PIX_WEBHOOK_SECRET: optionalString(),
+  EMAIL_TRANSPORT: optionalString().oneOf(['smtp', 'console', 'file'], 'EMAIL_TRANSPORT must be smtp, console or file'),
+  SMTP_URL: optionalString().when('EMAIL_TRANSPORT', {
+    is: 'smtp',
+    then: schema => schema.required('SMTP_URL is required when EMAIL_TRANSPORT is smtp')
+  }),
+  EMAIL_FROM: optionalString().default('Rifa Solidária <no-reply@rifa.local>'),
+  MESSAGE_TRANSPORT: optionalString().oneOf(['http', 'console', 'file'], 'MESSAGE_TRANSPORT must be http, console or file'),
+  MESSAGE_PROVIDER_URL: optionalString().when('MESSAGE_TRANSPORT', {
+    is: 'http',
+    then: schema => schema.required('MESSAGE_PROVIDER_URL is required when MESSAGE_TRANSPORT is http')
+  }),
+  MESSAGE_PROVIDER_TOKEN: optionalString(),
+  NOTIFICATIONS_FILE: optionalString().default('notifications.log'),
+  // Sent by Vercel Cron as a bearer token when it calls the outbox
+  CRON_SECRET: optionalString()
+});
+
+export type Env = yup.InferType<typeof envSchema>;
+
+// Validate the environment, listing every problem at once; there are no fallbacks for secrets
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): Env {
+  try {
+    return envSchema.validateSync(env, { abortEarly: false, stripUnknown: true });
+  } catch (error) {
+    if (error instanceof yup.ValidationError) {
+      throw new Error(`Invalid configuration:\n  ${error.errors.join('\n  ')}`);
+    }
+    throw error;
+  }
+}
+
+// Read once at startup: a misconfigured deployment fails before serving anything
+export const config = loadConfig();
@@ -0,0 +1,78 @@
+import { Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import { config } from './config.js';
+import { runMigrations, seedDatabase } from './migrations.js';
+import { ApiErrorBody } from '../shared/api.js';
+
+const MAX_CONNECT_ATTEMPTS = 3;
+
+// Connect to MongoDB with retry logic
+async function connectDB(uri: string): Promise<void> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      console.log(`Attempting to connect to MongoDB (attempt ${attempt}/${MAX_CONNECT_ATTEMPTS})...`);
+      await mongoose.connect(uri, {
+        serverSelectionTimeoutMS: 5000,
+        socketTimeoutMS: 45000,
+        family: 4,
+        maxPoolSize: 10,
+        minPoolSize: 5,
+        maxIdleTimeMS: 10000,
+        connectTimeoutMS: 10000,
+        heartbeatFrequencyMS: 10000,
+        retryWrites: true,
+        retryReads: true,
+        autoIndex: true,
+        autoCreate: true
+      });
+      console.log(`MongoDB connected successfully to ${mongoose.connection.db?.databaseName} database`);
+      return;
+    } catch (error) {
+      console.error(`MongoDB connection attempt ${attempt} failed:`, error);
+      if (attempt === MAX_CONNECT_ATTEMPTS) {
+        throw new Error(`Failed to connect to MongoDB after ${MAX_CONNECT_ATTEMPTS} attempts`);
+      }
+      // Wait before retrying
+      await new Promise(resolve => setTimeout(resolve, 1000 * attempt));
+    }
+  }
+}
+
+let initialization: Promise<void> | null = null;
+
+// Connect, migrate and seed once per process; a failed attempt is retried by the next caller
+export function initializeDatabase(uri: string = config.MONGODB_URI): Promise<void> {
+  if (!initialization) {
+    initialization = (async () => {
+      await connectDB(uri);
+      await runMigrations();
+      await seedDatabase();
+    })().catch(async (error) => {
+      initialization = null;
+      await mongoose.disconnect().catch(() => undefined);
+      throw error;
+    });
+  }
+  return initialization;
+}
+
+export async function closeDatabase(): Promise<void> {
+  initialization = null;
+  await mongoose.disconnect();
+}
+
+// Hold requests until the database is ready; serverless instances connect on their first request
+export async function requireDatabase(_req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    await initializeDatabase();
+    next();
+  } catch (error) {
+    console.error('Database unavailable:', error);
+    res.status(503).json({
+      error: 'Service unavailable',
+      code: 'SERVICE_UNAVAILABLE',
+      message: 'Database is not available',
+      timestamp: new Date().toISOString()
+    } satisfies ApiErrorBody);
+  }
+}
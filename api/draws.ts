@@ -0,0 +1,265 @@
+import express, { Request, Response } from 'express';
+import { randomBytes } from 'crypto';
+import { DrawModel, IDrawResult, pickWinningNumber, remainingCandidates, sha256 } from './models/draw.js';
+import { NumberModel } from './models/number.js';
+import { PurchaseModel } from './models/purchase.js';
+import { prizesInDrawOrder } from './models/raffle.js';
+import { requireAdmin } from './middleware/auth.js';
+import { withRaffle } from './middleware/raffle.js';
+import { recordAuditEvent } from './services/audit.js';
+import { queueNotification, wakeOutbox } from './services/notifications.js';
+import { publicBuyerName } from './utils/privacy.js';
+
+const router = express.Router({ mergeParams: true });
+
+// Public verification data; the seed only appears once the draw has happened
+router.get('/draw', withRaffle, async (_req: Request, res: Response): Promise<void> => {
+  try {
+    const draw = await DrawModel.findOne({ raffleId: res.locals.raffle._id }).select('+seed');
+    if (!draw) {
+      res.status(404).json({
+        error: 'Draw not found',
+        code: 'DRAW_NOT_FOUND',
+        message: 'No draw has been committed for this raffle',
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    res.json({
+      raffleId: draw.raffleId,
+      seedHash: draw.seedHash,
+      committedAt: draw.committedAt,
+      seed: draw.drawnAt ? draw.seed : null,
+      soldNumbers: draw.soldNumbers,
+      results: draw.results.map((result: IDrawResult) => ({
+        prizeId: result.prizeId,
+        prizeName: result.prizeName,
+        order: result.order,
+        winningNumber: result.winningNumber,
+        winnerName: publicBuyerName(result.winnerName, res.locals.raffle.buyerNameDisplay),
+        drawnAt: result.drawnAt
+      })),
+      drawnAt: draw.drawnAt,
+      algorithm: 'for each prize in order: index = SHA-256("<seed>:<remaining numbers joined by ,>") mod remaining.length; the drawn number leaves the list',
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error fetching draw:', error);
+    res.status(500).json({
+      error: 'Error fetching draw',
+      code: 'INTERNAL_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// Generate the secret seed and publish its hash while sales are still open
+router.post('/draw/commit', requireAdmin, withRaffle, async (_req: Request, res: Response): Promise<void> => {
+  try {
+    const raffle = res.locals.raffle;
+
+    if (raffle.status !== 'open') {
+      res.status(409).json({
+        error: 'Raffle not open',
+        code: 'RAFFLE_NOT_OPEN',
+        message: 'The seed must be committed before sales are closed',
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    if (await DrawModel.exists({ raffleId: raffle._id })) {
+      res.status(409).json({
+        error: 'Draw already committed',
+        code: 'DRAW_ALREADY_COMMITTED',
+        message: 'A seed has already been committed for this raffle',
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    const seed = randomBytes(32).toString('hex');
+    const draw = await DrawModel.create({
+      raffleId: raffle._id,
+      seedHash: sha256(seed),
+      seed,
+      committedAt: new Date(),
+      committedBy: res.locals.admin.username
+    });
+
+    res.status(201).json({
+      raffleId: draw.raffleId,
+      seedHash: draw.seedHash,
+      committedAt: draw.committedAt,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error committing draw:', error);
+    res.status(500).json({
+      error: 'Error committing draw',
+      code: 'INTERNAL_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// Draw the next prize of the catalog among the sold numbers that haven't won yet.
+// The seed is revealed, and buyers notified, once the last prize is drawn.
+router.post('/draw', requireAdmin, withRaffle, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const raffle = res.locals.raffle;
+
+    if (raffle.status !== 'closed') {
+      res.status(409).json({
+        error: 'Raffle not closed',
+        code: 'RAFFLE_NOT_CLOSED',
+        message: 'Sales must be closed before the draw',
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    const draw = await DrawModel.findOne({ raffleId: raffle._id }).select('+seed');
+    if (!draw) {
+      res.status(409).json({
+        error: 'Draw not committed',
+        code: 'DRAW_NOT_COMMITTED',
+        message: 'A seed must be committed before the draw',
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    if (draw.drawnAt) {
+      res.status(409).json({
+        error: 'Draw already done',
+        code: 'DRAW_ALREADY_DONE',
+        message: `Numbers ${draw.results.map((result: IDrawResult) => result.winningNumber).join(', ')} were already drawn`,
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    // Without a catalog the raffle still has one unnamed prize
+    const prizes = prizesInDrawOrder(raffle);
+    const prizeCount = Math.max(prizes.length, 1);
+
+    // Sales are closed, so the sold numbers are fixed when the first prize is drawn
+    if (draw.results.length === 0) {
+      const soldNumbers: number[] = await NumberModel.find({ raffleId: raffle._id, isAvailable: false }).distinct('number');
+
+      if (soldNumbers.length === 0) {
+        res.status(409).json({
+          error: 'No numbers sold',
+          code: 'NO_NUMBERS_SOLD',
+          message: 'There are no sold numbers to draw from',
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      if (soldNumbers.length < prizeCount) {
+        res.status(409).json({
+          error: 'Not enough numbers sold',
+          code: 'NOT_ENOUGH_NUMBERS_SOLD',
+          message: `Only ${soldNumbers.length} numbers were sold for ${prizeCount} prizes`,
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      draw.soldNumbers = soldNumbers.sort((a, b) => a - b);
+    }
+
+    const drawnBefore = draw.results.length;
+    const prize = prizes[drawnBefore] ?? null;
+    const winningNumber = pickWinningNumber(draw.seed, remainingCandidates(draw));
+    const winner = await NumberModel.findOne({ raffleId: raffle._id, number: winningNumber });
+    const result: IDrawResult = {
+      prizeId: prize?._id ?? null,
+      prizeName: prize?.name ?? null,
+      order: drawnBefore + 1,
+      winningNumber,
+      winnerName: winner?.purchasedBy ?? null,
+      purchaseId: winner?.purchaseId ?? null,
+      drawnAt: new Date()
+    };
+    draw.results.push(result);
+
+    const finished = draw.results.length >= prizeCount;
+    if (finished) {
+      draw.set({ drawnAt: new Date(), drawnBy: res.locals.admin.username });
+    }
+    // Only the request that still sees the same results may store this prize, so concurrent draws can't add duplicates
+    const saved = await DrawModel.updateOne(
+      { _id: draw._id, drawnAt: null, results: { $size: drawnBefore } },
+      { $set: { soldNumbers: draw.soldNumbers, results: draw.results, drawnAt: draw.drawnAt, drawnBy: draw.drawnBy } }
+    );
+    if (saved.matchedCount === 0) {
+      res.status(409).json({
+        error: 'Draw in progress',
+        code: 'DRAW_IN_PROGRESS',
+        message: 'Another request drew this prize first',
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    await recordAuditEvent({
+      raffleId: raffle._id,
+      numbers: [winningNumber],
+      purchaseId: result.purchaseId,
+      action: 'draw',
+      actor: res.locals.admin.username,
+      ip: req.ip,
+      after: { prize: result.prizeName, order: result.order, winningNumber, winnerName: result.winnerName, seedHash: draw.seedHash }
+    });
+
+    if (finished) {
+      raffle.status = 'drawn';
+      await raffle.save();
+
+      // Tell every buyer the results, and the winners what they won; the outbox sends them in the background
+      try {
+        const winners = draw.results.map((drawn: IDrawResult) => ({ prizeName: drawn.prizeName, winningNumber: drawn.winningNumber }));
+        const winningNumbers = new Set(winners.map(drawn => drawn.winningNumber));
+        const purchases = await PurchaseModel.find({ raffleId: raffle._id, paymentStatus: { $ne: 'cancelled' } });
+        for (const purchase of purchases) {
+          await queueNotification(purchase.numbers.some(number => winningNumbers.has(number)) ? 'drawWinner' : 'drawResult', {
+            buyerName: purchase.buyerName,
+            raffleTitle: raffle.title,
+            numbers: purchase.numbers,
+            winners
+          }, [purchase]);
+        }
+        wakeOutbox();
+      } catch (error) {
+        console.error('Error notifying draw result:', error);
+      }
+    }
+
+    res.json({
+      raffleId: draw.raffleId,
+      seedHash: draw.seedHash,
+      committedAt: draw.committedAt,
+      seed: finished ? draw.seed : null,
+      soldNumbers: draw.soldNumbers,
+      results: draw.results,
+      drawnAt: draw.drawnAt,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error drawing winner:', error);
+    res.status(500).json({
+      error: 'Error drawing winner',
+      code: 'INTERNAL_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,139 @@
+import express, { Request, Response } from 'express';
+import { randomInt } from 'crypto';
+import { LookupCodeModel } from './models/lookupCode.js';
+import { PurchaseModel, isValidPhone, normalizePhone, normalizeReceiptCode } from './models/purchase.js';
+import { validateBody } from './middleware/validate.js';
+import { rateLimit, sendTooManyRequests } from './middleware/rateLimit.js';
+import { BruteForceGuard } from './services/rateLimit.js';
+import { notify } from './services/notifications.js';
+import { hashSecret, verifySecret } from './utils/hash.js';
+import { LookupCodeInput, lookupCodeSchema } from '../shared/schemas.js';
+
+// Validade do código enviado ao telefone do comprador
+const LOOKUP_CODE_TTL_MINUTES = 10;
+
+const lookupGuard = new BruteForceGuard('purchase-lookup');
+
+const router = express.Router();
+
+// Send a one-time code to the phone, if it has purchases; the answer is the same either way
+router.post(
+  '/purchases/lookup/code',
+  rateLimit('lookup-code', 5, 15 * 60 * 1000),
+  validateBody(lookupCodeSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const phone = normalizePhone((req.body as LookupCodeInput).phone);
+
+      if (await PurchaseModel.exists({ phone })) {
+        const code = randomInt(0, 1000000).toString().padStart(6, '0');
+        await LookupCodeModel.findOneAndUpdate(
+          { phone },
+          { codeHash: await hashSecret(code), expiresAt: new Date(Date.now() + LOOKUP_CODE_TTL_MINUTES * 60 * 1000) },
+          { upsert: true }
+        );
+        await notify('lookupCode', { code, expiresInMinutes: LOOKUP_CODE_TTL_MINUTES }, [{ phone }], ['message']);
+      }
+
+      res.json({
+        message: 'If this phone has purchases, a code was sent to it',
+        expiresInMinutes: LOOKUP_CODE_TTL_MINUTES,
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      console.error('Error sending lookup code:', error);
+      res.status(500).json({
+        error: 'Error sending lookup code',
+        code: 'INTERNAL_ERROR',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+);
+
+// The buyer's purchases, by ?receipt= or by ?phone= plus the one-time ?code=
+router.get('/purchases/lookup', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { receipt, phone, code } = req.query;
+
+    const byReceipt = typeof receipt === 'string' && receipt.trim() !== '';
+    const byPhone = typeof phone === 'string' && isValidPhone(phone) && typeof code === 'string' && code.trim() !== '';
+    if (!byReceipt && !byPhone) {
+      res.status(400).json({
+        error: 'Invalid request',
+        code: 'VALIDATION_FAILED',
+        message: 'A receipt code, or a phone and its one-time code, is required',
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    const guardIds = [`ip:${req.ip}`, ...(byPhone ? [`phone:${normalizePhone(phone as string)}`] : [])];
+    const retryAfter = await lookupGuard.retryAfter(guardIds);
+    if (retryAfter > 0) {
+      sendTooManyRequests(res, retryAfter, 'Too many invalid codes, try again later');
+      return;
+    }
+
+    let filter: Record<string, unknown> | null = null;
+    if (byReceipt) {
+      filter = { receiptCode: normalizeReceiptCode(receipt as string) };
+    } else {
+      const normalizedPhone = normalizePhone(phone as string);
+      const lookupCode = await LookupCodeModel.findOne({ phone: normalizedPhone, expiresAt: { $gt: new Date() } });
+      if (lookupCode && await verifySecret((code as string).trim(), lookupCode.codeHash)) {
+        // One-time: the code is gone once used
+        await LookupCodeModel.deleteOne({ _id: lookupCode._id });
+        filter = { phone: normalizedPhone };
+      }
+    }
+
+    const purchases = filter
+      ? await PurchaseModel.find(filter).sort({ purchaseDate: -1 }).populate('raffleId', 'title status')
+      : [];
+
+    if (purchases.length === 0) {
+      const lockout = await lookupGuard.fail(guardIds);
+      if (lockout > 0) {
+        sendTooManyRequests(res, lockout, 'Too many invalid codes, try again later');
+        return;
+      }
+      res.status(404).json({
+        error: 'Purchase not found',
+        code: 'PURCHASE_NOT_FOUND',
+        message: byReceipt ? 'No purchase has this receipt code' : 'Invalid or expired code',
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+    await lookupGuard.succeed(guardIds);
+
+    res.json({
+      purchases: purchases.map(purchase => ({
+        receiptCode: purchase.receiptCode,
+        raffle: purchase.raffleId && {
+          _id: purchase.raffleId._id,
+          title: purchase.raffleId.title,
+          status: purchase.raffleId.status
+        },
+        buyerName: purchase.buyerName,
+        numbers: purchase.numbers,
+        totalAmount: purchase.totalAmount,
+        paymentStatus: purchase.paymentStatus,
+        purchaseDate: purchase.purchaseDate
+      })),
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error looking up purchases:', error);
+    res.status(500).json({
+      error: 'Error looking up purchases',
+      code: 'INTERNAL_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+export default router;
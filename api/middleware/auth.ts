@@ -0,0 +1,66 @@
+import { Request, Response, NextFunction } from 'express';
+import jwt from 'jsonwebtoken';
+import { config } from '../config.js';
+import { ApiErrorBody } from '../../shared/api.js';
+
+// Segredo usado para assinar os tokens do painel administrativo
+const ADMIN_JWT_SECRET = config.ADMIN_JWT_SECRET;
+
+const TOKEN_EXPIRATION = '12h';
+
+export interface AdminClaims {
+  id: string;
+  username: string;
+  name: string;
+}
+
+export function signAdminToken(admin: AdminClaims): string {
+  if (!ADMIN_JWT_SECRET) {
+    throw new Error('ADMIN_JWT_SECRET is not configured');
+  }
+  return jwt.sign(admin, ADMIN_JWT_SECRET, { expiresIn: TOKEN_EXPIRATION });
+}
+
+// Require a valid "Authorization: Bearer <token>" header and expose the admin in res.locals.admin
+export function requireAdmin(req: Request, res: Response, next: NextFunction): void {
+  const header = req.headers.authorization;
+  const token = header?.startsWith('Bearer ') ? header.slice('Bearer '.length) : null;
+
+  if (!token || !ADMIN_JWT_SECRET) {
+    res.status(401).json({
+      error: 'Unauthorized',
+      code: 'UNAUTHORIZED',
+      message: 'Admin authentication required',
+      timestamp: new Date().toISOString()
+    } satisfies ApiErrorBody);
+    return;
+  }
+
+  try {
+    const { id, username, name } = jwt.verify(token, ADMIN_JWT_SECRET) as AdminClaims;
+    res.locals.admin = { id, username, name };
+    next();
+  } catch {
+    res.status(401).json({
+      error: 'Unauthorized',
+      code: 'UNAUTHORIZED',
+      message: 'Invalid or expired token',
+      timestamp: new Date().toISOString()
+    } satisfies ApiErrorBody);
+  }
+}
+
+// The admin signed in on a public route, if the request carries a valid token; never rejects
+export function optionalAdmin(req: Request): AdminClaims | null {
+  const header = req.headers.authorization;
+  const token = header?.startsWith('Bearer ') ? header.slice('Bearer '.length) : null;
+  if (!token || !ADMIN_JWT_SECRET) {
+    return null;
+  }
+  try {
+    const { id, username, name } = jwt.verify(token, ADMIN_JWT_SECRET) as AdminClaims;
+    return { id, username, name };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,104 @@
+import { Request, Response, NextFunction } from 'express';
+import { createHash } from 'crypto';
+import { IdempotencyKeyModel } from '../models/idempotencyKey.js';
+import { ApiErrorBody } from '../../shared/api.js';
+
+// Queued offline purchases may be retried for a day
+const KEY_TTL_MS = 24 * 60 * 60 * 1000;
+const LOCK_MS = 60 * 1000;
+const MAX_KEY_LENGTH = 255;
+
+// Outcomes worth replaying; server errors and rate limits must be retried for real
+function isFinal(statusCode: number): boolean {
+  return statusCode < 500 && statusCode !== 429;
+}
+
+function isDuplicateKeyError(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { code?: number }).code === 11000;
+}
+
+// Honor an optional Idempotency-Key header: the first request runs, retries with the same key get its response back
+export function idempotent(scope: string) {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const header = req.get('Idempotency-Key');
+      if (header === undefined) {
+        next();
+        return;
+      }
+      if (header.trim() === '' || header.length > MAX_KEY_LENGTH) {
+        res.status(400).json({
+          error: 'Invalid request',
+          code: 'VALIDATION_FAILED',
+          message: `Idempotency-Key must have between 1 and ${MAX_KEY_LENGTH} characters`,
+          timestamp: new Date().toISOString()
+        } satisfies ApiErrorBody);
+        return;
+      }
+
+      const key = `${scope}:${header}`;
+      const requestHash = createHash('sha256').update(JSON.stringify([req.originalUrl, req.body ?? null])).digest('hex');
+      const now = new Date();
+
+      try {
+        await IdempotencyKeyModel.create({
+          key,
+          requestHash,
+          lockedUntil: new Date(now.getTime() + LOCK_MS),
+          expiresAt: new Date(now.getTime() + KEY_TTL_MS)
+        });
+      } catch (error) {
+        if (!isDuplicateKeyError(error)) {
+          throw error;
+        }
+
+        const existing = await IdempotencyKeyModel.findOne({ key });
+        if (existing && existing.requestHash !== requestHash) {
+          res.status(422).json({
+            error: 'Idempotency key reused',
+            code: 'IDEMPOTENCY_KEY_REUSED',
+            message: 'This Idempotency-Key was already used for a different request',
+            timestamp: new Date().toISOString()
+          } satisfies ApiErrorBody);
+          return;
+        }
+        if (existing?.status === 'completed') {
+          res.setHeader('Idempotent-Replayed', 'true');
+          res.status(existing.statusCode).json(existing.response);
+          return;
+        }
+
+        // Take over a pending key whose request never finished, e.g. after a crash
+        const claimed = await IdempotencyKeyModel.findOneAndUpdate(
+          { key, requestHash, status: 'pending', lockedUntil: { $lte: now } },
+          { $set: { lockedUntil: new Date(now.getTime() + LOCK_MS) } }
+        );
+        if (!claimed) {
+          res.status(409).json({
+            error: 'Request in progress',
+            code: 'REQUEST_IN_PROGRESS',
+            message: 'A request with this Idempotency-Key is still being processed',
+            timestamp: new Date().toISOString()
+          } satisfies ApiErrorBody);
+          return;
+        }
+      }
+
+      // Store the outcome before sending it, so a retry arriving right after sees it
+      const send = res.json.bind(res);
+      res.json = (body: unknown) => {
+        const statusCode = res.statusCode;
+        const store = isFinal(statusCode)
+          ? IdempotencyKeyModel.updateOne({ key }, { $set: { status: 'completed', statusCode, response: body } })
+          : IdempotencyKeyModel.deleteOne({ key });
+        store
+          .catch((error: unknown) => console.error('Error storing idempotent response:', error))
+          .finally(() => send(body));
+        return res;
+      };
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,62 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import express from 'express';
+import { localizeErrors } from './locale.js';
+import { ApiErrorBody } from '../../shared/api.js';
+
+describe('localizeErrors', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  before(() => {
+    const app = express();
+    app.use(localizeErrors);
+    app.get('/missing', (_req, res) => {
+      res.status(404).json({
+        error: 'Raffle not found',
+        code: 'RAFFLE_NOT_FOUND',
+        message: 'Raffle does not exist',
+        timestamp: new Date().toISOString()
+      });
+    });
+    app.get('/unknown', (_req, res) => {
+      res.status(500).json({ error: 'Boom', code: 'NOT_A_CODE', message: 'Something broke' });
+    });
+    app.get('/ok', (_req, res) => {
+      res.json({ locale: res.locals.locale });
+    });
+    server = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  test('answers errors in the negotiated language', async () => {
+    const response = await fetch(`${baseUrl}/missing`, { headers: { 'Accept-Language': 'en;q=0.5,es-AR;q=0.9' } });
+    assert.equal(response.status, 404);
+    assert.equal(response.headers.get('content-language'), 'es');
+    const body = await response.json() as ApiErrorBody;
+    assert.equal(body.code, 'RAFFLE_NOT_FOUND');
+    assert.equal(body.message, 'Rifa no encontrada');
+  });
+
+  test('answers in pt-BR without Accept-Language', async () => {
+    const body = await (await fetch(`${baseUrl}/missing`)).json() as ApiErrorBody;
+    assert.equal(body.message, 'Rifa não encontrada');
+  });
+
+  test('leaves bodies without a known code alone', async () => {
+    const body = await (await fetch(`${baseUrl}/unknown`, { headers: { 'Accept-Language': 'es' } })).json() as ApiErrorBody;
+    assert.equal(body.message, 'Something broke');
+  });
+
+  test('exposes the locale to the routes', async () => {
+    const response = await fetch(`${baseUrl}/ok`, { headers: { 'Accept-Language': 'pt' } });
+    assert.equal(response.headers.get('vary'), 'Accept-Language');
+    assert.deepEqual(await response.json(), { locale: 'pt-BR' });
+  });
+});
@@ -0,0 +1,27 @@
+import { Request, Response, NextFunction } from 'express';
+import { ApiErrorBody, ERROR_CODES } from '../../shared/api.js';
+import { negotiateLocale } from '../../shared/i18n.js';
+import { errorMessage } from '../../shared/messages.js';
+
+function isErrorBody(body: unknown): body is ApiErrorBody {
+  const code = (body as { code?: unknown } | null)?.code;
+  return typeof code === 'string' && (ERROR_CODES as readonly string[]).includes(code);
+}
+
+// Negotiate the language of the messages from Accept-Language into res.locals.locale, and answer
+// every error in it: routes write the English message, which is replaced by the one for its code
+export function localizeErrors(req: Request, res: Response, next: NextFunction): void {
+  const locale = negotiateLocale(req.get('Accept-Language'));
+  res.locals.locale = locale;
+  res.vary('Accept-Language');
+
+  const send = res.json.bind(res);
+  res.json = (body: unknown) => {
+    if (res.statusCode < 400 || !isErrorBody(body)) {
+      return send(body);
+    }
+    res.setHeader('Content-Language', locale);
+    return send({ ...body, message: errorMessage(locale, body) });
+  };
+  next();
+}
@@ -0,0 +1,38 @@
+import { Request, Response, NextFunction } from 'express';
+import { findRaffle } from '../models/raffle.js';
+import { optionalAdmin } from './auth.js';
+import { ApiErrorBody } from '../../shared/api.js';
+
+// Resolve the raffle from the route (or the current raffle) into res.locals.raffle; drafts only resolve for admins
+export async function withRaffle(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const raffle = await findRaffle(req.params.raffleId, { includeDrafts: Boolean(res.locals.admin ?? optionalAdmin(req)) });
+    if (!raffle) {
+      res.status(404).json({
+        error: 'Raffle not found',
+        code: 'RAFFLE_NOT_FOUND',
+        message: 'Raffle does not exist',
+        timestamp: new Date().toISOString()
+      } satisfies ApiErrorBody);
+      return;
+    }
+    res.locals.raffle = raffle;
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+// Reject reservations and purchases for raffles that are not on sale
+export function requireOpenRaffle(_req: Request, res: Response, next: NextFunction): void {
+  if (res.locals.raffle.status !== 'open') {
+    res.status(409).json({
+      error: 'Raffle not open',
+      code: 'RAFFLE_NOT_OPEN',
+      message: 'This raffle is not accepting purchases',
+      timestamp: new Date().toISOString()
+    } satisfies ApiErrorBody);
+    return;
+  }
+  next();
+}
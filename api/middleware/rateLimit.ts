@@ -0,0 +1,30 @@
+import { Request, Response, NextFunction } from 'express';
+import { getRateLimitStore } from '../services/rateLimit.js';
+import { ApiErrorBody } from '../../shared/api.js';
+
+export function sendTooManyRequests(res: Response, retryAfter: number, message = 'Too many requests, try again later'): void {
+  res.setHeader('Retry-After', String(retryAfter));
+  res.status(429).json({
+    error: 'Too many requests',
+    code: 'TOO_MANY_REQUESTS',
+    message,
+    retryAfter,
+    timestamp: new Date().toISOString()
+  } satisfies ApiErrorBody);
+}
+
+// Allow at most `limit` requests per IP in each window of the named route
+export function rateLimit(name: string, limit: number, windowMs: number) {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { count, resetAt } = await getRateLimitStore().hit(`${name}:ip:${req.ip}`, windowMs);
+      if (count > limit) {
+        sendTooManyRequests(res, Math.max(1, Math.ceil((resetAt.getTime() - Date.now()) / 1000)));
+        return;
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
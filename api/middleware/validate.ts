@@ -0,0 +1,37 @@
+import { Request, Response, NextFunction } from 'express';
+import * as yup from 'yup';
+import { ApiErrorBody } from '../../shared/api.js';
+import { DEFAULT_LOCALE } from '../../shared/i18n.js';
+import { validationMessage } from '../../shared/messages.js';
+
+// Validate and cast req.body against a schema, answering 400 with every failing field
+// in the language negotiated by localizeErrors
+export function validateBody(schema: yup.AnySchema) {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      req.body = await schema.validate(req.body ?? {}, {
+        abortEarly: false,
+        stripUnknown: true,
+        context: { raffle: res.locals.raffle }
+      });
+      next();
+    } catch (error) {
+      if (error instanceof yup.ValidationError) {
+        const failures = error.inner.length > 0 ? error.inner : [error];
+        res.status(400).json({
+          error: 'Invalid request',
+          code: 'VALIDATION_FAILED',
+          message: 'Request validation failed',
+          fields: failures.map(failure => ({
+            path: failure.path ?? null,
+            type: failure.type ?? null,
+            message: validationMessage(res.locals.locale ?? DEFAULT_LOCALE, failure.message, failure.params)
+          })),
+          timestamp: new Date().toISOString()
+        } satisfies ApiErrorBody);
+        return;
+      }
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,212 @@
+import mongoose from 'mongoose';
+import { config } from './config.js';
+import { AdminModel } from './models/admin.js';
+import { DrawModel } from './models/draw.js';
+import { MigrationModel } from './models/migration.js';
+import { NumberModel } from './models/number.js';
+import { PurchaseModel, generateReceiptCode } from './models/purchase.js';
+import { RaffleModel } from './models/raffle.js';
+import { SellerModel, sellerCodeFields, sellerCodeLookup } from './models/seller.js';
+import { hashSecret, verifySecret } from './utils/hash.js';
+import { seedRaffleNumbers } from './raffles.js';
+
+interface Migration {
+  name: string;
+  up: () => Promise<void>;
+}
+
+// Create the original 400-number raffle and move numbers from before multi-raffle support into it
+async function createDefaultRaffle(): Promise<void> {
+  if (await RaffleModel.countDocuments() > 0) {
+    return;
+  }
+
+  const raffle = await RaffleModel.create({
+    title: 'Rifa Solidária',
+    description: 'Esta rifa solidária foi criada para ajudar uma causa nobre.',
+    ticketPrice: 20,
+    numberStart: 1,
+    numberEnd: 400,
+    status: 'open'
+  });
+
+  // Numbers used to be unique across the whole collection
+  await NumberModel.collection.dropIndex('number_1').catch(() => undefined);
+  await NumberModel.updateMany({ raffleId: { $exists: false } }, { $set: { raffleId: raffle._id } });
+  await seedRaffleNumbers(raffle._id, raffle.numberStart, raffle.numberEnd);
+}
+
+// Group numbers sold before orders existed into one order per buyer and purchase time
+async function migrateLegacySales(): Promise<void> {
+  const legacySales = await NumberModel.collection.aggregate<{
+    _id: { raffleId: mongoose.Types.ObjectId; purchasedBy: string; purchaseDate: Date; sellerId: mongoose.Types.ObjectId | null };
+    numbers: number[];
+    isPaid: boolean;
+  }>([
+    { $match: { isAvailable: false, purchaseId: null, raffleId: { $ne: null } } },
+    {
+      $group: {
+        _id: { raffleId: '$raffleId', purchasedBy: '$purchasedBy', purchaseDate: '$purchaseDate', sellerId: { $ifNull: ['$sellerId', null] } },
+        numbers: { $push: '$number' },
+        isPaid: { $max: { $ifNull: ['$isPaid', false] } }
+      }
+    }
+  ]).toArray();
+
+  for (const sale of legacySales) {
+    const raffle = await RaffleModel.findById(sale._id.raffleId);
+    const purchase = await PurchaseModel.create({
+      raffleId: sale._id.raffleId,
+      sellerId: sale._id.sellerId,
+      buyerName: sale._id.purchasedBy || 'Desconhecido',
+      numbers: sale.numbers,
+      totalAmount: sale.numbers.length * (raffle?.ticketPrice ?? 0),
+      paymentStatus: sale.isPaid ? 'paid' : 'pending',
+      purchaseDate: sale._id.purchaseDate ?? new Date(),
+      receiptCode: generateReceiptCode()
+    });
+    await NumberModel.updateMany(
+      { raffleId: sale._id.raffleId, number: { $in: sale.numbers } },
+      { $set: { purchaseId: purchase._id } }
+    );
+  }
+
+  if (legacySales.length > 0) {
+    await NumberModel.collection.updateMany({}, { $unset: { isPaid: '', paidAt: '' } });
+    console.log(`Migrated ${legacySales.length} legacy sales to purchases`);
+  }
+}
+
+// Orders placed before receipt codes existed
+async function backfillReceiptCodes(): Promise<void> {
+  const withoutReceipt = await PurchaseModel.find({ receiptCode: null }, { _id: 1 });
+  for (const purchase of withoutReceipt) {
+    await PurchaseModel.updateOne({ _id: purchase._id }, { $set: { receiptCode: generateReceiptCode() } });
+  }
+}
+
+// Draws from before prize catalogs had a single winner stored on the draw itself
+async function migrateDrawResults(): Promise<void> {
+  const legacyDraws = await DrawModel.collection.find<{
+    _id: mongoose.Types.ObjectId;
+    raffleId: mongoose.Types.ObjectId;
+    winningNumber: number | null;
+    winnerName: string | null;
+    drawnAt: Date | null;
+  }>({ winningNumber: { $exists: true } }).toArray();
+
+  for (const draw of legacyDraws) {
+    const winner = draw.winningNumber !== null
+      ? await NumberModel.findOne({ raffleId: draw.raffleId, number: draw.winningNumber }, { purchaseId: 1 })
+      : null;
+    await DrawModel.collection.updateOne({ _id: draw._id }, {
+      $set: {
+        results: draw.winningNumber !== null && draw.drawnAt
+          ? [{
+              prizeId: null,
+              prizeName: null,
+              order: 1,
+              winningNumber: draw.winningNumber,
+              winnerName: draw.winnerName,
+              purchaseId: winner?.purchaseId ?? null,
+              drawnAt: draw.drawnAt
+            }]
+          : []
+      },
+      $unset: { winningNumber: '', winnerName: '' }
+    });
+  }
+}
+
+// Sellers from before code lookups only have the scrypt hash of their code, which cannot be keyed
+// without the plain code. The default seller still has it in PURCHASE_PASSWORD; the others are revoked
+// so the admin issues them new codes
+async function backfillSellerCodeLookups(): Promise<void> {
+  // The index on the lookup used to be a plain one under the same name
+  await SellerModel.collection.dropIndex('codeLookup_1').catch(() => undefined);
+
+  const legacySellers = await SellerModel.find({ codeLookup: null }).select('+codeHash');
+  for (const seller of legacySellers) {
+    if (config.PURCHASE_PASSWORD && await verifySecret(config.PURCHASE_PASSWORD, seller.codeHash)) {
+      await SellerModel.updateOne({ _id: seller._id }, { $set: { codeLookup: sellerCodeLookup(config.PURCHASE_PASSWORD) } });
+    } else if (seller.isActive) {
+      await SellerModel.updateOne({ _id: seller._id }, { $set: { isActive: false, revokedAt: new Date() } });
+      console.log(`Seller ${seller.name} needs a new code`);
+    }
+  }
+  await SellerModel.createIndexes();
+}
+
+// Applied once per database, in this order; never rename or reorder an entry
+const MIGRATIONS: Migration[] = [
+  { name: '001-default-raffle', up: createDefaultRaffle },
+  { name: '002-legacy-sales', up: migrateLegacySales },
+  { name: '003-receipt-codes', up: backfillReceiptCodes },
+  { name: '004-draw-results', up: migrateDrawResults },
+  { name: '005-seller-code-lookups', up: backfillSellerCodeLookups }
+];
+
+// A claim left by an instance that died halfway through a migration is taken over after this long
+const MIGRATION_LOCK_MS = 10 * 60 * 1000;
+
+// Only the instance whose insert of the migration document succeeds gets to run it
+async function claimMigration(name: string): Promise<boolean> {
+  try {
+    await MigrationModel.create({ name, startedAt: new Date(), appliedAt: null });
+    return true;
+  } catch (error) {
+    if (!(error instanceof mongoose.mongo.MongoServerError && error.code === 11000)) {
+      throw error;
+    }
+  }
+  const abandoned = await MigrationModel.findOneAndUpdate(
+    { name, appliedAt: null, startedAt: { $lt: new Date(Date.now() - MIGRATION_LOCK_MS) } },
+    { $set: { startedAt: new Date() } }
+  );
+  return abandoned !== null;
+}
+
+export async function runMigrations(): Promise<void> {
+  // The claims rely on the unique index on the name, which a fresh database has yet to build
+  await MigrationModel.init();
+
+  const applied = new Set<string>(await MigrationModel.find({ appliedAt: { $ne: null } }).distinct('name'));
+  for (const migration of MIGRATIONS) {
+    if (applied.has(migration.name)) {
+      continue;
+    }
+    // Steps are not safe to run twice at once (parallel cold starts would create two default raffles
+    // or duplicate orders), so the instance holding a step also runs the ones after it
+    if (!await claimMigration(migration.name)) {
+      console.log(`Migration ${migration.name} is being applied by another instance`);
+      return;
+    }
+    try {
+      await migration.up();
+    } catch (error) {
+      // Let the next start retry it
+      await MigrationModel.deleteOne({ name: migration.name, appliedAt: null });
+      throw error;
+    }
+    await MigrationModel.updateOne({ name: migration.name }, { $set: { appliedAt: new Date() } });
+    console.log(`Migration ${migration.name} applied`);
+  }
+}
+
+// Create the first admin and seller from the environment while there are none
+export async function seedDatabase(): Promise<void> {
+  if (config.ADMIN_USERNAME && config.ADMIN_PASSWORD && await AdminModel.countDocuments() === 0) {
+    await AdminModel.create({
+      username: config.ADMIN_USERNAME,
+      name: config.ADMIN_USERNAME,
+      passwordHash: await hashSecret(config.ADMIN_PASSWORD)
+    });
+    console.log('Admin initialized successfully');
+  }
+
+  // The old shared PURCHASE_PASSWORD becomes a seller so existing deployments keep selling
+  if (config.PURCHASE_PASSWORD && await SellerModel.countDocuments() === 0) {
+    await SellerModel.create({ name: 'Vendedor padrão', ...await sellerCodeFields(config.PURCHASE_PASSWORD) });
+    console.log('Default seller initialized from PURCHASE_PASSWORD');
+  }
+}
@@ -0,0 +1,17 @@
+import mongoose from 'mongoose';
+
+// Admin Schema
+export interface IAdmin {
+  username: string;
+  name: string;
+  passwordHash: string;
+}
+
+const adminSchema = new mongoose.Schema<IAdmin>({
+  username: { type: String, required: true, unique: true, trim: true, lowercase: true },
+  name: { type: String, required: true, trim: true },
+  passwordHash: { type: String, required: true, select: false }
+}, { timestamps: true });
+
+// Create model if it doesn't exist
+export const AdminModel = mongoose.models.Admin || mongoose.model<IAdmin>('Admin', adminSchema);
@@ -0,0 +1,48 @@
+import mongoose from 'mongoose';
+
+export const AUDIT_ACTIONS = ['purchase', 'import', 'edit', 'payment', 'cancel', 'release', 'draw'] as const;
+
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+
+// AuditEvent Schema: one entry per change to the numbers of a raffle, never updated or deleted
+export interface IAuditEvent {
+  raffleId: mongoose.Types.ObjectId;
+  numbers: number[];
+  purchaseId: mongoose.Types.ObjectId | null;
+  action: AuditAction;
+  // Admin username, "seller:<name>" or "pix:<provider>"
+  actor: string;
+  ip: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  createdAt: Date;
+}
+
+const auditEventSchema = new mongoose.Schema<IAuditEvent>({
+  raffleId: { type: mongoose.Schema.Types.ObjectId, ref: 'Raffle', required: true },
+  numbers: { type: [Number], default: [] },
+  purchaseId: { type: mongoose.Schema.Types.ObjectId, ref: 'Purchase', default: null },
+  action: { type: String, enum: AUDIT_ACTIONS, required: true },
+  actor: { type: String, required: true },
+  ip: { type: String, default: null },
+  before: { type: mongoose.Schema.Types.Mixed, default: null },
+  after: { type: mongoose.Schema.Types.Mixed, default: null }
+}, { timestamps: { createdAt: true, updatedAt: false } });
+
+auditEventSchema.index({ raffleId: 1, numbers: 1, createdAt: 1 });
+auditEventSchema.index({ purchaseId: 1, createdAt: 1 });
+
+// The log is append-only
+const appendOnly = () => {
+  throw new Error('Audit events cannot be changed');
+};
+auditEventSchema.pre(['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne'], appendOnly);
+auditEventSchema.pre(['deleteOne', 'deleteMany', 'findOneAndDelete'], appendOnly);
+auditEventSchema.pre('save', function () {
+  if (!this.isNew) {
+    appendOnly();
+  }
+});
+
+// Create model if it doesn't exist
+export const AuditEventModel = mongoose.models.AuditEvent || mongoose.model<IAuditEvent>('AuditEvent', auditEventSchema);
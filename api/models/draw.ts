@@ -0,0 +1,77 @@
+import mongoose from 'mongoose';
+import { createHash } from 'crypto';
+
+// One prize awarded by the draw; the prize name is kept as it was when drawn
+export interface IDrawResult {
+  prizeId: mongoose.Types.ObjectId | null;
+  prizeName: string | null;
+  order: number;
+  winningNumber: number;
+  winnerName: string | null;
+  purchaseId: mongoose.Types.ObjectId | null;
+  drawnAt: Date;
+}
+
+const drawResultSchema = new mongoose.Schema<IDrawResult>({
+  prizeId: { type: mongoose.Schema.Types.ObjectId, default: null },
+  prizeName: { type: String, default: null },
+  order: { type: Number, required: true },
+  winningNumber: { type: Number, required: true },
+  winnerName: { type: String, default: null },
+  purchaseId: { type: mongoose.Schema.Types.ObjectId, ref: 'Purchase', default: null },
+  drawnAt: { type: Date, required: true }
+}, { _id: false });
+
+// Draw Schema
+export interface IDraw {
+  raffleId: mongoose.Types.ObjectId;
+  seedHash: string;
+  seed: string;
+  committedAt: Date;
+  committedBy: string;
+  soldNumbers: number[];
+  // Prizes drawn so far, in draw order
+  results: IDrawResult[];
+  // Set once every prize has been drawn
+  drawnAt: Date | null;
+  drawnBy: string | null;
+}
+
+const drawSchema = new mongoose.Schema<IDraw>({
+  raffleId: { type: mongoose.Schema.Types.ObjectId, ref: 'Raffle', required: true, unique: true },
+  seedHash: { type: String, required: true },
+  // Kept secret until the draw reveals it
+  seed: { type: String, required: true, select: false },
+  committedAt: { type: Date, required: true },
+  committedBy: { type: String, required: true },
+  soldNumbers: { type: [Number], default: [] },
+  results: { type: [drawResultSchema], default: [] },
+  drawnAt: { type: Date, default: null },
+  drawnBy: { type: String, default: null }
+});
+
+// Create model if it doesn't exist
+export const DrawModel = mongoose.models.Draw || mongoose.model<IDraw>('Draw', drawSchema);
+
+// The committed seed draws among the sold numbers, so they must not change once it exists:
+// admins can't release, cancel or import sales after the commit or after sales close
+export async function salesFrozen(raffle: { _id: mongoose.Types.ObjectId; status: string }): Promise<boolean> {
+  return raffle.status !== 'open' || Boolean(await DrawModel.exists({ raffleId: raffle._id }));
+}
+
+export function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+// Pick the winner among the candidates (ascending) from SHA-256("<seed>:<n1>,<n2>,...") mod count
+export function pickWinningNumber(seed: string, candidates: number[]): number {
+  const digest = sha256(`${seed}:${candidates.join(',')}`);
+  const index = BigInt(`0x${digest}`) % BigInt(candidates.length);
+  return candidates[Number(index)];
+}
+
+// Numbers still in the running: each prize is drawn among the sold numbers that haven't won yet
+export function remainingCandidates(draw: Pick<IDraw, 'soldNumbers' | 'results'>): number[] {
+  const drawn = new Set(draw.results.map(result => result.winningNumber));
+  return draw.soldNumbers.filter(number => !drawn.has(number));
+}
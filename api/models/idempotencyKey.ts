@@ -0,0 +1,30 @@
+import mongoose from 'mongoose';
+
+export const IDEMPOTENCY_STATUSES = ['pending', 'completed'] as const;
+
+export type IdempotencyStatus = typeof IDEMPOTENCY_STATUSES[number];
+
+// Response stored for a client-chosen Idempotency-Key, replayed when the same request is retried
+export interface IIdempotencyKey {
+  key: string;
+  requestHash: string;
+  status: IdempotencyStatus;
+  // While pending, another request with the key waits; a crashed request frees it once this passes
+  lockedUntil: Date;
+  statusCode: number | null;
+  response: unknown;
+  expiresAt: Date;
+}
+
+const idempotencyKeySchema = new mongoose.Schema<IIdempotencyKey>({
+  key: { type: String, required: true, unique: true },
+  requestHash: { type: String, required: true },
+  status: { type: String, enum: IDEMPOTENCY_STATUSES, default: 'pending' },
+  lockedUntil: { type: Date, required: true },
+  statusCode: { type: Number, default: null },
+  response: { type: mongoose.Schema.Types.Mixed, default: null },
+  expiresAt: { type: Date, required: true, index: { expires: 0 } }
+});
+
+// Create model if it doesn't exist
+export const IdempotencyKeyModel = mongoose.models.IdempotencyKey || mongoose.model<IIdempotencyKey>('IdempotencyKey', idempotencyKeySchema);
@@ -0,0 +1,17 @@
+import mongoose from 'mongoose';
+
+// One-time code sent to a buyer's phone to list their purchases
+export interface ILookupCode {
+  phone: string;
+  codeHash: string;
+  expiresAt: Date;
+}
+
+const lookupCodeSchema = new mongoose.Schema<ILookupCode>({
+  phone: { type: String, required: true, unique: true },
+  codeHash: { type: String, required: true },
+  expiresAt: { type: Date, required: true, index: { expires: 0 } }
+});
+
+// Create model if it doesn't exist
+export const LookupCodeModel = mongoose.models.LookupCode || mongoose.model<ILookupCode>('LookupCode', lookupCodeSchema);
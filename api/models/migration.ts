@@ -0,0 +1,19 @@
+import mongoose from 'mongoose';
+
+// Data migration of this database; the document is inserted when an instance starts applying it,
+// and the unique name makes that insert the lock
+export interface IMigration {
+  name: string;
+  startedAt: Date | null;
+  // Null while the migration is still running
+  appliedAt: Date | null;
+}
+
+const migrationSchema = new mongoose.Schema<IMigration>({
+  name: { type: String, required: true, unique: true },
+  startedAt: { type: Date, default: null },
+  appliedAt: { type: Date, default: null }
+});
+
+// Create model if it doesn't exist
+export const MigrationModel = mongoose.models.Migration || mongoose.model<IMigration>('Migration', migrationSchema);
@@ -0,0 +1,41 @@
+import mongoose from 'mongoose';
+
+export const NOTIFICATION_CHANNELS = ['email', 'message'] as const;
+
+export const NOTIFICATION_STATUSES = ['pending', 'sent', 'failed'] as const;
+
+export type NotificationChannelKind = typeof NOTIFICATION_CHANNELS[number];
+
+export type NotificationStatus = typeof NOTIFICATION_STATUSES[number];
+
+// Notification Schema: the outbox; each message stays here until it is sent or gives up
+export interface INotification {
+  channel: NotificationChannelKind;
+  to: string;
+  template: string;
+  subject: string;
+  text: string;
+  status: NotificationStatus;
+  attempts: number;
+  nextAttemptAt: Date;
+  lastError: string | null;
+  sentAt: Date | null;
+}
+
+const notificationSchema = new mongoose.Schema<INotification>({
+  channel: { type: String, enum: NOTIFICATION_CHANNELS, required: true },
+  to: { type: String, required: true },
+  template: { type: String, required: true },
+  subject: { type: String, required: true },
+  text: { type: String, required: true },
+  status: { type: String, enum: NOTIFICATION_STATUSES, default: 'pending' },
+  attempts: { type: Number, default: 0 },
+  nextAttemptAt: { type: Date, default: () => new Date() },
+  lastError: { type: String, default: null },
+  sentAt: { type: Date, default: null }
+}, { timestamps: true });
+
+notificationSchema.index({ status: 1, nextAttemptAt: 1 });
+
+// Create model if it doesn't exist
+export const NotificationModel = mongoose.models.Notification || mongoose.model<INotification>('Notification', notificationSchema);
@@ -0,0 +1,36 @@
+import mongoose from 'mongoose';
+
+// Number Schema
+export interface INumber {
+  raffleId: mongoose.Types.ObjectId;
+  number: number;
+  isAvailable: boolean;
+  purchasedBy: string | null;
+  purchaseDate: Date | null;
+  sellerId: mongoose.Types.ObjectId | null;
+  purchaseId: mongoose.Types.ObjectId | null;
+  reservationToken: string | null;
+  reservedUntil: Date | null;
+  lastChangedBy: string | null;
+  lastChangedAt: Date | null;
+}
+
+const numberSchema = new mongoose.Schema<INumber>({
+  raffleId: { type: mongoose.Schema.Types.ObjectId, ref: 'Raffle', required: true },
+  number: { type: Number, required: true },
+  isAvailable: { type: Boolean, default: true },
+  purchasedBy: { type: String, default: null },
+  purchaseDate: { type: Date, default: null },
+  sellerId: { type: mongoose.Schema.Types.ObjectId, ref: 'Seller', default: null, index: true },
+  purchaseId: { type: mongoose.Schema.Types.ObjectId, ref: 'Purchase', default: null, index: true },
+  reservationToken: { type: String, default: null, select: false },
+  reservedUntil: { type: Date, default: null, index: true },
+  lastChangedBy: { type: String, default: null },
+  lastChangedAt: { type: Date, default: null }
+});
+
+// Each number is unique within its raffle
+numberSchema.index({ raffleId: 1, number: 1 }, { unique: true });
+
+// Create model if it doesn't exist
+export const NumberModel = mongoose.models.Number || mongoose.model<INumber>('Number', numberSchema);
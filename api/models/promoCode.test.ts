@@ -0,0 +1,52 @@
+import { after, before, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+import { PromoCodeModel, redeemPromoCode, releaseOrderPromoCode } from './promoCode.js';
+
+const raffleId = new mongoose.Types.ObjectId();
+
+async function usesOf(code: string): Promise<number> {
+  const promo = await PromoCodeModel.findOne({ raffleId, code }).lean<{ uses: number }>();
+  return promo?.uses ?? -1;
+}
+
+describe('releaseOrderPromoCode', () => {
+  let server: MongoMemoryServer;
+
+  before(async () => {
+    server = await MongoMemoryServer.create();
+    await mongoose.connect(server.getUri());
+  });
+
+  after(async () => {
+    await mongoose.disconnect();
+    await server.stop();
+  });
+
+  beforeEach(async () => {
+    await PromoCodeModel.deleteMany({});
+  });
+
+  test('gives the use back when the order is cancelled', async () => {
+    const promo = await PromoCodeModel.create({ raffleId, code: 'ONCE', kind: 'fixed', value: 5, maxUses: 1 });
+    assert.equal(await redeemPromoCode(promo._id), true);
+    assert.equal(await redeemPromoCode(promo._id), false);
+
+    await releaseOrderPromoCode({ raffleId, promo: { code: 'ONCE', kind: 'fixed', value: 5 } });
+    assert.equal(await usesOf('ONCE'), 0);
+    assert.equal(await redeemPromoCode(promo._id), true);
+  });
+
+  test('leaves the codes alone for orders without a promo', async () => {
+    await PromoCodeModel.create({ raffleId, code: 'USED', kind: 'percent', value: 10, uses: 2 });
+    await releaseOrderPromoCode({ raffleId, promo: null });
+    assert.equal(await usesOf('USED'), 2);
+  });
+
+  test('never counts below zero uses', async () => {
+    await PromoCodeModel.create({ raffleId, code: 'FRESH', kind: 'percent', value: 10 });
+    await releaseOrderPromoCode({ raffleId, promo: { code: 'FRESH', kind: 'percent', value: 10 } });
+    assert.equal(await usesOf('FRESH'), 0);
+  });
+});
@@ -0,0 +1,75 @@
+import mongoose from 'mongoose';
+import { PROMO_KINDS, PromoDiscount, PromoKind } from '../../shared/pricing.js';
+
+// Promo Code Schema
+export interface IPromoCode {
+  raffleId: mongoose.Types.ObjectId;
+  code: string;
+  kind: PromoKind;
+  value: number;
+  startsAt: Date | null;
+  expiresAt: Date | null;
+  // null means unlimited
+  maxUses: number | null;
+  uses: number;
+  isActive: boolean;
+}
+
+const promoCodeSchema = new mongoose.Schema<IPromoCode>({
+  raffleId: { type: mongoose.Schema.Types.ObjectId, ref: 'Raffle', required: true },
+  code: { type: String, required: true, uppercase: true, trim: true },
+  kind: { type: String, enum: PROMO_KINDS, required: true },
+  value: { type: Number, required: true, min: 0 },
+  startsAt: { type: Date, default: null },
+  expiresAt: { type: Date, default: null },
+  maxUses: { type: Number, default: null, min: 1 },
+  uses: { type: Number, default: 0 },
+  isActive: { type: Boolean, default: true }
+}, { timestamps: true });
+
+promoCodeSchema.index({ raffleId: 1, code: 1 }, { unique: true });
+
+// Create model if it doesn't exist
+export const PromoCodeModel = mongoose.models.PromoCode || mongoose.model<IPromoCode>('PromoCode', promoCodeSchema);
+
+// Why the code can't be used right now, or null when it can
+export function promoCodeProblem(promo: IPromoCode | null, now = new Date()): string | null {
+  if (!promo || !promo.isActive) {
+    return 'Promo code does not exist';
+  }
+  if (promo.startsAt && promo.startsAt > now) {
+    return 'Promo code is not valid yet';
+  }
+  if (promo.expiresAt && promo.expiresAt <= now) {
+    return 'Promo code has expired';
+  }
+  if (promo.maxUses !== null && promo.uses >= promo.maxUses) {
+    return 'Promo code has been used up';
+  }
+  return null;
+}
+
+export function promoDiscount(promo: IPromoCode): PromoDiscount {
+  return { code: promo.code, kind: promo.kind, value: promo.value };
+}
+
+// Count one use of the code unless it ran out meanwhile; returns whether it was redeemed
+export async function redeemPromoCode(promoCodeId: mongoose.Types.ObjectId): Promise<boolean> {
+  const result = await PromoCodeModel.updateOne(
+    { _id: promoCodeId, $or: [{ maxUses: null }, { $expr: { $lt: ['$uses', '$maxUses'] } }] },
+    { $inc: { uses: 1 } }
+  );
+  return result.modifiedCount === 1;
+}
+
+// Give the use back when the order it was redeemed for is not recorded
+export async function releasePromoCode(promoCodeId: mongoose.Types.ObjectId): Promise<void> {
+  await PromoCodeModel.updateOne({ _id: promoCodeId, uses: { $gt: 0 } }, { $inc: { uses: -1 } });
+}
+
+// Give back the use an order took when the order is cancelled; orders keep the code, not its id
+export async function releaseOrderPromoCode(order: { raffleId: mongoose.Types.ObjectId; promo: PromoDiscount | null }): Promise<void> {
+  if (order.promo) {
+    await PromoCodeModel.updateOne({ raffleId: order.raffleId, code: order.promo.code, uses: { $gt: 0 } }, { $inc: { uses: -1 } });
+  }
+}
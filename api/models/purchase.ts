@@ -0,0 +1,96 @@
+import mongoose from 'mongoose';
+import { randomInt } from 'crypto';
+import { Bundle, PROMO_KINDS, PriceRules, PromoDiscount } from '../../shared/pricing.js';
+
+export const PAYMENT_STATUSES = ['pending', 'paid', 'cancelled'] as const;
+
+export type PaymentStatus = typeof PAYMENT_STATUSES[number];
+
+// Receipt codes skip look-alike characters (0/O, 1/I/L) so buyers can read them over the phone
+const RECEIPT_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+// Purchase (order) Schema
+export interface IPurchase {
+  raffleId: mongoose.Types.ObjectId;
+  sellerId: mongoose.Types.ObjectId | null;
+  buyerName: string;
+  phone: string;
+  email: string | null;
+  numbers: number[];
+  // Charged amount, after bundles and the promo code
+  totalAmount: number;
+  subtotal: number;
+  discount: number;
+  // Promo code as it was when redeemed, so later changes to the order keep its discount
+  promo: PromoDiscount | null;
+  // Ticket price and bundles of the raffle when the order was placed; null on orders from before it was kept
+  pricing: PriceRules | null;
+  paymentStatus: PaymentStatus;
+  paidAt: Date | null;
+  purchaseDate: Date;
+  pixTxid: string | null;
+  pixPayload: string | null;
+  lastChangedBy: string | null;
+  lastChangedAt: Date | null;
+  receiptCode: string | null;
+}
+
+const purchaseSchema = new mongoose.Schema<IPurchase>({
+  raffleId: { type: mongoose.Schema.Types.ObjectId, ref: 'Raffle', required: true, index: true },
+  sellerId: { type: mongoose.Schema.Types.ObjectId, ref: 'Seller', default: null },
+  buyerName: { type: String, required: true, trim: true },
+  phone: { type: String, default: '', index: true },
+  email: { type: String, default: null, lowercase: true, trim: true },
+  numbers: { type: [Number], required: true },
+  totalAmount: { type: Number, required: true, min: 0 },
+  subtotal: { type: Number, default: null },
+  discount: { type: Number, default: 0 },
+  promo: {
+    type: new mongoose.Schema<PromoDiscount>({
+      code: { type: String, required: true },
+      kind: { type: String, enum: PROMO_KINDS, required: true },
+      value: { type: Number, required: true }
+    }, { _id: false }),
+    default: null
+  },
+  pricing: {
+    type: new mongoose.Schema<PriceRules>({
+      ticketPrice: { type: Number, required: true },
+      bundles: {
+        type: [new mongoose.Schema<Bundle>({
+          quantity: { type: Number, required: true },
+          price: { type: Number, required: true }
+        }, { _id: false })],
+        default: []
+      }
+    }, { _id: false }),
+    default: null
+  },
+  paymentStatus: { type: String, enum: PAYMENT_STATUSES, default: 'pending' },
+  paidAt: { type: Date, default: null },
+  purchaseDate: { type: Date, required: true },
+  pixTxid: { type: String, default: null, index: true },
+  pixPayload: { type: String, default: null },
+  lastChangedBy: { type: String, default: null },
+  lastChangedAt: { type: Date, default: null },
+  // Left unset (not null) until generated, so the sparse unique index skips it
+  receiptCode: { type: String, unique: true, sparse: true }
+}, { timestamps: true });
+
+// Create model if it doesn't exist
+export const PurchaseModel = mongoose.models.Purchase || mongoose.model<IPurchase>('Purchase', purchaseSchema);
+
+// Short code given to the buyer to look the purchase up later, as "ABCD-2345"
+export function generateReceiptCode(): string {
+  const chars = Array.from({ length: 8 }, () => RECEIPT_ALPHABET[randomInt(RECEIPT_ALPHABET.length)]);
+  return `${chars.slice(0, 4).join('')}-${chars.slice(4).join('')}`;
+}
+
+// Accept codes typed in lower case, without the dash or with spaces
+export function normalizeReceiptCode(code: string): string {
+  const chars = code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  return chars.length === 8 ? `${chars.slice(0, 4)}-${chars.slice(4)}` : chars;
+}
+
+// Contact helpers live with the shared request schemas
+export { normalizePhone, isValidPhone, isValidEmail } from '../../shared/schemas.js';
@@ -0,0 +1,86 @@
+import mongoose from 'mongoose';
+import { Bundle } from '../../shared/pricing.js';
+
+export const RAFFLE_STATUSES = ['draft', 'open', 'closed', 'drawn'] as const;
+
+export type RaffleStatus = typeof RAFFLE_STATUSES[number];
+
+// How buyer names appear on the public grid
+export const BUYER_NAME_DISPLAYS = ['masked', 'hidden'] as const;
+
+export type BuyerNameDisplay = typeof BUYER_NAME_DISPLAYS[number];
+
+// Prize awarded by the draw; `order` is the position it is drawn in, starting at 1
+export interface IPrize {
+  _id: mongoose.Types.ObjectId;
+  name: string;
+  description: string;
+  imageUrl: string | null;
+  order: number;
+}
+
+const prizeSchema = new mongoose.Schema<IPrize>({
+  name: { type: String, required: true, trim: true },
+  description: { type: String, default: '' },
+  imageUrl: { type: String, default: null },
+  order: { type: Number, required: true, min: 1 }
+});
+
+// Raffle Schema
+export interface IRaffle {
+  title: string;
+  description: string;
+  ticketPrice: number;
+  // Bundle deals, e.g. 3 numbers for a lower price than 3 × ticketPrice
+  bundles: Bundle[];
+  numberStart: number;
+  numberEnd: number;
+  drawDate: Date | null;
+  status: RaffleStatus;
+  buyerNameDisplay: BuyerNameDisplay;
+  // Amount the raffle aims to raise; null means selling every number
+  revenueGoal: number | null;
+  prizes: IPrize[];
+}
+
+const raffleSchema = new mongoose.Schema<IRaffle>({
+  title: { type: String, required: true, trim: true },
+  description: { type: String, default: '' },
+  ticketPrice: { type: Number, required: true, min: 0 },
+  bundles: {
+    type: [new mongoose.Schema<Bundle>({
+      quantity: { type: Number, required: true, min: 2 },
+      price: { type: Number, required: true, min: 0 }
+    }, { _id: false })],
+    default: []
+  },
+  numberStart: { type: Number, required: true, min: 0 },
+  numberEnd: { type: Number, required: true },
+  drawDate: { type: Date, default: null },
+  status: { type: String, enum: RAFFLE_STATUSES, default: 'draft' },
+  buyerNameDisplay: { type: String, enum: BUYER_NAME_DISPLAYS, default: 'masked' },
+  revenueGoal: { type: Number, default: null, min: 0 },
+  prizes: { type: [prizeSchema], default: [] }
+}, { timestamps: true });
+
+// Create model if it doesn't exist
+export const RaffleModel = mongoose.models.Raffle || mongoose.model<IRaffle>('Raffle', raffleSchema);
+
+// Find a raffle by id, or the current one (latest open raffle) when no id is given.
+// Drafts are only for admins: admin routes pass includeDrafts: true
+export async function findRaffle(raffleId?: string, { includeDrafts = false } = {}) {
+  const visible = includeDrafts ? {} : { status: { $ne: 'draft' } };
+  if (raffleId) {
+    if (!mongoose.isValidObjectId(raffleId)) {
+      return null;
+    }
+    return RaffleModel.findOne({ _id: raffleId, ...visible });
+  }
+  return await RaffleModel.findOne({ status: 'open' }).sort({ createdAt: -1 })
+    ?? await RaffleModel.findOne(visible).sort({ createdAt: -1 });
+}
+
+// Prizes in the order they are drawn
+export function prizesInDrawOrder(raffle: Pick<IRaffle, 'prizes'>): IPrize[] {
+  return [...raffle.prizes].sort((a, b) => a.order - b.order);
+}
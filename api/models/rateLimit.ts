@@ -0,0 +1,22 @@
+import mongoose from 'mongoose';
+
+// Rate limit counter shared by every serverless instance
+export interface IRateLimit {
+  key: string;
+  count: number;
+  resetAt: Date;
+  lockedUntil: Date | null;
+  expiresAt: Date;
+}
+
+const rateLimitSchema = new mongoose.Schema<IRateLimit>({
+  key: { type: String, required: true, unique: true },
+  count: { type: Number, default: 0 },
+  resetAt: { type: Date, required: true },
+  lockedUntil: { type: Date, default: null },
+  // MongoDB drops the document once both the window and the lock are over
+  expiresAt: { type: Date, required: true, index: { expires: 0 } }
+});
+
+// Create model if it doesn't exist
+export const RateLimitModel = mongoose.models.RateLimit || mongoose.model<IRateLimit>('RateLimit', rateLimitSchema);
@@ -0,0 +1,43 @@
+import mongoose from 'mongoose';
+import { config } from '../config.js';
+import { hashSecret, lookupHash, verifySecret } from '../utils/hash.js';
+
+// Seller Schema
+export interface ISeller {
+  name: string;
+  codeHash: string;
+  // Keyed with SELLER_CODE_PEPPER so a code finds its seller without trying every hash
+  codeLookup: string | null;
+  isActive: boolean;
+  revokedAt: Date | null;
+}
+
+const sellerSchema = new mongoose.Schema<ISeller>({
+  name: { type: String, required: true, trim: true },
+  codeHash: { type: String, required: true, select: false },
+  codeLookup: { type: String, default: null, select: false },
+  isActive: { type: Boolean, default: true },
+  revokedAt: { type: Date, default: null }
+}, { timestamps: true });
+
+// One seller per code; sellers whose code predates the lookup have none until it is reissued
+sellerSchema.index({ codeLookup: 1 }, { unique: true, partialFilterExpression: { codeLookup: { $type: 'string' } } });
+
+// Create model if it doesn't exist
+export const SellerModel = mongoose.models.Seller || mongoose.model<ISeller>('Seller', sellerSchema);
+
+export function sellerCodeLookup(code: string): string {
+  return lookupHash(code, config.SELLER_CODE_PEPPER);
+}
+
+// Fields stored for a new seller code
+export async function sellerCodeFields(code: string): Promise<Pick<ISeller, 'codeHash' | 'codeLookup'>> {
+  return { codeHash: await hashSecret(code), codeLookup: sellerCodeLookup(code) };
+}
+
+// Find the active seller whose access code matches. The keyed lookup narrows it down to the one seller
+// holding that code, so only its hash pays for scrypt
+export async function findSellerByCode(code: string) {
+  const seller = await SellerModel.findOne({ isActive: true, codeLookup: sellerCodeLookup(code) }).select('+codeHash');
+  return seller && await verifySecret(code, seller.codeHash) ? seller : null;
+}
@@ -0,0 +1,126 @@
+import express, { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { NOTIFICATION_STATUSES, NotificationModel } from './models/notification.js';
+import { config } from './config.js';
+import { requireAdmin } from './middleware/auth.js';
+import { processOutbox, wakeOutbox } from './services/notifications.js';
+import { safeEqual } from './utils/hash.js';
+import { SECRET_TEMPLATES } from './services/notificationTemplates.js';
+
+const router = express.Router();
+
+router.use('/admin', requireAdmin);
+
+// Outbox contents, newest first; ?status=failed lists the messages that gave up
+router.get('/admin/notifications', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { status } = req.query;
+
+    if (status !== undefined && !NOTIFICATION_STATUSES.includes(status as typeof NOTIFICATION_STATUSES[number])) {
+      res.status(400).json({
+        error: 'Invalid request',
+        code: 'VALIDATION_FAILED',
+        message: `Status must be one of ${NOTIFICATION_STATUSES.join(', ')}`,
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    const notifications = await NotificationModel.find(status ? { status } : {})
+      .sort({ createdAt: -1 })
+      .limit(100);
+    res.json(notifications);
+  } catch (error) {
+    console.error('Error fetching notifications:', error);
+    res.status(500).json({
+      error: 'Error fetching notifications',
+      code: 'INTERNAL_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// Send the messages that are due now
+router.post('/admin/notifications/process', async (_req: Request, res: Response): Promise<void> => {
+  try {
+    const processed = await processOutbox(50);
+    res.json({
+      processed,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error processing notifications:', error);
+    res.status(500).json({
+      error: 'Error processing notifications',
+      code: 'INTERNAL_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// Outbox pass run by Vercel Cron, where no server stays up to send in the background
+router.get('/notifications/process', async (req: Request, res: Response): Promise<void> => {
+  const token = req.headers.authorization?.replace(/^Bearer /, '');
+  if (!config.CRON_SECRET || !token || !safeEqual(token, config.CRON_SECRET)) {
+    res.status(401).json({
+      error: 'Unauthorized',
+      code: 'UNAUTHORIZED',
+      message: 'Invalid cron secret',
+      timestamp: new Date().toISOString()
+    });
+    return;
+  }
+
+  try {
+    const processed = await processOutbox(50);
+    res.json({
+      processed,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error processing notifications:', error);
+    res.status(500).json({
+      error: 'Error processing notifications',
+      code: 'INTERNAL_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// Give a failed message a fresh set of attempts; the outbox sends it in the background
+router.post('/admin/notifications/:notificationId/retry', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const notification = mongoose.isValidObjectId(req.params.notificationId)
+      && await NotificationModel.findOneAndUpdate(
+        // Secret messages lose their text when they fail, and their code has expired by then anyway
+        { _id: req.params.notificationId, status: 'failed', template: { $nin: SECRET_TEMPLATES } },
+        { $set: { status: 'pending', attempts: 0, nextAttemptAt: new Date() } },
+        { new: true }
+      );
+    if (!notification) {
+      res.status(404).json({
+        error: 'Notification not found',
+        code: 'NOTIFICATION_NOT_FOUND',
+        message: 'No failed notification that can be retried has this id',
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    wakeOutbox();
+    res.json(notification);
+  } catch (error) {
+    console.error('Error retrying notification:', error);
+    res.status(500).json({
+      error: 'Error retrying notification',
+      code: 'INTERNAL_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+export default router;
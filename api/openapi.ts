@@ -0,0 +1,13 @@
+import express, { Request, Response } from 'express';
+import { buildOpenApiDocument } from './services/openapi.js';
+
+const router = express.Router();
+
+// Built once; the contract only changes with a deploy
+const document = buildOpenApiDocument();
+
+router.get('/openapi.json', (_req: Request, res: Response): void => {
+  res.json(document);
+});
+
+export default router;
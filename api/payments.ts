@@ -0,0 +1,73 @@
+import express, { Request, Response } from 'express';
+import { PurchaseModel } from './models/purchase.js';
+import { RaffleModel } from './models/raffle.js';
+import { getPaymentProvider } from './services/payments.js';
+import { recordAuditEvent } from './services/audit.js';
+import { notify } from './services/notifications.js';
+import { purchaseDetails } from './services/notificationTemplates.js';
+
+const router = express.Router();
+
+// Called by the Pix provider when a charge is paid
+router.post('/payments/webhook', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const provider = getPaymentProvider();
+    const notifications = provider ? provider.parseWebhook(req) : null;
+
+    if (!provider || !notifications) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        code: 'UNAUTHORIZED',
+        message: 'Invalid webhook request',
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    const confirmed: string[] = [];
+    for (const { txid, amount } of notifications) {
+      const purchase = await PurchaseModel.findOne({ pixTxid: txid });
+      if (!purchase || purchase.paymentStatus !== 'pending') {
+        continue;
+      }
+      if (!Number.isFinite(amount) || amount < purchase.totalAmount) {
+        console.warn(`Pix payment ${txid} of ${amount} is below the order total ${purchase.totalAmount}`);
+        continue;
+      }
+      purchase.paymentStatus = 'paid';
+      purchase.paidAt = new Date();
+      purchase.lastChangedBy = `pix:${provider.name}`;
+      purchase.lastChangedAt = new Date();
+      await purchase.save();
+      await recordAuditEvent({
+        raffleId: purchase.raffleId,
+        numbers: purchase.numbers,
+        purchaseId: purchase._id,
+        action: 'payment',
+        actor: purchase.lastChangedBy,
+        ip: req.ip,
+        before: { paymentStatus: 'pending' },
+        after: { paymentStatus: 'paid', amount, txid }
+      });
+      const raffle = await RaffleModel.findById(purchase.raffleId);
+      await notify('paymentConfirmed', purchaseDetails(purchase, raffle?.title ?? 'rifa'), [purchase]);
+      confirmed.push(txid);
+    }
+
+    res.json({
+      message: 'Webhook processed',
+      confirmed,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error processing payment webhook:', error);
+    res.status(500).json({
+      error: 'Error processing payment webhook',
+      code: 'INTERNAL_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+export default router;
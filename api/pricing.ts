@@ -0,0 +1,43 @@
+import express, { Request, Response } from 'express';
+import { withRaffle } from './middleware/raffle.js';
+import { validateBody } from './middleware/validate.js';
+import { rateLimit } from './middleware/rateLimit.js';
+import { quoteOrder } from './services/pricing.js';
+import { QuoteInput, quoteSchema } from '../shared/schemas.js';
+import { ApiErrorBody } from '../shared/api.js';
+import { PriceBreakdown } from '../shared/pricing.js';
+
+// Price checks per IP each minute; also keeps promo codes from being guessed
+const QUOTE_RATE_LIMIT = 30;
+
+const router = express.Router({ mergeParams: true });
+
+// Price a selection before buying it; the frontend previews bundles itself and calls this to check a promo code
+router.post('/price', rateLimit('price', QUOTE_RATE_LIMIT, 60 * 1000), withRaffle, validateBody(quoteSchema), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { numbers, promoCode } = req.body as QuoteInput;
+
+    const quote = await quoteOrder(res.locals.raffle, numbers.length, promoCode);
+    if (quote.problem) {
+      res.status(400).json({
+        error: 'Invalid promo code',
+        code: 'INVALID_PROMO_CODE',
+        message: quote.problem,
+        timestamp: new Date().toISOString()
+      } satisfies ApiErrorBody);
+      return;
+    }
+
+    res.json(quote.price satisfies PriceBreakdown);
+  } catch (error) {
+    console.error('Error pricing numbers:', error);
+    res.status(500).json({
+      error: 'Error pricing numbers',
+      code: 'INTERNAL_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    } satisfies ApiErrorBody);
+  }
+});
+
+export default router;
@@ -0,0 +1,105 @@
+import express, { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { PromoCodeModel } from './models/promoCode.js';
+import { findRaffle } from './models/raffle.js';
+import { requireAdmin } from './middleware/auth.js';
+import { validateBody } from './middleware/validate.js';
+import { PromoCodeInput, promoCodeSchema } from '../shared/schemas.js';
+
+const router = express.Router();
+
+router.use('/admin', requireAdmin);
+
+router.get('/admin/raffles/:raffleId/promo-codes', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const raffle = await findRaffle(req.params.raffleId, { includeDrafts: true });
+    if (!raffle) {
+      res.status(404).json({
+        error: 'Raffle not found',
+        code: 'RAFFLE_NOT_FOUND',
+        message: 'Raffle does not exist',
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    const promoCodes = await PromoCodeModel.find({ raffleId: raffle._id }).sort({ createdAt: -1 });
+    res.json(promoCodes);
+  } catch (error) {
+    console.error('Error fetching promo codes:', error);
+    res.status(500).json({
+      error: 'Error fetching promo codes',
+      code: 'INTERNAL_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+router.post('/admin/raffles/:raffleId/promo-codes', validateBody(promoCodeSchema), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const raffle = await findRaffle(req.params.raffleId, { includeDrafts: true });
+    if (!raffle) {
+      res.status(404).json({
+        error: 'Raffle not found',
+        code: 'RAFFLE_NOT_FOUND',
+        message: 'Raffle does not exist',
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    const promoCode = await PromoCodeModel.create({ ...(req.body as PromoCodeInput), raffleId: raffle._id });
+    res.status(201).json(promoCode);
+  } catch (error) {
+    if (error instanceof mongoose.mongo.MongoServerError && error.code === 11000) {
+      res.status(400).json({
+        error: 'Invalid request',
+        code: 'VALIDATION_FAILED',
+        message: 'A promo code with this code already exists for the raffle',
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+    console.error('Error creating promo code:', error);
+    res.status(500).json({
+      error: 'Error creating promo code',
+      code: 'INTERNAL_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// Codes are deactivated rather than deleted, so orders keep pointing to a known code
+router.post('/admin/promo-codes/:promoCodeId/deactivate', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const promoCode = mongoose.isValidObjectId(req.params.promoCodeId) && await PromoCodeModel.findByIdAndUpdate(
+      req.params.promoCodeId,
+      { $set: { isActive: false } },
+      { new: true }
+    );
+
+    if (!promoCode) {
+      res.status(404).json({
+        error: 'Promo code not found',
+        code: 'PROMO_CODE_NOT_FOUND',
+        message: 'Promo code does not exist',
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    res.json(promoCode);
+  } catch (error) {
+    console.error('Error deactivating promo code:', error);
+    res.status(500).json({
+      error: 'Error deactivating promo code',
+      code: 'INTERNAL_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+export default router;
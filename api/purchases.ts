@@ -0,0 +1,263 @@
+import express, { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import * as yup from 'yup';
+import { NumberModel } from './models/number.js';
+import { PAYMENT_STATUSES, PurchaseModel, isValidPhone, normalizePhone } from './models/purchase.js';
+import { RaffleModel, findRaffle } from './models/raffle.js';
+import { salesFrozen } from './models/draw.js';
+import { releaseOrderPromoCode } from './models/promoCode.js';
+import { requireAdmin } from './middleware/auth.js';
+import { validateBody } from './middleware/validate.js';
+import { publishNumberChanges } from './services/numberEvents.js';
+import { purchaseSnapshot, recordAuditEvent } from './services/audit.js';
+import { notify } from './services/notifications.js';
+import { purchaseDetails } from './services/notificationTemplates.js';
+import { emailSchema } from '../shared/schemas.js';
+import { calculatePrice } from '../shared/pricing.js';
+
+const router = express.Router();
+
+// Every field is optional; only the ones sent are changed
+const purchaseChangesSchema = yup.object({
+  buyerName: yup.string().trim().min(1, 'BUYER_NAME_REQUIRED'),
+  phone: yup.string().trim().test('phone', 'PHONE_INVALID', value => value === undefined || isValidPhone(value)),
+  email: emailSchema.default(undefined),
+  paymentStatus: yup.string().oneOf(PAYMENT_STATUSES, 'PAYMENT_STATUS_INVALID')
+});
+
+// Put the given numbers back on sale
+async function releaseNumbers(
+  raffleId: mongoose.Types.ObjectId,
+  purchaseId: mongoose.Types.ObjectId,
+  numbers: number[],
+  admin: string
+): Promise<void> {
+  await NumberModel.updateMany(
+    { purchaseId, number: { $in: numbers } },
+    {
+      $set: {
+        isAvailable: true,
+        purchasedBy: null,
+        purchaseDate: null,
+        sellerId: null,
+        purchaseId: null,
+        reservationToken: null,
+        reservedUntil: null,
+        lastChangedBy: admin,
+        lastChangedAt: new Date()
+      }
+    }
+  );
+  publishNumberChanges(raffleId, numbers, 'released');
+}
+
+router.use('/admin', requireAdmin);
+
+router.get('/admin/raffles/:raffleId/sales', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const raffle = await findRaffle(req.params.raffleId, { includeDrafts: true });
+    if (!raffle) {
+      res.status(404).json({
+        error: 'Raffle not found',
+        code: 'RAFFLE_NOT_FOUND',
+        message: 'Raffle does not exist',
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    const sales = await PurchaseModel.find({ raffleId: raffle._id })
+      .sort({ purchaseDate: -1 })
+      .populate('sellerId', 'name');
+    res.json(sales);
+  } catch (error) {
+    console.error('Error fetching sales:', error);
+    res.status(500).json({
+      error: 'Error fetching sales',
+      code: 'INTERNAL_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// Edit the buyer's details or the payment status; cancelling puts the numbers back on sale
+router.patch('/admin/purchases/:purchaseId', validateBody(purchaseChangesSchema), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { buyerName, phone, email, paymentStatus } = req.body as yup.InferType<typeof purchaseChangesSchema>;
+
+    const purchase = mongoose.isValidObjectId(req.params.purchaseId) && await PurchaseModel.findById(req.params.purchaseId);
+    if (!purchase) {
+      res.status(404).json({
+        error: 'Purchase not found',
+        code: 'PURCHASE_NOT_FOUND',
+        message: 'Purchase does not exist',
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    if (purchase.paymentStatus === 'cancelled') {
+      res.status(409).json({
+        error: 'Purchase cancelled',
+        code: 'PURCHASE_CANCELLED',
+        message: 'Cancelled purchases cannot be changed',
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    const raffle = await RaffleModel.findById(purchase.raffleId);
+    if (paymentStatus === 'cancelled' && raffle && await salesFrozen(raffle)) {
+      res.status(409).json({
+        error: 'Sales frozen',
+        code: 'SALES_FROZEN',
+        message: 'Purchases cannot be cancelled once the draw seed is committed or sales are closed',
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    const admin = res.locals.admin.username;
+    const before = purchaseSnapshot(purchase);
+
+    if (buyerName !== undefined) {
+      purchase.buyerName = buyerName;
+      await NumberModel.updateMany(
+        { purchaseId: purchase._id },
+        { $set: { purchasedBy: purchase.buyerName, lastChangedBy: admin, lastChangedAt: new Date() } }
+      );
+    }
+    if (phone !== undefined) {
+      purchase.phone = normalizePhone(phone);
+    }
+    if (email !== undefined) {
+      purchase.email = email;
+    }
+    if (paymentStatus !== undefined && paymentStatus !== purchase.paymentStatus) {
+      purchase.paymentStatus = paymentStatus;
+      purchase.paidAt = paymentStatus === 'paid' ? new Date() : null;
+      if (paymentStatus === 'cancelled') {
+        await releaseNumbers(purchase.raffleId, purchase._id, purchase.numbers, admin);
+        await releaseOrderPromoCode(purchase);
+      }
+    }
+    purchase.lastChangedBy = admin;
+    purchase.lastChangedAt = new Date();
+    await purchase.save();
+
+    await recordAuditEvent({
+      raffleId: purchase.raffleId,
+      numbers: purchase.numbers,
+      purchaseId: purchase._id,
+      action: before.paymentStatus === purchase.paymentStatus
+        ? 'edit'
+        : purchase.paymentStatus === 'cancelled' ? 'cancel' : 'payment',
+      actor: admin,
+      ip: req.ip,
+      before,
+      after: purchaseSnapshot(purchase)
+    });
+
+    if (before.paymentStatus !== 'paid' && purchase.paymentStatus === 'paid') {
+      await notify('paymentConfirmed', purchaseDetails(purchase, raffle?.title ?? 'rifa'), [purchase]);
+    }
+
+    res.json(purchase);
+  } catch (error) {
+    console.error('Error updating purchase:', error);
+    res.status(500).json({
+      error: 'Error updating purchase',
+      code: 'INTERNAL_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// Put a single sold number back on sale, removing it from its order
+router.post('/admin/raffles/:raffleId/numbers/:number/release', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const raffle = await findRaffle(req.params.raffleId, { includeDrafts: true });
+    const numberDoc = raffle && await NumberModel.findOne({ raffleId: raffle._id, number: Number(req.params.number) });
+    if (!raffle || !numberDoc) {
+      res.status(404).json({
+        error: 'Number not found',
+        code: 'NUMBER_NOT_FOUND',
+        message: 'Raffle or number does not exist',
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    if (numberDoc.isAvailable || !numberDoc.purchaseId) {
+      res.status(409).json({
+        error: 'Number not sold',
+        code: 'NUMBER_NOT_SOLD',
+        message: `Number ${numberDoc.number} has not been purchased`,
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    if (await salesFrozen(raffle)) {
+      res.status(409).json({
+        error: 'Sales frozen',
+        code: 'SALES_FROZEN',
+        message: 'Numbers cannot be released once the draw seed is committed or sales are closed',
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    const admin = res.locals.admin.username;
+    const purchase = await PurchaseModel.findById(numberDoc.purchaseId);
+    const before = purchase ? purchaseSnapshot(purchase) : { buyerName: numberDoc.purchasedBy };
+    await releaseNumbers(raffle._id, numberDoc.purchaseId, [numberDoc.number], admin);
+
+    if (purchase) {
+      purchase.numbers = purchase.numbers.filter((n: number) => n !== numberDoc.number);
+      // Repriced with the ticket price, bundles and promo code the order was placed with; orders from
+      // before those were kept fall back to the raffle's current prices
+      const price = calculatePrice(purchase.pricing ?? raffle, purchase.numbers.length, purchase.promo);
+      purchase.totalAmount = price.total;
+      purchase.subtotal = price.subtotal;
+      purchase.discount = price.discount;
+      if (purchase.numbers.length === 0) {
+        purchase.paymentStatus = 'cancelled';
+        await releaseOrderPromoCode(purchase);
+      }
+      purchase.lastChangedBy = admin;
+      purchase.lastChangedAt = new Date();
+      await purchase.save();
+    }
+
+    await recordAuditEvent({
+      raffleId: raffle._id,
+      numbers: [numberDoc.number],
+      purchaseId: numberDoc.purchaseId,
+      action: 'release',
+      actor: admin,
+      ip: req.ip,
+      before,
+      after: purchase ? purchaseSnapshot(purchase) : null
+    });
+
+    res.json({
+      message: `Number ${numberDoc.number} released`,
+      number: numberDoc.number,
+      purchase,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error releasing number:', error);
+    res.status(500).json({
+      error: 'Error releasing number',
+      code: 'INTERNAL_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,86 @@
+import express, { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { INumber, NumberModel } from './models/number.js';
+import { RaffleModel, findRaffle } from './models/raffle.js';
+import { optionalAdmin } from './middleware/auth.js';
+import numbersRouter from './numbers.js';
+import drawsRouter from './draws.js';
+import statsRouter from './stats.js';
+import pricingRouter from './pricing.js';
+
+const router = express.Router();
+
+// Create the raffle's numbers for its whole range, skipping the ones that already exist
+export async function seedRaffleNumbers(raffleId: mongoose.Types.ObjectId, numberStart: number, numberEnd: number): Promise<void> {
+  const existing = await NumberModel.find({ raffleId }).distinct('number');
+  const taken = new Set<number>(existing);
+  const numbers: INumber[] = [];
+  for (let number = numberStart; number <= numberEnd; number++) {
+    if (!taken.has(number)) {
+      numbers.push({
+        raffleId,
+        number,
+        isAvailable: true,
+        purchasedBy: null,
+        purchaseDate: null,
+        sellerId: null,
+        purchaseId: null,
+        reservationToken: null,
+        reservedUntil: null,
+        lastChangedBy: null,
+        lastChangedAt: null
+      });
+    }
+  }
+  if (numbers.length > 0) {
+    await NumberModel.insertMany(numbers);
+  }
+}
+
+// Routes
+router.get('/raffles', async (_req: Request, res: Response): Promise<void> => {
+  try {
+    const raffles = await RaffleModel.find({ status: { $ne: 'draft' } }).sort({ createdAt: -1 });
+    res.json(raffles);
+  } catch (error) {
+    console.error('Error fetching raffles:', error);
+    res.status(500).json({
+      error: 'Error fetching raffles',
+      code: 'INTERNAL_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+router.get('/raffles/:raffleId', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const raffle = await findRaffle(req.params.raffleId, { includeDrafts: optionalAdmin(req) !== null });
+    if (!raffle) {
+      res.status(404).json({
+        error: 'Raffle not found',
+        code: 'RAFFLE_NOT_FOUND',
+        message: 'Raffle does not exist',
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+    res.json(raffle);
+  } catch (error) {
+    console.error('Error fetching raffle:', error);
+    res.status(500).json({
+      error: 'Error fetching raffle',
+      code: 'INTERNAL_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// Routes scoped to a raffle, e.g. GET /raffles/:raffleId/numbers
+router.use('/raffles/:raffleId', numbersRouter);
+router.use('/raffles/:raffleId', drawsRouter);
+router.use('/raffles/:raffleId', statsRouter);
+router.use('/raffles/:raffleId', pricingRouter);
+
+export default router;
@@ -0,0 +1,141 @@
+import express, { Request, Response } from 'express';
+import { config } from './config.js';
+import { PurchaseModel, normalizeReceiptCode } from './models/purchase.js';
+import { rateLimit } from './middleware/rateLimit.js';
+import { ReceiptData, renderReceiptPdf, renderReceiptPng, signReceiptToken, verifyReceiptToken } from './services/receipts.js';
+
+const router = express.Router();
+
+// Frontend address for the verification link in the QR code; same host as the API by default
+function publicUrl(req: Request): string {
+  return config.PUBLIC_URL || `${req.protocol}://${req.get('host')}`;
+}
+
+async function findReceipt(req: Request): Promise<ReceiptData | null> {
+  const purchase = await PurchaseModel.findOne({ receiptCode: normalizeReceiptCode(req.params.receiptCode) })
+    .populate('raffleId', 'title');
+  if (!purchase) {
+    return null;
+  }
+  const token = signReceiptToken({ purchaseId: purchase._id.toString(), receiptCode: purchase.receiptCode });
+  return {
+    receiptCode: purchase.receiptCode,
+    raffleTitle: purchase.raffleId?.title ?? 'Rifa',
+    buyerName: purchase.buyerName,
+    numbers: purchase.numbers,
+    totalAmount: purchase.totalAmount,
+    paymentStatus: purchase.paymentStatus,
+    purchaseDate: purchase.purchaseDate,
+    verifyUrl: `${publicUrl(req)}/comprovantes/verificar?token=${encodeURIComponent(token)}`
+  };
+}
+
+router.use('/receipts', rateLimit('receipts', 30, 60 * 1000));
+
+// Confirm a receipt from the token in its QR code, with the order's current status
+router.get('/receipts/verify', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const claims = typeof req.query.token === 'string' ? verifyReceiptToken(req.query.token) : null;
+    if (!claims) {
+      res.status(400).json({
+        error: 'Invalid receipt',
+        code: 'INVALID_RECEIPT',
+        message: 'The receipt token is invalid',
+        valid: false,
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    const purchase = await PurchaseModel.findOne({ _id: claims.purchaseId, receiptCode: claims.receiptCode })
+      .populate('raffleId', 'title');
+    if (!purchase) {
+      res.status(404).json({
+        error: 'Purchase not found',
+        code: 'PURCHASE_NOT_FOUND',
+        message: 'The purchase of this receipt no longer exists',
+        valid: false,
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    res.json({
+      valid: true,
+      receipt: {
+        receiptCode: purchase.receiptCode,
+        raffleTitle: purchase.raffleId?.title ?? null,
+        buyerName: purchase.buyerName,
+        numbers: purchase.numbers,
+        totalAmount: purchase.totalAmount,
+        paymentStatus: purchase.paymentStatus,
+        purchaseDate: purchase.purchaseDate
+      },
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error verifying receipt:', error);
+    res.status(500).json({
+      error: 'Error verifying receipt',
+      code: 'INTERNAL_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+router.get('/receipts/:receiptCode.pdf', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const receipt = await findReceipt(req);
+    if (!receipt) {
+      res.status(404).json({
+        error: 'Purchase not found',
+        code: 'PURCHASE_NOT_FOUND',
+        message: 'No purchase has this receipt code',
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `inline; filename="comprovante-${receipt.receiptCode}.pdf"`);
+    res.send(await renderReceiptPdf(receipt));
+  } catch (error) {
+    console.error('Error generating receipt PDF:', error);
+    res.status(500).json({
+      error: 'Error generating receipt',
+      code: 'INTERNAL_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+router.get('/receipts/:receiptCode.png', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const receipt = await findReceipt(req);
+    if (!receipt) {
+      res.status(404).json({
+        error: 'Purchase not found',
+        code: 'PURCHASE_NOT_FOUND',
+        message: 'No purchase has this receipt code',
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    res.setHeader('Content-Type', 'image/png');
+    res.setHeader('Content-Disposition', `inline; filename="comprovante-${receipt.receiptCode}.png"`);
+    res.send(await renderReceiptPng(receipt));
+  } catch (error) {
+    console.error('Error generating receipt image:', error);
+    res.status(500).json({
+      error: 'Error generating receipt',
+      code: 'INTERNAL_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+export default router;
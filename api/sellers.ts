@@ -0,0 +1,202 @@
+import express, { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { randomInt } from 'crypto';
+import { PurchaseModel } from './models/purchase.js';
+import { SellerModel, sellerCodeFields } from './models/seller.js';
+import { findRaffle } from './models/raffle.js';
+import { requireAdmin } from './middleware/auth.js';
+
+const router = express.Router();
+
+const CODE_LENGTH = 8;
+const CODE_ATTEMPTS = 3;
+
+// Generate a numeric access code; the plain code is only shown once to the admin
+function generateSellerCode(): string {
+  return Array.from({ length: CODE_LENGTH }, () => randomInt(10)).join('');
+}
+
+// Store a fresh code with `save`, drawing another one when it is already some other seller's
+async function issueSellerCode<T>(save: (code: string) => Promise<T>): Promise<{ code: string; result: T }> {
+  for (let attempt = 1; ; attempt++) {
+    const code = generateSellerCode();
+    try {
+      return { code, result: await save(code) };
+    } catch (error) {
+      const taken = error instanceof mongoose.mongo.MongoServerError && error.code === 11000;
+      if (!taken || attempt >= CODE_ATTEMPTS) {
+        throw error;
+      }
+    }
+  }
+}
+
+router.use('/admin', requireAdmin);
+
+router.get('/admin/sellers', async (_req: Request, res: Response): Promise<void> => {
+  try {
+    const sellers = await SellerModel.find().sort({ name: 1 });
+    res.json(sellers);
+  } catch (error) {
+    console.error('Error fetching sellers:', error);
+    res.status(500).json({
+      error: 'Error fetching sellers',
+      code: 'INTERNAL_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+router.post('/admin/sellers', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { name } = req.body;
+
+    if (!name || typeof name !== 'string' || name.trim() === '') {
+      res.status(400).json({
+        error: 'Invalid request',
+        code: 'VALIDATION_FAILED',
+        message: 'Seller name is required',
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    const { code, result: seller } = await issueSellerCode(
+      async code => SellerModel.create({ name: name.trim(), ...await sellerCodeFields(code) })
+    );
+
+    res.status(201).json({
+      seller: { _id: seller._id, name: seller.name, isActive: seller.isActive, revokedAt: seller.revokedAt },
+      code,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error creating seller:', error);
+    res.status(500).json({
+      error: 'Error creating seller',
+      code: 'INTERNAL_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// Issue a new code for the seller, invalidating the previous one
+router.post('/admin/sellers/:sellerId/code', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { code, result: seller } = await issueSellerCode(
+      async code => mongoose.isValidObjectId(req.params.sellerId) && SellerModel.findByIdAndUpdate(
+        req.params.sellerId,
+        { $set: { ...await sellerCodeFields(code), isActive: true, revokedAt: null } },
+        { new: true }
+      )
+    );
+
+    if (!seller) {
+      res.status(404).json({
+        error: 'Seller not found',
+        code: 'SELLER_NOT_FOUND',
+        message: 'Seller does not exist',
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    res.json({
+      seller,
+      code,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error regenerating seller code:', error);
+    res.status(500).json({
+      error: 'Error regenerating seller code',
+      code: 'INTERNAL_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+router.post('/admin/sellers/:sellerId/revoke', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const seller = mongoose.isValidObjectId(req.params.sellerId) && await SellerModel.findByIdAndUpdate(
+      req.params.sellerId,
+      { $set: { isActive: false, revokedAt: new Date() } },
+      { new: true }
+    );
+
+    if (!seller) {
+      res.status(404).json({
+        error: 'Seller not found',
+        code: 'SELLER_NOT_FOUND',
+        message: 'Seller does not exist',
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    res.json(seller);
+  } catch (error) {
+    console.error('Error revoking seller:', error);
+    res.status(500).json({
+      error: 'Error revoking seller',
+      code: 'INTERNAL_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// Sales per seller for one raffle
+router.get('/admin/raffles/:raffleId/sellers', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const raffle = await findRaffle(req.params.raffleId, { includeDrafts: true });
+    if (!raffle) {
+      res.status(404).json({
+        error: 'Raffle not found',
+        code: 'RAFFLE_NOT_FOUND',
+        message: 'Raffle does not exist',
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    const summary = await PurchaseModel.aggregate([
+      { $match: { raffleId: raffle._id, paymentStatus: { $ne: 'cancelled' } } },
+      {
+        $group: {
+          _id: '$sellerId',
+          sold: { $sum: { $size: '$numbers' } },
+          paid: { $sum: { $cond: [{ $eq: ['$paymentStatus', 'paid'] }, { $size: '$numbers' }, 0] } },
+          revenue: { $sum: '$totalAmount' }
+        }
+      },
+      { $lookup: { from: SellerModel.collection.name, localField: '_id', foreignField: '_id', as: 'seller' } },
+      {
+        $project: {
+          _id: 0,
+          sellerId: '$_id',
+          name: { $ifNull: [{ $first: '$seller.name' }, null] },
+          sold: 1,
+          paid: 1,
+          revenue: 1
+        }
+      },
+      { $sort: { sold: -1 } }
+    ]);
+
+    res.json(summary);
+  } catch (error) {
+    console.error('Error fetching sales by seller:', error);
+    res.status(500).json({
+      error: 'Error fetching sales by seller',
+      code: 'INTERNAL_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,35 @@
+import mongoose from 'mongoose';
+import { AuditAction, AuditEventModel } from '../models/auditEvent.js';
+import { IPurchase } from '../models/purchase.js';
+
+export interface AuditEntry {
+  raffleId: mongoose.Types.ObjectId;
+  numbers: number[];
+  purchaseId?: mongoose.Types.ObjectId | null;
+  action: AuditAction;
+  actor: string;
+  ip?: string | null;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+}
+
+// Order fields worth keeping in the history
+export function purchaseSnapshot(purchase: IPurchase): Record<string, unknown> {
+  return {
+    buyerName: purchase.buyerName,
+    phone: purchase.phone,
+    email: purchase.email,
+    numbers: [...purchase.numbers],
+    totalAmount: purchase.totalAmount,
+    paymentStatus: purchase.paymentStatus
+  };
+}
+
+// The change already happened, so a failure here is logged instead of failing the request
+export async function recordAuditEvent(entry: AuditEntry): Promise<void> {
+  try {
+    await AuditEventModel.create(entry);
+  } catch (error) {
+    console.error('Error recording audit event:', error, entry);
+  }
+}
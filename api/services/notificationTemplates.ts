@@ -0,0 +1,108 @@
+import { IPurchase, PaymentStatus } from '../models/purchase.js';
+
+export interface RenderedMessage {
+  subject: string;
+  text: string;
+}
+
+interface PurchaseDetails {
+  buyerName: string;
+  raffleTitle: string;
+  numbers: number[];
+  totalAmount: number;
+  receiptCode: string;
+  paymentStatus: PaymentStatus;
+}
+
+interface DrawDetails {
+  buyerName: string;
+  raffleTitle: string;
+  numbers: number[];
+  // In draw order; prizeName is null for raffles without a prize catalog
+  winners: { prizeName: string | null; winningNumber: number }[];
+}
+
+export interface TemplateData {
+  purchaseRecorded: PurchaseDetails;
+  paymentConfirmed: PurchaseDetails;
+  drawWinner: DrawDetails;
+  drawResult: DrawDetails;
+  lookupCode: { code: string; expiresInMinutes: number };
+}
+
+export type TemplateName = keyof TemplateData;
+
+// Templates whose text carries a secret (the one-time lookup code); the outbox drops the text once it is done with it
+export const SECRET_TEMPLATES: readonly string[] = ['lookupCode'] satisfies TemplateName[];
+
+export function purchaseDetails(purchase: IPurchase, raffleTitle: string): PurchaseDetails {
+  return {
+    buyerName: purchase.buyerName,
+    raffleTitle,
+    numbers: purchase.numbers,
+    totalAmount: purchase.totalAmount,
+    receiptCode: purchase.receiptCode ?? '',
+    paymentStatus: purchase.paymentStatus
+  };
+}
+
+const formatCurrency = (value: number) =>
+  value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+
+const formatNumbers = (numbers: number[]) =>
+  `${numbers.length === 1 ? 'seu número' : 'seus números'} ${numbers.join(', ')}`;
+
+const formatWinner = (winner: DrawDetails['winners'][number]) =>
+  winner.prizeName ? `${winner.prizeName}: número ${winner.winningNumber}` : `Número ${winner.winningNumber}`;
+
+// Mensagens enviadas aos compradores, em português
+const templates: { [T in TemplateName]: (data: TemplateData[T]) => RenderedMessage } = {
+  purchaseRecorded: (data) => ({
+    subject: `Compra registrada - ${data.raffleTitle}`,
+    text: [
+      `Olá, ${data.buyerName}!`,
+      `Sua compra na ${data.raffleTitle} foi registrada: ${formatNumbers(data.numbers)}.`,
+      `Valor: ${formatCurrency(data.totalAmount)}.`,
+      data.paymentStatus === 'paid' ? 'O pagamento já está confirmado.' : 'Assim que o pagamento for confirmado, avisaremos você.',
+      `Comprovante: ${data.receiptCode}. Guarde este código para consultar seus números.`
+    ].join('\n')
+  }),
+  paymentConfirmed: (data) => ({
+    subject: `Pagamento confirmado - ${data.raffleTitle}`,
+    text: [
+      `Olá, ${data.buyerName}!`,
+      `Recebemos o pagamento de ${formatCurrency(data.totalAmount)} pela ${data.raffleTitle}.`,
+      `Agora ${formatNumbers(data.numbers)} ${data.numbers.length === 1 ? 'está garantido' : 'estão garantidos'} no sorteio. Boa sorte!`,
+      `Comprovante: ${data.receiptCode}.`
+    ].join('\n')
+  }),
+  drawWinner: (data) => {
+    const won = data.winners.filter(winner => data.numbers.includes(winner.winningNumber));
+    return {
+      subject: `Você ganhou na ${data.raffleTitle}!`,
+      text: [
+        `Parabéns, ${data.buyerName}!`,
+        `O sorteio da ${data.raffleTitle} foi realizado e ${won.length === 1 ? 'um dos seus números foi sorteado' : 'alguns dos seus números foram sorteados'}:`,
+        ...won.map(winner => `- ${formatWinner(winner)}`),
+        `Entraremos em contato para combinar a entrega ${won.length === 1 ? 'do prêmio' : 'dos prêmios'}.`
+      ].join('\n')
+    };
+  },
+  drawResult: (data) => ({
+    subject: `Resultado do sorteio - ${data.raffleTitle}`,
+    text: [
+      `Olá, ${data.buyerName}!`,
+      `O sorteio da ${data.raffleTitle} foi realizado. ${data.winners.length === 1 ? 'Resultado' : 'Resultados'}:`,
+      ...data.winners.map(winner => `- ${formatWinner(winner)}`),
+      `Desta vez ${formatNumbers(data.numbers)} não ${data.numbers.length === 1 ? 'foi sorteado' : 'foram sorteados'}. Obrigado por participar!`
+    ].join('\n')
+  }),
+  lookupCode: (data) => ({
+    subject: 'Código para consultar seus números',
+    text: `Seu código para consultar seus números é ${data.code}. Ele vale por ${data.expiresInMinutes} minutos.`
+  })
+};
+
+export function renderTemplate<T extends TemplateName>(template: T, data: TemplateData[T]): RenderedMessage {
+  return templates[template](data);
+}
@@ -0,0 +1,232 @@
+import { appendFile } from 'fs/promises';
+import nodemailer, { Transporter } from 'nodemailer';
+import { config } from '../config.js';
+import { NotificationChannelKind, NotificationModel } from '../models/notification.js';
+import { RenderedMessage, SECRET_TEMPLATES, TemplateData, TemplateName, renderTemplate } from './notificationTemplates.js';
+
+// Tentativas de envio antes de desistir de uma mensagem
+const MAX_ATTEMPTS = 5;
+
+// Primeira espera entre tentativas; dobra a cada falha
+const RETRY_BASE_MS = 60 * 1000;
+
+// Time a message stays claimed by the instance sending it
+const SEND_LEASE_MS = 5 * 60 * 1000;
+
+// Longest wait for the message provider before the attempt counts as failed
+const PROVIDER_TIMEOUT_MS = 10 * 1000;
+
+// Stored in place of the text of a secret template once it is sent or given up on
+const REDACTED_TEXT = '[redacted]';
+
+export interface OutgoingMessage extends RenderedMessage {
+  to: string;
+}
+
+// A way of reaching buyers: "email" channels get e-mail addresses, "message" channels phone numbers
+export interface NotificationChannel {
+  readonly name: string;
+  send(message: OutgoingMessage): Promise<void>;
+}
+
+export class SmtpEmailChannel implements NotificationChannel {
+  readonly name = 'smtp';
+  private readonly transporter: Transporter;
+
+  constructor(url: string, private readonly from: string) {
+    this.transporter = nodemailer.createTransport(url);
+  }
+
+  async send(message: OutgoingMessage): Promise<void> {
+    await this.transporter.sendMail({ from: this.from, to: message.to, subject: message.subject, text: message.text });
+  }
+}
+
+// WhatsApp/SMS gateway that takes { to, text } as JSON with a bearer token; phone numbers go out in E.164
+export class HttpMessageChannel implements NotificationChannel {
+  readonly name = 'http';
+
+  constructor(private readonly url: string, private readonly token: string | undefined) {}
+
+  async send(message: OutgoingMessage): Promise<void> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.token ? { Authorization: `Bearer ${this.token}` } : {})
+      },
+      body: JSON.stringify({ to: `+55${message.to}`, text: message.text }),
+      signal: AbortSignal.timeout(PROVIDER_TIMEOUT_MS)
+    });
+    if (!response.ok) {
+      throw new Error(`Message provider answered ${response.status}: ${await response.text()}`);
+    }
+  }
+}
+
+// Local testing: print the message
+export class ConsoleChannel implements NotificationChannel {
+  readonly name = 'console';
+
+  async send(message: OutgoingMessage): Promise<void> {
+    console.log(`Notification to ${message.to}: ${message.subject}\n${message.text}`);
+  }
+}
+
+// Local testing: append the message to a JSON lines file
+export class FileChannel implements NotificationChannel {
+  readonly name = 'file';
+
+  constructor(private readonly path: string) {}
+
+  async send(message: OutgoingMessage): Promise<void> {
+    await appendFile(this.path, `${JSON.stringify({ ...message, sentAt: new Date().toISOString() })}\n`);
+  }
+}
+
+// EMAIL_TRANSPORT / MESSAGE_TRANSPORT pick each channel; unset means the channel is off
+function createChannel(kind: NotificationChannelKind): NotificationChannel | null {
+  const transport = kind === 'email' ? config.EMAIL_TRANSPORT : config.MESSAGE_TRANSPORT;
+  switch (transport) {
+    case 'smtp':
+      return config.SMTP_URL ? new SmtpEmailChannel(config.SMTP_URL, config.EMAIL_FROM) : null;
+    case 'http':
+      return config.MESSAGE_PROVIDER_URL ? new HttpMessageChannel(config.MESSAGE_PROVIDER_URL, config.MESSAGE_PROVIDER_TOKEN) : null;
+    case 'console':
+      return new ConsoleChannel();
+    case 'file':
+      return new FileChannel(config.NOTIFICATIONS_FILE);
+    default:
+      return null;
+  }
+}
+
+const channels = new Map<NotificationChannelKind, NotificationChannel | null>();
+
+export function getNotificationChannel(kind: NotificationChannelKind): NotificationChannel | null {
+  if (!channels.has(kind)) {
+    channels.set(kind, createChannel(kind));
+  }
+  return channels.get(kind) ?? null;
+}
+
+// Swap a channel, e.g. for a fake in tests
+export function setNotificationChannel(kind: NotificationChannelKind, channel: NotificationChannel | null): void {
+  channels.set(kind, channel);
+}
+
+export interface Recipient {
+  phone?: string | null;
+  email?: string | null;
+}
+
+// Send one attempt of a claimed message, scheduling the next one on failure
+async function deliver(notification: {
+  _id: unknown;
+  channel: NotificationChannelKind;
+  to: string;
+  template: string;
+  subject: string;
+  text: string;
+  attempts: number;
+}): Promise<void> {
+  const channel = getNotificationChannel(notification.channel);
+  const redacted = SECRET_TEMPLATES.includes(notification.template) ? { text: REDACTED_TEXT } : {};
+  try {
+    if (!channel) {
+      throw new Error(`No ${notification.channel} channel is configured`);
+    }
+    await channel.send({ to: notification.to, subject: notification.subject, text: notification.text });
+    await NotificationModel.updateOne(
+      { _id: notification._id },
+      { $set: { status: 'sent', sentAt: new Date(), lastError: null, ...redacted } }
+    );
+  } catch (error) {
+    const gaveUp = notification.attempts >= MAX_ATTEMPTS;
+    await NotificationModel.updateOne(
+      { _id: notification._id },
+      {
+        $set: {
+          status: gaveUp ? 'failed' : 'pending',
+          lastError: error instanceof Error ? error.message : String(error),
+          nextAttemptAt: new Date(Date.now() + RETRY_BASE_MS * 2 ** (notification.attempts - 1)),
+          ...(gaveUp ? redacted : {})
+        }
+      }
+    );
+    console.error(`Notification ${notification._id} attempt ${notification.attempts} failed:`, error);
+  }
+}
+
+// Send the messages that are due, oldest first; each is claimed atomically so instances never send twice
+export async function processOutbox(limit = 20): Promise<number> {
+  let processed = 0;
+  while (processed < limit) {
+    const now = new Date();
+    const notification = await NotificationModel.findOneAndUpdate(
+      { status: 'pending', nextAttemptAt: { $lte: now } },
+      { $set: { nextAttemptAt: new Date(now.getTime() + SEND_LEASE_MS) }, $inc: { attempts: 1 } },
+      { sort: { nextAttemptAt: 1 }, new: true }
+    );
+    if (!notification) {
+      break;
+    }
+    await deliver(notification);
+    processed++;
+  }
+  return processed;
+}
+
+let outboxPass: Promise<void> | null = null;
+
+// Start a pass over the outbox in the background unless one is already running in this process;
+// requests that queue messages call it instead of waiting for the providers
+export function wakeOutbox(): void {
+  if (outboxPass) {
+    return;
+  }
+  outboxPass = processOutbox()
+    .then(() => undefined)
+    .catch(error => console.error('Error processing notifications:', error))
+    .finally(() => {
+      outboxPass = null;
+    });
+}
+
+// Queue the message for every contact the recipient has on a configured channel; returns the queued ids
+export async function queueNotification<T extends TemplateName>(
+  template: T,
+  data: TemplateData[T],
+  recipients: Recipient[],
+  channelKinds: NotificationChannelKind[] = ['email', 'message']
+): Promise<unknown[]> {
+  const { subject, text } = renderTemplate(template, data);
+  const messages = recipients.flatMap(recipient => [
+    ...(channelKinds.includes('email') && recipient.email ? [{ channel: 'email' as const, to: recipient.email }] : []),
+    ...(channelKinds.includes('message') && recipient.phone ? [{ channel: 'message' as const, to: recipient.phone }] : [])
+  ]).filter(({ channel }) => getNotificationChannel(channel));
+
+  if (messages.length === 0) {
+    return [];
+  }
+  const queued = await NotificationModel.insertMany(messages.map(message => ({ ...message, template, subject, text })));
+  return queued.map(notification => notification._id);
+}
+
+// Queue the message for the outbox to send in the background.
+// Never throws: the flows that notify have already done their work.
+export async function notify<T extends TemplateName>(
+  template: T,
+  data: TemplateData[T],
+  recipients: Recipient[],
+  channelKinds: NotificationChannelKind[] = ['email', 'message']
+): Promise<void> {
+  try {
+    const ids = await queueNotification(template, data, recipients, channelKinds);
+    if (ids.length > 0) {
+      wakeOutbox();
+    }
+  } catch (error) {
+    console.error(`Error sending ${template} notification:`, error);
+  }
+}
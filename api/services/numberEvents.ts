@@ -0,0 +1,134 @@
+import { EventEmitter } from 'events';
+import mongoose from 'mongoose';
+import { INumber, NumberModel } from '../models/number.js';
+import { BuyerNameDisplay, IRaffle } from '../models/raffle.js';
+import { publicBuyerName } from '../utils/privacy.js';
+
+export type NumberState = 'sold' | 'reserved' | 'released';
+
+export interface NumberChange {
+  number: number;
+  state: NumberState;
+  displayName?: string | null;
+  reservedUntil?: Date | null;
+}
+
+export interface NumberChangeEvent {
+  raffleId: string;
+  changes: NumberChange[];
+}
+
+// In-process bus feeding the SSE streams of this instance. A raffle with viewers here is fed by one shared
+// database change stream, which also sees writes handled by other instances; without one (standalone
+// MongoDB) the writes of this instance are published directly
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+
+interface RaffleWatch {
+  changeStream: mongoose.mongo.ChangeStream | null;
+  subscribers: number;
+  buyerNameDisplay: BuyerNameDisplay;
+}
+
+const watches = new Map<string, RaffleWatch>();
+
+export function publishNumberChanges(
+  raffleId: mongoose.Types.ObjectId | string,
+  numbers: number[],
+  state: NumberState,
+  details: Omit<NumberChange, 'number' | 'state'> = {}
+): void {
+  // The change stream reports these writes itself
+  if (numbers.length === 0 || watches.get(raffleId.toString())?.changeStream) {
+    return;
+  }
+  const event: NumberChangeEvent = {
+    raffleId: raffleId.toString(),
+    changes: numbers.map(number => ({ number, state, ...details }))
+  };
+  emitter.emit('change', event);
+}
+
+// Subscribe to the changes of one raffle; returns the unsubscribe function
+export function subscribeNumberChanges(raffleId: string, listener: (event: NumberChangeEvent) => void): () => void {
+  const handler = (event: NumberChangeEvent) => {
+    if (event.raffleId === raffleId) {
+      listener(event);
+    }
+  };
+  emitter.on('change', handler);
+  return () => {
+    emitter.off('change', handler);
+  };
+}
+
+// Public state of a number as stored, in the same shape the writers publish
+function toNumberChange(number: INumber, buyerNameDisplay: BuyerNameDisplay): NumberChange {
+  if (!number.isAvailable) {
+    return { number: number.number, state: 'sold', displayName: publicBuyerName(number.purchasedBy, buyerNameDisplay) };
+  }
+  if (number.reservedUntil && number.reservedUntil > new Date()) {
+    return { number: number.number, state: 'reserved', reservedUntil: number.reservedUntil };
+  }
+  return { number: number.number, state: 'released' };
+}
+
+function openChangeStream(raffleId: mongoose.Types.ObjectId, watch: RaffleWatch): void {
+  const changeStream: mongoose.mongo.ChangeStream = NumberModel.watch(
+    [{ $match: { operationType: { $in: ['update', 'replace'] }, 'fullDocument.raffleId': raffleId } }],
+    { fullDocument: 'updateLookup' }
+  );
+  changeStream.on('change', (change: { fullDocument?: INumber | null }) => {
+    if (change.fullDocument) {
+      emitter.emit('change', {
+        raffleId: raffleId.toString(),
+        changes: [toNumberChange(change.fullDocument, watch.buyerNameDisplay)]
+      } satisfies NumberChangeEvent);
+    }
+  });
+  changeStream.once('error', (error: Error) => {
+    console.error('Number change stream unavailable, using in-process events:', error.message);
+    closeChangeStream(watch);
+  });
+  watch.changeStream = changeStream;
+}
+
+function closeChangeStream(watch: RaffleWatch): void {
+  const { changeStream } = watch;
+  if (!changeStream) {
+    return;
+  }
+  watch.changeStream = null;
+  changeStream.removeAllListeners();
+  // Errors raised while closing have nobody left to tell
+  changeStream.on('error', () => undefined);
+  void changeStream.close();
+}
+
+// Subscribe an SSE connection to the changes of one raffle: the first viewer of a raffle opens its
+// change stream and the last one to leave closes it. Returns the unsubscribe function
+export function watchNumberChanges(
+  raffle: Pick<IRaffle, 'buyerNameDisplay'> & { _id: mongoose.Types.ObjectId },
+  listener: (event: NumberChangeEvent) => void
+): () => void {
+  const raffleId = raffle._id.toString();
+  let watch = watches.get(raffleId);
+  if (!watch) {
+    watch = { changeStream: null, subscribers: 0, buyerNameDisplay: raffle.buyerNameDisplay };
+    watches.set(raffleId, watch);
+    openChangeStream(raffle._id, watch);
+  }
+  watch.subscribers++;
+  watch.buyerNameDisplay = raffle.buyerNameDisplay;
+
+  const unsubscribe = subscribeNumberChanges(raffleId, listener);
+  const current = watch;
+  return () => {
+    unsubscribe();
+    current.subscribers--;
+    if (current.subscribers === 0) {
+      closeChangeStream(current);
+      watches.delete(raffleId);
+    }
+  };
+}
@@ -0,0 +1,127 @@
+import * as yup from 'yup';
+import { API_OPERATIONS, ApiOperation, ERROR_STATUS, ErrorCode, errorSchema } from '../../shared/api.js';
+import { DEFAULT_LOCALE, LOCALES } from '../../shared/i18n.js';
+
+type JsonSchema = Record<string, unknown>;
+
+// Enough of yup's describe() output to translate the schemas the contract uses
+interface Description {
+  type: string;
+  optional?: boolean;
+  nullable?: boolean;
+  default?: unknown;
+  oneOf?: unknown[];
+  tests?: { name?: string; params?: Record<string, unknown> }[];
+  fields?: Record<string, Description>;
+  innerType?: Description;
+}
+
+// Translate a described yup schema into JSON Schema (OpenAPI 3.1 dialect)
+export function toJsonSchema(description: Description): JsonSchema {
+  const tests = new Map((description.tests ?? []).map(test => [test.name, test.params ?? {}]));
+  let schema: JsonSchema;
+
+  switch (description.type) {
+    case 'object': {
+      const fields = Object.entries(description.fields ?? {});
+      schema = {
+        type: 'object',
+        properties: Object.fromEntries(fields.map(([name, field]) => [name, toJsonSchema(field)])),
+        required: fields.filter(([, field]) => !field.optional).map(([name]) => name)
+      };
+      break;
+    }
+    case 'array':
+      schema = { type: 'array', items: description.innerType ? toJsonSchema(description.innerType) : {} };
+      if (tests.has('min')) {
+        schema.minItems = tests.get('min')?.min;
+      }
+      break;
+    case 'number':
+      schema = { type: tests.has('integer') ? 'integer' : 'number' };
+      if (tests.has('min')) {
+        schema.minimum = tests.get('min')?.min;
+      }
+      break;
+    default:
+      schema = { type: description.type };
+  }
+
+  const values = (description.oneOf ?? []).filter(value => value !== undefined && value !== null);
+  if (values.length > 0) {
+    schema.enum = values;
+  }
+  if (description.nullable) {
+    schema.type = [schema.type, 'null'];
+  }
+  if (description.default !== undefined && description.type !== 'object') {
+    schema.default = description.default;
+  }
+  return schema;
+}
+
+function describe(schema: yup.Schema): JsonSchema {
+  return toJsonSchema(schema.describe() as Description);
+}
+
+function errorResponses(codes: ErrorCode[]): Record<string, unknown> {
+  const byStatus = new Map<number, ErrorCode[]>();
+  for (const code of [...codes, 'INTERNAL_ERROR', 'SERVICE_UNAVAILABLE'] as ErrorCode[]) {
+    byStatus.set(ERROR_STATUS[code], [...(byStatus.get(ERROR_STATUS[code]) ?? []), code]);
+  }
+  return Object.fromEntries([...byStatus].map(([status, statusCodes]) => [String(status), {
+    description: `Error with code ${statusCodes.join(' or ')}`,
+    headers: { 'Content-Language': { description: 'Language of the message', schema: { type: 'string', enum: LOCALES } } },
+    content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } }
+  }]));
+}
+
+function operationDocument(operation: ApiOperation): Record<string, unknown> {
+  const parameters = [
+    ...(operation.path.includes('{raffleId}')
+      ? [{ name: 'raffleId', in: 'path', required: true, schema: { type: 'string' } }]
+      : []),
+    ...(operation.headers ?? []).map(header => ({
+      name: header.name,
+      in: 'header',
+      required: false,
+      description: header.description,
+      schema: { type: 'string', maxLength: 255 }
+    })),
+    {
+      name: 'Accept-Language',
+      in: 'header',
+      required: false,
+      description: `Language of the error messages, one of ${LOCALES.join(', ')}; defaults to ${DEFAULT_LOCALE}`,
+      schema: { type: 'string' }
+    }
+  ];
+
+  return {
+    summary: operation.summary,
+    parameters,
+    ...(operation.request && {
+      requestBody: { required: true, content: { 'application/json': { schema: describe(operation.request) } } }
+    }),
+    responses: {
+      200: { description: 'Success', content: { 'application/json': { schema: describe(operation.response) } } },
+      ...errorResponses(operation.errors)
+    }
+  };
+}
+
+// OpenAPI document generated from the shared contract in shared/api.ts
+export function buildOpenApiDocument(): Record<string, unknown> {
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const operation of API_OPERATIONS) {
+    paths[operation.path] = { ...paths[operation.path], [operation.method]: operationDocument(operation) };
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: { title: 'Rifa Solidária API', version: '1.0.0' },
+    servers: [{ url: '/api' }],
+    paths,
+    components: { schemas: { Error: describe(errorSchema) } }
+  };
+}
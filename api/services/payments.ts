@@ -0,0 +1,129 @@
+import { Request } from 'express';
+import QRCode from 'qrcode';
+import { config } from '../config.js';
+import { buildPixPayload } from './pix.js';
+import { safeEqual } from '../utils/hash.js';
+
+export interface PixCharge {
+  txid: string;
+  payload: string;
+}
+
+export interface PaymentNotification {
+  txid: string;
+  amount: number;
+}
+
+// A Pix provider creates charges and turns its webhook calls into payment notifications
+export interface PaymentProvider {
+  readonly name: string;
+  createCharge(txid: string, amount: number, description: string): Promise<PixCharge>;
+  // Returns null when the request does not come from the provider
+  parseWebhook(req: Request): PaymentNotification[] | null;
+}
+
+// Notifications in the Pix API webhook format: { pix: [{ txid, valor }] }
+function parsePixNotifications(body: unknown): PaymentNotification[] {
+  const pix = (body as { pix?: { txid?: unknown; valor?: unknown }[] })?.pix;
+  if (!Array.isArray(pix)) {
+    return [];
+  }
+  return pix
+    .filter(item => typeof item.txid === 'string')
+    .map(item => ({ txid: item.txid as string, amount: Number(item.valor) }));
+}
+
+// Static BR Code for the configured Pix key; the bank or PSP calls the webhook with a shared secret
+export class StaticPixProvider implements PaymentProvider {
+  readonly name = 'static';
+
+  constructor(
+    private readonly key: string,
+    private readonly merchantName: string,
+    private readonly merchantCity: string,
+    private readonly webhookSecret: string | undefined
+  ) {}
+
+  async createCharge(txid: string, amount: number, description: string): Promise<PixCharge> {
+    return {
+      txid,
+      payload: buildPixPayload({
+        key: this.key,
+        merchantName: this.merchantName,
+        merchantCity: this.merchantCity,
+        amount,
+        txid,
+        description
+      })
+    };
+  }
+
+  parseWebhook(req: Request): PaymentNotification[] | null {
+    const secret = req.header('x-webhook-secret');
+    if (!this.webhookSecret || !secret || !safeEqual(secret, this.webhookSecret)) {
+      return null;
+    }
+    return parsePixNotifications(req.body);
+  }
+}
+
+// Local stand-in that accepts any webhook call, for development and tests
+export class FakePixProvider implements PaymentProvider {
+  readonly name = 'fake';
+
+  async createCharge(txid: string, amount: number, description: string): Promise<PixCharge> {
+    return {
+      txid,
+      payload: buildPixPayload({
+        key: 'fake@pix.local',
+        merchantName: 'Rifa Teste',
+        merchantCity: 'Sao Paulo',
+        amount,
+        txid,
+        description
+      })
+    };
+  }
+
+  parseWebhook(req: Request): PaymentNotification[] {
+    return parsePixNotifications(req.body);
+  }
+}
+
+let provider: PaymentProvider | null | undefined;
+
+// Provider chosen by PAYMENT_PROVIDER; null when Pix is not configured
+export function getPaymentProvider(): PaymentProvider | null {
+  if (provider !== undefined) {
+    return provider;
+  }
+
+  const { PAYMENT_PROVIDER, PIX_KEY, PIX_MERCHANT_NAME, PIX_MERCHANT_CITY, PIX_WEBHOOK_SECRET } = config;
+  if (PAYMENT_PROVIDER === 'fake') {
+    provider = new FakePixProvider();
+  } else if (PIX_KEY) {
+    provider = new StaticPixProvider(PIX_KEY, PIX_MERCHANT_NAME, PIX_MERCHANT_CITY, PIX_WEBHOOK_SECRET);
+  } else {
+    provider = null;
+  }
+  return provider;
+}
+
+// Swap the provider, e.g. for a fake in tests
+export function setPaymentProvider(value: PaymentProvider | null): void {
+  provider = value;
+}
+
+// Create the Pix charge for an order, with its QR code as a data URL; null when Pix is not configured
+export async function createPixCharge(
+  txid: string,
+  amount: number,
+  description: string
+): Promise<(PixCharge & { qrCode: string }) | null> {
+  const paymentProvider = getPaymentProvider();
+  if (!paymentProvider) {
+    return null;
+  }
+  const charge = await paymentProvider.createCharge(txid, amount, description);
+  return { ...charge, qrCode: await QRCode.toDataURL(charge.payload, { margin: 1, width: 320 }) };
+}
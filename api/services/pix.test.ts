@@ -0,0 +1,67 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildPixPayload, crc16 } from './pix.js';
+
+// Top-level ID → value pairs of a payload
+function parseFields(payload: string): Map<string, string> {
+  const fields = new Map<string, string>();
+  for (let i = 0; i < payload.length;) {
+    const length = Number(payload.slice(i + 2, i + 4));
+    fields.set(payload.slice(i, i + 2), payload.slice(i + 4, i + 4 + length));
+    i += 4 + length;
+  }
+  return fields;
+}
+
+const options = {
+  key: '123e4567-e12b-12d1-a456-426655440000',
+  merchantName: 'Fulano de Tal',
+  merchantCity: 'BRASILIA',
+  amount: 10,
+  txid: 'RIFA1234'
+};
+
+describe('crc16', () => {
+  test('matches the CRC-16/CCITT-FALSE check value', () => {
+    assert.equal(crc16('123456789'), '29B1');
+  });
+
+  test('matches the example of the BR Code manual', () => {
+    const payload = '00020126580014br.gov.bcb.pix0136123e4567-e12b-12d1-a456-4266554400005204000053039865802BR'
+      + '5913Fulano de Tal6008BRASILIA62070503***6304';
+    assert.equal(crc16(payload), '1D3D');
+  });
+});
+
+describe('buildPixPayload', () => {
+  test('builds the known payload for a fixed key, amount and txid', () => {
+    assert.equal(
+      buildPixPayload(options),
+      '00020126580014br.gov.bcb.pix0136123e4567-e12b-12d1-a456-426655440000520400005303986540510.00'
+        + '5802BR5913Fulano de Tal6008BRASILIA62120508RIFA123463049D94'
+    );
+  });
+
+  test('ends with the CRC of everything before it', () => {
+    const payload = buildPixPayload({ ...options, amount: 25.5, description: 'Rifa Solidária' });
+    assert.equal(payload.slice(-4), crc16(payload.slice(0, -4)));
+    assert.equal(parseFields(payload).get('54'), '25.50');
+  });
+
+  test('cuts the description to keep field 26 within 99 characters', () => {
+    // 18 characters of GUI + 4 of key header + 68 of key leave 5 for the description, "Rifa " trimmed
+    const payload = buildPixPayload({ ...options, key: 'k'.repeat(68), description: 'Rifa Solidaria' });
+    const merchantAccount = parseFields(payload).get('26') ?? '';
+    assert.ok(merchantAccount.length <= 99);
+    assert.ok(merchantAccount.endsWith('0204Rifa'));
+  });
+
+  test('drops the description when the key leaves no room for it', () => {
+    const payload = buildPixPayload({ ...options, key: 'k'.repeat(77), description: 'Rifa Solidaria' });
+    assert.equal(parseFields(payload).get('26'), `0014br.gov.bcb.pix0177${'k'.repeat(77)}`);
+  });
+
+  test('rejects a key too long for field 26', () => {
+    assert.throws(() => buildPixPayload({ ...options, key: 'k'.repeat(78) }), /field 26/);
+  });
+});
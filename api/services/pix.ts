@@ -0,0 +1,64 @@
+// Pix "copia e cola" payloads following the BR Code (EMV QRCPS) specification
+
+export interface PixPayloadOptions {
+  key: string;
+  merchantName: string;
+  merchantCity: string;
+  amount: number;
+  txid: string;
+  description?: string;
+}
+
+const MAX_FIELD_LENGTH = 99;
+
+// ID + two-digit length + value
+function field(id: string, value: string): string {
+  if (value.length > MAX_FIELD_LENGTH) {
+    throw new Error(`Pix field ${id} is ${value.length} characters long, the maximum is ${MAX_FIELD_LENGTH}`);
+  }
+  return `${id}${value.length.toString().padStart(2, '0')}${value}`;
+}
+
+// BR Code only accepts plain ASCII in the merchant fields
+function sanitize(value: string, maxLength: number): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^A-Za-z0-9 ]/g, '')
+    .slice(0, maxLength)
+    .trim();
+}
+
+// CRC16-CCITT (polynomial 0x1021, initial value 0xFFFF), as required by field 63
+export function crc16(payload: string): string {
+  let crc = 0xffff;
+  for (let i = 0; i < payload.length; i++) {
+    crc ^= payload.charCodeAt(i) << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1;
+      crc &= 0xffff;
+    }
+  }
+  return crc.toString(16).toUpperCase().padStart(4, '0');
+}
+
+export function buildPixPayload(options: PixPayloadOptions): string {
+  const gui = field('00', 'br.gov.bcb.pix') + field('01', options.key);
+  // Field 26 is limited to 99 characters too: the description gets what a long key leaves over
+  const descriptionRoom = Math.min(40, MAX_FIELD_LENGTH - gui.length - 4);
+  const description = options.description && descriptionRoom > 0 ? sanitize(options.description, descriptionRoom) : '';
+  const merchantAccount = gui + (description ? field('02', description) : '');
+
+  const payload = field('00', '01')
+    + field('26', merchantAccount)
+    + field('52', '0000')
+    + field('53', '986')
+    + field('54', options.amount.toFixed(2))
+    + field('58', 'BR')
+    + field('59', sanitize(options.merchantName, 25))
+    + field('60', sanitize(options.merchantCity, 15))
+    + field('62', field('05', options.txid.replace(/[^A-Za-z0-9]/g, '').slice(0, 25) || '***'))
+    + '6304';
+
+  return payload + crc16(payload);
+}
@@ -0,0 +1,28 @@
+import mongoose from 'mongoose';
+import { IRaffle } from '../models/raffle.js';
+import { IPromoCode, PromoCodeModel, promoCodeProblem, promoDiscount } from '../models/promoCode.js';
+import { PriceBreakdown, calculatePrice } from '../../shared/pricing.js';
+
+export interface OrderQuote {
+  price: PriceBreakdown;
+  // The code to redeem when the order is placed
+  promoCode: (IPromoCode & { _id: mongoose.Types.ObjectId }) | null;
+  // Set when the typed code can't be used; the price then leaves it out
+  problem: string | null;
+}
+
+// Price `quantity` numbers of the raffle with the promo code the buyer typed, if any
+export async function quoteOrder(
+  raffle: Pick<IRaffle, 'ticketPrice' | 'bundles'> & { _id: mongoose.Types.ObjectId },
+  quantity: number,
+  code: string | null
+): Promise<OrderQuote> {
+  const promoCode = code ? await PromoCodeModel.findOne({ raffleId: raffle._id, code: code.toUpperCase() }) : null;
+  const problem = code ? promoCodeProblem(promoCode) : null;
+  const valid = code && !problem ? promoCode : null;
+  return {
+    price: calculatePrice(raffle, quantity, valid ? promoDiscount(valid) : null),
+    promoCode: valid,
+    problem
+  };
+}
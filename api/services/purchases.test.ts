@@ -0,0 +1,146 @@
+import { after, before, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+import { MongoMemoryReplSet, MongoMemoryServer } from 'mongodb-memory-server';
+import { NumberModel } from '../models/number.js';
+import { PurchaseModel } from '../models/purchase.js';
+import { purchaseAtomically } from './purchases.js';
+
+const raffleId = new mongoose.Types.ObjectId();
+
+function order(numbers: number[]) {
+  return {
+    _id: new mongoose.Types.ObjectId(),
+    raffleId,
+    sellerId: null,
+    buyerName: `Buyer ${numbers.join('-')}`,
+    phone: '',
+    email: null,
+    numbers,
+    totalAmount: numbers.length * 10,
+    subtotal: numbers.length * 10,
+    discount: 0,
+    promo: null,
+    pricing: null,
+    paymentStatus: 'pending' as const,
+    paidAt: null,
+    purchaseDate: new Date(),
+    pixTxid: null,
+    pixPayload: null,
+    lastChangedBy: null,
+    lastChangedAt: null,
+    receiptCode: null
+  };
+}
+
+async function seedNumbers(count: number) {
+  await NumberModel.insertMany(Array.from({ length: count }, (_, i) => ({ raffleId, number: i + 1 })));
+}
+
+// Every number is sold at most once, every sold number belongs to exactly one recorded order, each
+// winning order holds exactly its numbers and each losing order only reports numbers it asked for.
+// Which orders win depends on timing, so only these invariants are checked
+async function assertConsistent(orders: ReturnType<typeof order>[], results: number[][]) {
+  const sold = await NumberModel.find({ raffleId, isAvailable: false }).lean<{ number: number; purchaseId: mongoose.Types.ObjectId }[]>();
+  const purchases = await PurchaseModel.find({ raffleId }).lean<{ _id: mongoose.Types.ObjectId; numbers: number[] }[]>();
+
+  const winners = orders.filter((_, i) => results[i].length === 0);
+  const wonNumbers = winners.flatMap(winner => winner.numbers);
+  assert.equal(new Set(wonNumbers).size, wonNumbers.length);
+  assert.equal(new Set(sold.map(n => n.number)).size, sold.length);
+  results.forEach((conflicts, i) => {
+    assert.ok(conflicts.every(number => orders[i].numbers.includes(number)));
+  });
+
+  assert.equal(purchases.length, winners.length);
+  for (const winner of winners) {
+    const owned = sold.filter(n => n.purchaseId.equals(winner._id)).map(n => n.number).sort((a, b) => a - b);
+    assert.deepEqual(owned, [...winner.numbers].sort((a, b) => a - b));
+  }
+  assert.equal(sold.length, winners.reduce((sum, winner) => sum + winner.numbers.length, 0));
+}
+
+// Overlapping orders racing for the same numbers: [1,2,3], [3,4,5], [5,6,1], ...
+async function raceOverlappingOrders() {
+  await seedNumbers(12);
+  const orders = Array.from({ length: 6 }, (_, i) => order([i * 2 + 1, i * 2 + 2, ((i * 2 + 2) % 12) + 1]));
+  const results = await Promise.all(orders.map(o => purchaseAtomically(o, null)));
+  await assertConsistent(orders, results);
+}
+
+describe('purchaseAtomically with transactions', () => {
+  let replSet: MongoMemoryReplSet;
+
+  before(async () => {
+    replSet = await MongoMemoryReplSet.create({ replSet: { count: 1, storageEngine: 'wiredTiger' } });
+    await mongoose.connect(replSet.getUri());
+  });
+
+  after(async () => {
+    await mongoose.disconnect();
+    await replSet.stop();
+  });
+
+  beforeEach(async () => {
+    await NumberModel.deleteMany({});
+    await PurchaseModel.deleteMany({});
+  });
+
+  test('parallel overlapping purchases never share a number', raceOverlappingOrders);
+
+  test('many buyers racing for one number leave a single owner', async () => {
+    await seedNumbers(1);
+    const orders = Array.from({ length: 8 }, () => order([1]));
+    const results = await Promise.all(orders.map(o => purchaseAtomically(o, null)));
+    assert.equal(results.filter(conflicts => conflicts.length === 0).length, 1);
+    await assertConsistent(orders, results);
+  });
+});
+
+describe('purchaseAtomically without transactions', () => {
+  let server: MongoMemoryServer;
+
+  before(async () => {
+    server = await MongoMemoryServer.create();
+    await mongoose.connect(server.getUri());
+  });
+
+  after(async () => {
+    await mongoose.disconnect();
+    await server.stop();
+  });
+
+  beforeEach(async () => {
+    await NumberModel.deleteMany({});
+    await PurchaseModel.deleteMany({});
+  });
+
+  test('parallel overlapping purchases never share a number', raceOverlappingOrders);
+
+  test('a conflict puts the claimed numbers back with their hold', async () => {
+    await seedNumbers(2);
+    const reservedUntil = new Date(Date.now() + 60_000);
+    await NumberModel.updateOne({ raffleId, number: 1 }, { $set: { reservationToken: 'mine', reservedUntil } });
+    await NumberModel.updateOne({ raffleId, number: 2 }, { $set: { isAvailable: false } });
+
+    assert.deepEqual(await purchaseAtomically(order([1, 2]), 'mine'), [2]);
+
+    const number = await NumberModel.findOne({ raffleId, number: 1 }).select('+reservationToken').lean<{
+      isAvailable: boolean; reservationToken: string | null; reservedUntil: Date | null; purchaseId: unknown;
+    }>();
+    assert.equal(number?.isAvailable, true);
+    assert.equal(number?.purchaseId, null);
+    assert.equal(number?.reservationToken, 'mine');
+    assert.equal(number?.reservedUntil?.getTime(), reservedUntil.getTime());
+  });
+
+  test('a failure recording the order releases the numbers', async () => {
+    await seedNumbers(2);
+    const invalid = { ...order([1, 2]), buyerName: '' };
+
+    await assert.rejects(purchaseAtomically(invalid, null));
+
+    assert.equal(await NumberModel.countDocuments({ raffleId, isAvailable: false }), 0);
+    assert.equal(await PurchaseModel.countDocuments({}), 0);
+  });
+});
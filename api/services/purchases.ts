@@ -0,0 +1,131 @@
+import mongoose from 'mongoose';
+import { INumber, NumberModel } from '../models/number.js';
+import { IPurchase, PurchaseModel } from '../models/purchase.js';
+
+// Thrown inside a transaction to abort it when a number was taken by someone else
+class NumbersUnavailableError extends Error {
+  constructor(public readonly numbers: number[]) {
+    super(`Numbers ${numbers.join(', ')} are already purchased or reserved`);
+    this.name = 'NumbersUnavailableError';
+  }
+}
+
+// Standalone MongoDB servers (e.g. local development) do not support transactions
+function isTransactionUnsupported(error: unknown): boolean {
+  return error instanceof mongoose.mongo.MongoServerError
+    && (error.code === 20 || error.message.includes('Transaction numbers are only allowed'));
+}
+
+// A number can be claimed when unsold and not held by someone else
+function claimableFilter(raffleId: mongoose.Types.ObjectId, number: number, reservationToken: string | null) {
+  const holders: Record<string, unknown>[] = [
+    { reservedUntil: null },
+    { reservedUntil: { $lte: new Date() } }
+  ];
+  if (reservationToken) {
+    holders.push({ reservationToken });
+  }
+  return { raffleId, number, isAvailable: true, $or: holders };
+}
+
+type HoldState = Pick<INumber, 'number' | 'reservationToken' | 'reservedUntil'>;
+
+// Apply the update to each number only if it is still claimable; returns the numbers that were not,
+// and the hold each claimed number had before, so a caller can put it back
+export async function claimNumbers(
+  raffleId: mongoose.Types.ObjectId,
+  numbers: number[],
+  update: Record<string, unknown>,
+  reservationToken: string | null,
+  session: mongoose.ClientSession | null
+): Promise<{ claimed: number[]; conflicts: number[]; previous: HoldState[] }> {
+  const claimed: number[] = [];
+  const conflicts: number[] = [];
+  const previous: HoldState[] = [];
+
+  for (const number of numbers) {
+    const doc = await NumberModel.findOneAndUpdate(
+      claimableFilter(raffleId, number, reservationToken),
+      { $set: update },
+      { session }
+    ).select('+reservationToken number reservedUntil').lean<HoldState>();
+    if (doc) {
+      claimed.push(number);
+      previous.push({ number, reservationToken: doc.reservationToken, reservedUntil: doc.reservedUntil });
+    } else {
+      conflicts.push(number);
+    }
+  }
+
+  return { claimed, conflicts, previous };
+}
+
+// Claim all of the order's numbers and record the order, or do neither; returns the conflicting numbers
+export async function purchaseAtomically(
+  purchase: IPurchase & { _id: mongoose.Types.ObjectId },
+  reservationToken: string | null
+): Promise<number[]> {
+  const { _id: purchaseId, raffleId, numbers, buyerName, sellerId, purchaseDate } = purchase;
+  const update = {
+    isAvailable: false,
+    purchasedBy: buyerName,
+    purchaseDate,
+    sellerId,
+    purchaseId,
+    reservationToken: null,
+    reservedUntil: null
+  };
+
+  const session = await mongoose.startSession();
+  try {
+    await session.withTransaction(async () => {
+      const { conflicts } = await claimNumbers(raffleId, numbers, update, reservationToken, session);
+      if (conflicts.length > 0) {
+        throw new NumbersUnavailableError(conflicts);
+      }
+      await PurchaseModel.create([purchase], { session });
+    });
+    return [];
+  } catch (error) {
+    if (error instanceof NumbersUnavailableError) {
+      return error.numbers;
+    }
+    if (!isTransactionUnsupported(error)) {
+      throw error;
+    }
+  } finally {
+    await session.endSession();
+  }
+
+  // Without transactions, claim first and put every claimed number back as it was,
+  // hold included, when another number conflicts or the order cannot be recorded
+  const { conflicts, previous } = await claimNumbers(raffleId, numbers, update, reservationToken, null);
+  const rollback = () => Promise.all(previous.map(({ number, reservationToken, reservedUntil }) =>
+    NumberModel.updateOne(
+      { raffleId, number, purchaseId },
+      {
+        $set: {
+          isAvailable: true,
+          purchasedBy: null,
+          purchaseDate: null,
+          sellerId: null,
+          purchaseId: null,
+          reservationToken,
+          reservedUntil
+        }
+      }
+    )
+  ));
+
+  if (conflicts.length > 0) {
+    await rollback();
+    return conflicts;
+  }
+  try {
+    await PurchaseModel.create(purchase);
+  } catch (error) {
+    await rollback();
+    throw error;
+  }
+  return [];
+}
@@ -0,0 +1,100 @@
+import { after, before, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+import { RateLimitModel } from '../models/rateLimit.js';
+
+// The service reads the configuration when loaded, so it comes in once the required variables are set
+process.env.MONGODB_URI ||= 'mongodb://127.0.0.1:27017/test';
+process.env.ADMIN_JWT_SECRET ||= 'test-admin-secret';
+process.env.RECEIPT_SECRET ||= 'test-receipt-secret';
+process.env.SELLER_CODE_PEPPER ||= 'test-seller-pepper';
+const { BruteForceGuard, MemoryRateLimitStore, MongoRateLimitStore, setRateLimitStore } = await import('./rateLimit.js');
+
+// Lockouts of 1s, 2s, 4s, then capped at 4s
+function guard(name = 'test') {
+  return new BruteForceGuard(name, {
+    maxFailures: 3,
+    windowMs: 60_000,
+    baseLockoutMs: 1000,
+    maxLockoutMs: 4000,
+    lockoutMemoryMs: 60_000
+  });
+}
+
+async function failTimes(target: InstanceType<typeof BruteForceGuard>, identifiers: string[], times: number) {
+  const lockouts: number[] = [];
+  for (let i = 0; i < times; i++) {
+    lockouts.push(await target.fail(identifiers));
+  }
+  return lockouts;
+}
+
+function guardTests() {
+  test('locks once the failures reach the limit', async () => {
+    const target = guard();
+    assert.deepEqual(await failTimes(target, ['ip:1'], 3), [0, 0, 1]);
+    assert.equal(await target.retryAfter(['ip:1']), 1);
+    assert.equal(await target.retryAfter(['ip:2']), 0);
+  });
+
+  test('doubles each lockout up to the maximum', async () => {
+    const target = guard();
+    const lockouts: number[] = [];
+    for (let round = 0; round < 4; round++) {
+      lockouts.push((await failTimes(target, ['ip:1'], 3))[2]);
+    }
+    assert.deepEqual(lockouts, [1, 2, 4, 4]);
+  });
+
+  test('a success clears the failure count but not the lockout history', async () => {
+    const target = guard();
+    await failTimes(target, ['ip:1'], 2);
+    await target.succeed(['ip:1']);
+    assert.deepEqual(await failTimes(target, ['ip:1'], 2), [0, 0]);
+
+    await target.fail(['ip:1']);
+    await target.succeed(['ip:1']);
+    assert.deepEqual(await failTimes(target, ['ip:1'], 3), [0, 0, 2]);
+  });
+
+  test('any locked identifier holds back the whole attempt', async () => {
+    const target = guard();
+    await failTimes(target, ['ip:1', 'phone:1'], 3);
+    assert.ok(await target.retryAfter(['ip:2', 'phone:1']) > 0);
+  });
+
+  test('guards keep their failures apart', async () => {
+    await failTimes(guard('login'), ['ip:1'], 3);
+    assert.equal(await guard('seller-code').retryAfter(['ip:1']), 0);
+  });
+}
+
+describe('BruteForceGuard with the memory store', () => {
+  beforeEach(() => {
+    setRateLimitStore(new MemoryRateLimitStore());
+  });
+
+  guardTests();
+});
+
+describe('BruteForceGuard with the Mongo store', () => {
+  let server: MongoMemoryServer;
+
+  before(async () => {
+    server = await MongoMemoryServer.create();
+    await mongoose.connect(server.getUri());
+    setRateLimitStore(new MongoRateLimitStore());
+  });
+
+  after(async () => {
+    await mongoose.disconnect();
+    await server.stop();
+  });
+
+  beforeEach(async () => {
+    await RateLimitModel.deleteMany({});
+  });
+
+  guardTests();
+});
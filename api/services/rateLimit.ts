@@ -0,0 +1,188 @@
+import { config } from '../config.js';
+import { RateLimitModel } from '../models/rateLimit.js';
+
+export interface RateLimitHit {
+  count: number;
+  resetAt: Date;
+}
+
+// Where counters and locks are kept; memory works for a single server, Mongo across serverless instances
+export interface RateLimitStore {
+  readonly name: string;
+  // Count one more hit for the key, starting a new window when the previous one is over
+  hit(key: string, windowMs: number): Promise<RateLimitHit>;
+  lock(key: string, until: Date): Promise<void>;
+  // Returns null when the key is not locked
+  lockedUntil(key: string): Promise<Date | null>;
+  reset(key: string): Promise<void>;
+}
+
+interface MemoryEntry {
+  count: number;
+  resetAt: Date;
+  lockedUntil: Date | null;
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly name = 'memory';
+  private readonly entries = new Map<string, MemoryEntry>();
+
+  async hit(key: string, windowMs: number): Promise<RateLimitHit> {
+    this.sweep();
+    const now = new Date();
+    const entry = this.entries.get(key);
+    if (entry && entry.resetAt > now) {
+      entry.count++;
+      return { count: entry.count, resetAt: entry.resetAt };
+    }
+    const resetAt = new Date(now.getTime() + windowMs);
+    this.entries.set(key, { count: 1, resetAt, lockedUntil: entry?.lockedUntil ?? null });
+    return { count: 1, resetAt };
+  }
+
+  async lock(key: string, until: Date): Promise<void> {
+    const entry = this.entries.get(key) ?? { count: 0, resetAt: new Date(), lockedUntil: null };
+    entry.lockedUntil = until;
+    this.entries.set(key, entry);
+  }
+
+  async lockedUntil(key: string): Promise<Date | null> {
+    const lockedUntil = this.entries.get(key)?.lockedUntil;
+    return lockedUntil && lockedUntil > new Date() ? lockedUntil : null;
+  }
+
+  async reset(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  // Drop entries whose window and lock are both over
+  private sweep(): void {
+    const now = new Date();
+    this.entries.forEach((entry, key) => {
+      if (entry.resetAt <= now && (!entry.lockedUntil || entry.lockedUntil <= now)) {
+        this.entries.delete(key);
+      }
+    });
+  }
+}
+
+export class MongoRateLimitStore implements RateLimitStore {
+  readonly name = 'mongo';
+
+  async hit(key: string, windowMs: number): Promise<RateLimitHit> {
+    const now = new Date();
+    const newResetAt = new Date(now.getTime() + windowMs);
+    const windowOpen = { $gt: ['$resetAt', now] };
+    // Single atomic update so concurrent instances never lose a hit
+    const doc = await RateLimitModel.findOneAndUpdate(
+      { key },
+      [{
+        $set: {
+          count: { $cond: [windowOpen, { $add: ['$count', 1] }, 1] },
+          resetAt: { $cond: [windowOpen, '$resetAt', newResetAt] },
+          lockedUntil: { $ifNull: ['$lockedUntil', null] },
+          expiresAt: { $max: ['$expiresAt', newResetAt] }
+        }
+      }],
+      { upsert: true, new: true }
+    );
+    return { count: doc.count, resetAt: doc.resetAt };
+  }
+
+  async lock(key: string, until: Date): Promise<void> {
+    await RateLimitModel.updateOne(
+      { key },
+      { $set: { lockedUntil: until }, $max: { expiresAt: until }, $setOnInsert: { count: 0, resetAt: new Date() } },
+      { upsert: true }
+    );
+  }
+
+  async lockedUntil(key: string): Promise<Date | null> {
+    const doc = await RateLimitModel.findOne({ key, lockedUntil: { $gt: new Date() } });
+    return doc ? doc.lockedUntil : null;
+  }
+
+  async reset(key: string): Promise<void> {
+    await RateLimitModel.deleteOne({ key });
+  }
+}
+
+// RATE_LIMIT_STORE picks the store; on Vercel every invocation may hit a fresh instance, so Mongo is the default there
+function createRateLimitStore(): RateLimitStore {
+  const storeName = config.RATE_LIMIT_STORE || (config.VERCEL ? 'mongo' : 'memory');
+  return storeName === 'mongo' ? new MongoRateLimitStore() : new MemoryRateLimitStore();
+}
+
+let store = createRateLimitStore();
+
+export function getRateLimitStore(): RateLimitStore {
+  return store;
+}
+
+export function setRateLimitStore(next: RateLimitStore): void {
+  store = next;
+}
+
+export interface BruteForceOptions {
+  // Failed attempts allowed inside the window before locking
+  maxFailures: number;
+  windowMs: number;
+  // First lockout; each lockout within lockoutMemoryMs doubles it, up to maxLockoutMs
+  baseLockoutMs: number;
+  maxLockoutMs: number;
+  lockoutMemoryMs: number;
+}
+
+const DEFAULT_BRUTE_FORCE_OPTIONS: BruteForceOptions = {
+  maxFailures: config.SECRET_MAX_FAILURES,
+  windowMs: 15 * 60 * 1000,
+  baseLockoutMs: 60 * 1000,
+  maxLockoutMs: 60 * 60 * 1000,
+  lockoutMemoryMs: 24 * 60 * 60 * 1000
+};
+
+// Progressive lockout of the identifiers (IP, phone, username...) that keep failing a secret check
+export class BruteForceGuard {
+  private readonly options: BruteForceOptions;
+
+  constructor(private readonly name: string, options: Partial<BruteForceOptions> = {}) {
+    this.options = { ...DEFAULT_BRUTE_FORCE_OPTIONS, ...options };
+  }
+
+  // Seconds until all identifiers may try again; 0 when none is locked
+  async retryAfter(identifiers: string[]): Promise<number> {
+    const locks = await Promise.all(identifiers.map(id => getRateLimitStore().lockedUntil(this.failuresKey(id))));
+    return secondsUntil(locks);
+  }
+
+  // Count a failed attempt; returns the lockout in seconds when this failure triggered one
+  async fail(identifiers: string[]): Promise<number> {
+    const locks = await Promise.all(identifiers.map(async id => {
+      const { count } = await getRateLimitStore().hit(this.failuresKey(id), this.options.windowMs);
+      if (count < this.options.maxFailures) {
+        return null;
+      }
+      const lockouts = await getRateLimitStore().hit(`${this.name}:lockouts:${id}`, this.options.lockoutMemoryMs);
+      const duration = Math.min(this.options.baseLockoutMs * 2 ** (lockouts.count - 1), this.options.maxLockoutMs);
+      const until = new Date(Date.now() + duration);
+      await getRateLimitStore().reset(this.failuresKey(id));
+      await getRateLimitStore().lock(this.failuresKey(id), until);
+      return until;
+    }));
+    return secondsUntil(locks);
+  }
+
+  // A correct secret clears the failure count, but not the lockout history
+  async succeed(identifiers: string[]): Promise<void> {
+    await Promise.all(identifiers.map(id => getRateLimitStore().reset(this.failuresKey(id))));
+  }
+
+  private failuresKey(identifier: string): string {
+    return `${this.name}:failures:${identifier}`;
+  }
+}
+
+function secondsUntil(dates: (Date | null)[]): number {
+  const latest = Math.max(0, ...dates.map(date => (date ? date.getTime() : 0)));
+  return latest > Date.now() ? Math.ceil((latest - Date.now()) / 1000) : 0;
+}
@@ -0,0 +1,152 @@
+import { createRequire } from 'module';
+import jwt from 'jsonwebtoken';
+import PDFDocument from 'pdfkit';
+import QRCode from 'qrcode';
+import { Resvg } from '@resvg/resvg-js';
+import { config } from '../config.js';
+import { PaymentStatus } from '../models/purchase.js';
+
+// Segredo que assina o QR code de verificação dos comprovantes
+const RECEIPT_SECRET = config.RECEIPT_SECRET;
+
+const require = createRequire(import.meta.url);
+const FONT_REGULAR = require.resolve('dejavu-fonts-ttf/ttf/DejaVuSans.ttf');
+const FONT_BOLD = require.resolve('dejavu-fonts-ttf/ttf/DejaVuSans-Bold.ttf');
+
+const PAYMENT_LABELS: Record<PaymentStatus, string> = {
+  pending: 'Aguardando pagamento',
+  paid: 'Pago',
+  cancelled: 'Cancelado'
+};
+
+export interface ReceiptData {
+  receiptCode: string;
+  raffleTitle: string;
+  buyerName: string;
+  numbers: number[];
+  totalAmount: number;
+  paymentStatus: PaymentStatus;
+  purchaseDate: Date;
+  verifyUrl: string;
+}
+
+interface ReceiptClaims {
+  purchaseId: string;
+  receiptCode: string;
+}
+
+export function signReceiptToken(claims: ReceiptClaims): string {
+  if (!RECEIPT_SECRET) {
+    throw new Error('RECEIPT_SECRET is not configured');
+  }
+  return jwt.sign(claims, RECEIPT_SECRET);
+}
+
+// Returns null when the token was not signed by us
+export function verifyReceiptToken(token: string): ReceiptClaims | null {
+  if (!RECEIPT_SECRET) {
+    return null;
+  }
+  try {
+    const { purchaseId, receiptCode } = jwt.verify(token, RECEIPT_SECRET) as ReceiptClaims;
+    return { purchaseId, receiptCode };
+  } catch {
+    return null;
+  }
+}
+
+const formatCurrency = (value: number) =>
+  value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+
+const formatDate = (date: Date) =>
+  date.toLocaleString('pt-BR', { timeZone: 'America/Sao_Paulo', dateStyle: 'short', timeStyle: 'short' });
+
+// Label/value lines shared by both formats
+function receiptLines(data: ReceiptData): [string, string][] {
+  return [
+    ['Comprador', data.buyerName],
+    ['Valor', formatCurrency(data.totalAmount)],
+    ['Data', formatDate(data.purchaseDate)],
+    ['Pagamento', PAYMENT_LABELS[data.paymentStatus]],
+    ['Comprovante', data.receiptCode]
+  ];
+}
+
+export async function renderReceiptPdf(data: ReceiptData): Promise<Buffer> {
+  const qrCode = await QRCode.toBuffer(data.verifyUrl, { margin: 1, width: 240 });
+  const doc = new PDFDocument({ size: 'A5', margin: 40 });
+  const chunks: Buffer[] = [];
+  doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  doc.registerFont('regular', FONT_REGULAR);
+  doc.registerFont('bold', FONT_BOLD);
+
+  doc.font('bold').fontSize(18).text(data.raffleTitle, { align: 'center' });
+  doc.font('regular').fontSize(11).fillColor('#6b7280').text('Comprovante de compra', { align: 'center' });
+  doc.moveDown();
+
+  for (const [label, value] of receiptLines(data)) {
+    doc.font('bold').fontSize(11).fillColor('#111827').text(`${label}: `, { continued: true });
+    doc.font('regular').text(value);
+  }
+
+  doc.moveDown();
+  doc.font('bold').text(data.numbers.length === 1 ? 'Número' : 'Números');
+  doc.font('regular').fontSize(14).fillColor('#1d4ed8').text(data.numbers.join('  '));
+
+  doc.moveDown();
+  doc.image(qrCode, (doc.page.width - 120) / 2, doc.y, { width: 120 });
+  doc.moveDown(9);
+  doc.font('regular').fontSize(8).fillColor('#6b7280')
+    .text('Aponte a câmera para o QR code para confirmar a autenticidade deste comprovante.', { align: 'center' });
+
+  doc.end();
+  return done;
+}
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Portrait card sized for sharing on WhatsApp
+export async function renderReceiptPng(data: ReceiptData): Promise<Buffer> {
+  const qrCode = await QRCode.toDataURL(data.verifyUrl, { margin: 1, width: 240 });
+  const width = 720;
+  const perRow = 8;
+  const numberRows = Math.ceil(data.numbers.length / perRow);
+  const numbersTop = 420;
+  const qrTop = numbersTop + numberRows * 64 + 24;
+  const height = qrTop + 320;
+
+  const lines = receiptLines(data).map(([label, value], i) => `
+    <text x="60" y="${180 + i * 44}" font-size="24" fill="#6b7280">${escapeXml(label)}</text>
+    <text x="260" y="${180 + i * 44}" font-size="24" font-weight="bold" fill="#111827">${escapeXml(value)}</text>`);
+
+  const chips = data.numbers.map((number, i) => {
+    const x = 60 + (i % perRow) * 76;
+    const y = numbersTop + Math.floor(i / perRow) * 64;
+    return `
+    <rect x="${x}" y="${y}" width="64" height="48" rx="10" fill="#2563eb"/>
+    <text x="${x + 32}" y="${y + 32}" font-size="22" font-weight="bold" fill="#ffffff" text-anchor="middle">${number}</text>`;
+  });
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" font-family="DejaVu Sans">
+    <rect width="100%" height="100%" fill="#f3f4f6"/>
+    <rect x="24" y="24" width="${width - 48}" height="${height - 48}" rx="24" fill="#ffffff"/>
+    <text x="${width / 2}" y="90" font-size="32" font-weight="bold" fill="#111827" text-anchor="middle">${escapeXml(data.raffleTitle)}</text>
+    <text x="${width / 2}" y="128" font-size="20" fill="#6b7280" text-anchor="middle">Comprovante de compra</text>
+    ${lines.join('')}
+    <text x="60" y="${numbersTop - 20}" font-size="24" fill="#6b7280">${data.numbers.length === 1 ? 'Número' : 'Números'}</text>
+    ${chips.join('')}
+    <image href="${qrCode}" x="${(width - 220) / 2}" y="${qrTop}" width="220" height="220"/>
+    <text x="${width / 2}" y="${qrTop + 256}" font-size="16" fill="#6b7280" text-anchor="middle">Escaneie para confirmar a autenticidade</text>
+  </svg>`;
+
+  const resvg = new Resvg(svg, {
+    font: { fontFiles: [FONT_REGULAR, FONT_BOLD], loadSystemFonts: false, defaultFontFamily: 'DejaVu Sans' }
+  });
+  return resvg.render().asPng();
+}
@@ -0,0 +1,415 @@
+import express, { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import ExcelJS from 'exceljs';
+import { NumberModel } from './models/number.js';
+import { IPurchase, PurchaseModel, PaymentStatus, generateReceiptCode, isValidEmail, isValidPhone, normalizePhone } from './models/purchase.js';
+import { SellerModel } from './models/seller.js';
+import { findRaffle } from './models/raffle.js';
+import { salesFrozen } from './models/draw.js';
+import { requireAdmin } from './middleware/auth.js';
+import { purchaseAtomically } from './services/purchases.js';
+import { publishNumberChanges } from './services/numberEvents.js';
+import { purchaseSnapshot, recordAuditEvent } from './services/audit.js';
+import { notify } from './services/notifications.js';
+import { purchaseDetails } from './services/notificationTemplates.js';
+import { neutralizeFormula, parseCsv, restoreFormula, toCsv } from './utils/csv.js';
+import { publicBuyerName } from './utils/privacy.js';
+import { calculatePrice, priceRules } from '../shared/pricing.js';
+
+const router = express.Router();
+
+const HEADERS = ['Número', 'Comprador', 'Telefone', 'E-mail', 'Data', 'Pagamento', 'Vendedor'];
+
+const PAYMENT_LABELS: Record<PaymentStatus, string> = {
+  pending: 'Pendente',
+  paid: 'Pago',
+  cancelled: 'Cancelado'
+};
+
+interface ImportConflict {
+  line: number;
+  number: number | null;
+  reason: string;
+}
+
+interface ImportGroup {
+  buyerName: string;
+  phone: string;
+  email: string | null;
+  sellerId: mongoose.Types.ObjectId | null;
+  purchaseDate: Date;
+  paymentStatus: PaymentStatus;
+  numbers: number[];
+}
+
+// "Número" -> "numero", "E-mail" -> "email"
+function normalizeHeader(header: string): string {
+  return header.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z]/gi, '').toLowerCase();
+}
+
+// Dates in the spreadsheets are the buyers' wall-clock time, both ways
+const SPREADSHEET_TIMEZONE = 'America/Sao_Paulo';
+
+// Offset of the spreadsheet timezone from UTC at that instant, in minutes ("GMT-03:00" -> -180)
+function timezoneOffset(date: Date): number {
+  const name = new Intl.DateTimeFormat('en-US', { timeZone: SPREADSHEET_TIMEZONE, timeZoneName: 'longOffset' })
+    .formatToParts(date)
+    .find(part => part.type === 'timeZoneName')?.value ?? '';
+  const match = name.match(/([+-])(\d{2}):(\d{2})/);
+  return match ? (match[1] === '-' ? -1 : 1) * (Number(match[2]) * 60 + Number(match[3])) : 0;
+}
+
+// Accepts dd/mm/yyyy (optionally with hh:mm) in the spreadsheet timezone, or ISO dates
+function parseDate(value: string): Date | null {
+  const match = value.trim().match(/^(\d{2})\/(\d{2})\/(\d{4})(?:,?\s+(\d{2}):(\d{2}))?/);
+  let date = new Date(value);
+  if (match) {
+    const wallClock = Date.UTC(Number(match[3]), Number(match[2]) - 1, Number(match[1]), Number(match[4] ?? 0), Number(match[5] ?? 0));
+    date = new Date(wallClock - timezoneOffset(new Date(wallClock)) * 60 * 1000);
+  }
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function formatDate(date: Date | null): string {
+  return date ? date.toLocaleString('pt-BR', { timeZone: SPREADSHEET_TIMEZONE }) : '';
+}
+
+// Buyer-supplied text, kept from running as a formula in the XLSX export too
+function textCell(value: string | null | undefined): string | null {
+  return value ? neutralizeFormula(value) : null;
+}
+
+// One row per number of the raffle, with its order's details when sold
+async function buildExportRows(raffleId: mongoose.Types.ObjectId): Promise<(string | number | null)[][]> {
+  const [numbers, purchases] = await Promise.all([
+    NumberModel.find({ raffleId }).sort({ number: 1 }).populate('sellerId', 'name'),
+    PurchaseModel.find({ raffleId, paymentStatus: { $ne: 'cancelled' } })
+  ]);
+  const purchasesById = new Map(purchases.map(purchase => [purchase._id.toString(), purchase]));
+
+  return numbers.map(doc => {
+    const purchase = doc.purchaseId ? purchasesById.get(doc.purchaseId.toString()) : undefined;
+    return [
+      doc.number,
+      doc.isAvailable ? null : textCell(doc.purchasedBy),
+      textCell(purchase?.phone),
+      textCell(purchase?.email),
+      doc.isAvailable ? null : formatDate(doc.purchaseDate),
+      purchase ? PAYMENT_LABELS[purchase.paymentStatus as PaymentStatus] : null,
+      textCell(doc.sellerId?.name)
+    ];
+  });
+}
+
+router.use('/admin', requireAdmin);
+
+router.get('/admin/raffles/:raffleId/export.csv', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const raffle = await findRaffle(req.params.raffleId, { includeDrafts: true });
+    if (!raffle) {
+      res.status(404).json({
+        error: 'Raffle not found',
+        code: 'RAFFLE_NOT_FOUND',
+        message: 'Raffle does not exist',
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    const rows = await buildExportRows(raffle._id);
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="vendas-${raffle._id}.csv"`);
+    res.send(toCsv([HEADERS, ...rows]));
+  } catch (error) {
+    console.error('Error exporting CSV:', error);
+    res.status(500).json({
+      error: 'Error exporting CSV',
+      code: 'INTERNAL_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+router.get('/admin/raffles/:raffleId/export.xlsx', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const raffle = await findRaffle(req.params.raffleId, { includeDrafts: true });
+    if (!raffle) {
+      res.status(404).json({
+        error: 'Raffle not found',
+        code: 'RAFFLE_NOT_FOUND',
+        message: 'Raffle does not exist',
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    const workbook = new ExcelJS.Workbook();
+    const sheet = workbook.addWorksheet('Vendas');
+    sheet.addRow(HEADERS).font = { bold: true };
+    sheet.addRows(await buildExportRows(raffle._id));
+    sheet.columns.forEach(column => {
+      column.width = 18;
+    });
+
+    res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    res.setHeader('Content-Disposition', `attachment; filename="vendas-${raffle._id}.xlsx"`);
+    res.send(Buffer.from(await workbook.xlsx.writeBuffer()));
+  } catch (error) {
+    console.error('Error exporting XLSX:', error);
+    res.status(500).json({
+      error: 'Error exporting XLSX',
+      code: 'INTERNAL_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// Apply offline sales from a CSV in the export format; ?dryRun=true only reports what would happen
+router.post(
+  '/admin/raffles/:raffleId/import',
+  express.text({ type: ['text/csv', 'text/plain'], limit: '2mb' }),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const dryRun = req.query.dryRun === 'true' || req.query.dryRun === '1';
+
+      const raffle = await findRaffle(req.params.raffleId, { includeDrafts: true });
+      if (!raffle) {
+        res.status(404).json({
+          error: 'Raffle not found',
+          code: 'RAFFLE_NOT_FOUND',
+          message: 'Raffle does not exist',
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      if (await salesFrozen(raffle)) {
+        res.status(409).json({
+          error: 'Sales frozen',
+          code: 'SALES_FROZEN',
+          message: 'Sales cannot be imported once the draw seed is committed or sales are closed',
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      if (typeof req.body !== 'string' || req.body.trim() === '') {
+        res.status(400).json({
+          error: 'Invalid request',
+          code: 'VALIDATION_FAILED',
+          message: 'A CSV body is required',
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const [header, ...rows] = parseCsv(req.body);
+      const columns = header.map(normalizeHeader);
+      const column = (name: string) => columns.indexOf(name);
+      const indexes = {
+        number: column('numero'),
+        buyer: column('comprador'),
+        phone: column('telefone'),
+        email: column('email'),
+        date: column('data'),
+        payment: column('pagamento'),
+        seller: column('vendedor')
+      };
+
+      if (indexes.number === -1 || indexes.buyer === -1) {
+        res.status(400).json({
+          error: 'Invalid request',
+          code: 'VALIDATION_FAILED',
+          message: 'The CSV must have "Número" and "Comprador" columns',
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const [numberDocs, sellers] = await Promise.all([
+        NumberModel.find({ raffleId: raffle._id }),
+        SellerModel.find()
+      ]);
+      const numbersByValue = new Map(numberDocs.map(doc => [doc.number, doc]));
+      const sellersByName = new Map(sellers.map(seller => [seller.name.trim().toLowerCase(), seller]));
+
+      const conflicts: ImportConflict[] = [];
+      const groups = new Map<string, ImportGroup>();
+      const seen = new Set<number>();
+      const cell = (row: string[], index: number) => (index === -1 ? '' : restoreFormula((row[index] ?? '').trim()));
+
+      rows.forEach((row, i) => {
+        const line = i + 2;
+        const buyerName = cell(row, indexes.buyer);
+        // Rows without a buyer are unsold numbers from an export
+        if (!buyerName) {
+          return;
+        }
+
+        const number = Number(cell(row, indexes.number));
+        if (!Number.isInteger(number)) {
+          conflicts.push({ line, number: null, reason: `Invalid number "${cell(row, indexes.number)}"` });
+          return;
+        }
+
+        const doc = numbersByValue.get(number);
+        if (!doc) {
+          conflicts.push({ line, number, reason: 'Number does not exist in this raffle' });
+          return;
+        }
+        if (seen.has(number)) {
+          conflicts.push({ line, number, reason: 'Number appears more than once in the file' });
+          return;
+        }
+        seen.add(number);
+
+        if (!doc.isAvailable) {
+          // Re-importing an export: the same sale is already recorded
+          if (doc.purchasedBy?.trim().toLowerCase() === buyerName.toLowerCase()) {
+            return;
+          }
+          conflicts.push({ line, number, reason: `Already sold to ${doc.purchasedBy}` });
+          return;
+        }
+        if (doc.reservedUntil && doc.reservedUntil > new Date()) {
+          conflicts.push({ line, number, reason: 'Number is reserved by a buyer right now' });
+          return;
+        }
+
+        const phone = cell(row, indexes.phone);
+        if (phone && !isValidPhone(phone)) {
+          conflicts.push({ line, number, reason: `Invalid phone "${phone}"` });
+          return;
+        }
+
+        const email = cell(row, indexes.email);
+        if (email && !isValidEmail(email)) {
+          conflicts.push({ line, number, reason: `Invalid e-mail "${email}"` });
+          return;
+        }
+
+        const sellerName = cell(row, indexes.seller);
+        const seller = sellerName ? sellersByName.get(sellerName.toLowerCase()) : null;
+        if (sellerName && !seller) {
+          conflicts.push({ line, number, reason: `Unknown seller "${sellerName}"` });
+          return;
+        }
+
+        const dateValue = cell(row, indexes.date);
+        const purchaseDate = dateValue ? parseDate(dateValue) : new Date();
+        if (!purchaseDate) {
+          conflicts.push({ line, number, reason: `Invalid date "${dateValue}"` });
+          return;
+        }
+
+        const paymentStatus: PaymentStatus = /^(pago|paid)$/i.test(cell(row, indexes.payment)) ? 'paid' : 'pending';
+        const key = [buyerName.toLowerCase(), normalizePhone(phone), seller?._id ?? '', purchaseDate.toISOString(), paymentStatus].join('|');
+        const group: ImportGroup = groups.get(key) ?? {
+          buyerName,
+          phone: phone ? normalizePhone(phone) : '',
+          email: email ? email.toLowerCase() : null,
+          sellerId: seller?._id ?? null,
+          purchaseDate,
+          paymentStatus,
+          numbers: []
+        };
+        group.numbers.push(number);
+        groups.set(key, group);
+      });
+
+      // Imported sales get the raffle's bundle deals; promo codes only apply to online purchases
+      const purchases = [...groups.values()].map(group => {
+        const price = calculatePrice(raffle, group.numbers.length);
+        return {
+          ...group,
+          totalAmount: price.total,
+          subtotal: price.subtotal,
+          discount: price.discount,
+          promo: null,
+          pricing: priceRules(raffle)
+        };
+      });
+
+      if (!dryRun && conflicts.length > 0) {
+        res.status(409).json({
+          error: 'Import has conflicts',
+          code: 'IMPORT_CONFLICTS',
+          message: `${conflicts.length} line(s) conflict with the current sales`,
+          dryRun,
+          committed: false,
+          rows: rows.length,
+          purchases,
+          conflicts,
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      if (dryRun) {
+        res.json({
+          dryRun,
+          committed: false,
+          rows: rows.length,
+          purchases,
+          conflicts,
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const admin = res.locals.admin.username;
+      for (const group of purchases) {
+        const purchase: IPurchase & { _id: mongoose.Types.ObjectId } = {
+          _id: new mongoose.Types.ObjectId(),
+          raffleId: raffle._id,
+          ...group,
+          paidAt: group.paymentStatus === 'paid' ? new Date() : null,
+          pixTxid: null,
+          pixPayload: null,
+          lastChangedBy: admin,
+          lastChangedAt: new Date(),
+          receiptCode: generateReceiptCode()
+        };
+        const taken = await purchaseAtomically(purchase, null);
+        if (taken.length > 0) {
+          taken.forEach(number => conflicts.push({ line: 0, number, reason: 'Taken while importing' }));
+          continue;
+        }
+        publishNumberChanges(raffle._id, group.numbers, 'sold', {
+          displayName: publicBuyerName(group.buyerName, raffle.buyerNameDisplay)
+        });
+        await recordAuditEvent({
+          raffleId: raffle._id,
+          numbers: group.numbers,
+          purchaseId: purchase._id,
+          action: 'import',
+          actor: admin,
+          ip: req.ip,
+          after: purchaseSnapshot(purchase)
+        });
+        await notify('purchaseRecorded', purchaseDetails(purchase, raffle.title), [purchase]);
+      }
+
+      res.json({
+        dryRun,
+        committed: true,
+        rows: rows.length,
+        purchases,
+        conflicts,
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      console.error('Error importing sales:', error);
+      res.status(500).json({
+        error: 'Error importing sales',
+        code: 'INTERNAL_ERROR',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+);
+
+export default router;
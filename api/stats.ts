@@ -0,0 +1,148 @@
+import express, { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { NumberModel } from './models/number.js';
+import { PurchaseModel } from './models/purchase.js';
+import { SellerModel } from './models/seller.js';
+import { requireAdmin } from './middleware/auth.js';
+import { withRaffle } from './middleware/raffle.js';
+
+const router = express.Router({ mergeParams: true });
+
+// Sales are grouped by the buyers' calendar day
+const STATS_TIMEZONE = 'America/Sao_Paulo';
+
+const TOP_SELLERS = 5;
+
+interface StatsFacets {
+  counts: { total: number; sold: number; reserved: number }[];
+  salesPerDay: { _id: string; numbers: number }[];
+  topSellers: { _id: mongoose.Types.ObjectId; numbers: number; seller: { name: string }[] }[];
+}
+
+// Public progress of the raffle: how many numbers are sold and how many are left
+router.get('/stats', withRaffle, async (_req: Request, res: Response): Promise<void> => {
+  try {
+    const raffle = res.locals.raffle;
+    const now = new Date();
+
+    const [counts] = await NumberModel.aggregate<StatsFacets['counts'][number]>([
+      { $match: { raffleId: raffle._id } },
+      {
+        $group: {
+          _id: null,
+          total: { $sum: 1 },
+          sold: { $sum: { $cond: ['$isAvailable', 0, 1] } },
+          reserved: { $sum: { $cond: [{ $and: ['$isAvailable', { $gt: ['$reservedUntil', now] }] }, 1, 0] } }
+        }
+      }
+    ]);
+    const { total = 0, sold = 0, reserved = 0 } = counts ?? {};
+
+    res.json({
+      total,
+      sold,
+      available: total - sold - reserved,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error fetching stats:', error);
+    res.status(500).json({
+      error: 'Error fetching stats',
+      code: 'INTERNAL_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// Progress of the raffle for the admin: number counts, revenue against the goal, sales per day and top sellers
+router.get('/admin/raffles/:raffleId/stats', requireAdmin, withRaffle, async (_req: Request, res: Response): Promise<void> => {
+  try {
+    const raffle = res.locals.raffle;
+    const now = new Date();
+
+    // Revenue comes from the orders, which carry the charged totals after bundles and promo codes
+    const revenuePerDay = await PurchaseModel.aggregate<{ _id: string; revenue: number }>([
+      { $match: { raffleId: raffle._id, paymentStatus: { $ne: 'cancelled' } } },
+      {
+        $group: {
+          _id: { $dateToString: { format: '%Y-%m-%d', date: '$purchaseDate', timezone: STATS_TIMEZONE } },
+          revenue: { $sum: '$totalAmount' }
+        }
+      }
+    ]);
+    const revenueByDay = new Map(revenuePerDay.map(day => [day._id, day.revenue]));
+
+    const [facets] = await NumberModel.aggregate<StatsFacets>([
+      { $match: { raffleId: raffle._id } },
+      {
+        $facet: {
+          counts: [
+            {
+              $group: {
+                _id: null,
+                total: { $sum: 1 },
+                sold: { $sum: { $cond: ['$isAvailable', 0, 1] } },
+                reserved: { $sum: { $cond: [{ $and: ['$isAvailable', { $gt: ['$reservedUntil', now] }] }, 1, 0] } }
+              }
+            }
+          ],
+          salesPerDay: [
+            { $match: { isAvailable: false, purchaseDate: { $ne: null } } },
+            {
+              $group: {
+                _id: { $dateToString: { format: '%Y-%m-%d', date: '$purchaseDate', timezone: STATS_TIMEZONE } },
+                numbers: { $sum: 1 }
+              }
+            },
+            { $sort: { _id: 1 } }
+          ],
+          topSellers: [
+            { $match: { isAvailable: false, sellerId: { $ne: null } } },
+            { $group: { _id: '$sellerId', numbers: { $sum: 1 } } },
+            { $sort: { numbers: -1 } },
+            { $limit: TOP_SELLERS },
+            { $lookup: { from: SellerModel.collection.name, localField: '_id', foreignField: '_id', as: 'seller' } }
+          ]
+        }
+      }
+    ]);
+
+    const { total = 0, sold = 0, reserved = 0 } = facets.counts[0] ?? {};
+    const raised = Math.round(revenuePerDay.reduce((sum, day) => sum + day.revenue, 0) * 100) / 100;
+    const goal = raffle.revenueGoal ?? total * raffle.ticketPrice;
+
+    res.json({
+      total,
+      sold,
+      reserved,
+      available: total - sold - reserved,
+      revenue: {
+        raised,
+        goal,
+        percent: goal > 0 ? Math.min(100, Math.round((raised / goal) * 1000) / 10) : 0
+      },
+      salesPerDay: facets.salesPerDay.map(day => ({
+        date: day._id,
+        numbers: day.numbers,
+        revenue: revenueByDay.get(day._id) ?? 0
+      })),
+      topSellers: facets.topSellers.map(seller => ({
+        sellerId: seller._id,
+        name: seller.seller[0]?.name ?? null,
+        numbers: seller.numbers
+      })),
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error fetching stats:', error);
+    res.status(500).json({
+      error: 'Error fetching stats',
+      code: 'INTERNAL_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,61 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { neutralizeFormula, parseCsv, restoreFormula, toCsv } from './csv.js';
+
+describe('toCsv', () => {
+  test('starts with a BOM and ends every line with CRLF', () => {
+    assert.equal(toCsv([['a', 'b'], [1, null]]), '\uFEFFa;b\r\n1;\r\n');
+  });
+
+  test('quotes cells with the separator, quotes or line breaks', () => {
+    assert.equal(
+      toCsv([['Silva; Maria', 'Dito "Zé"', 'linha 1\nlinha 2', 'a,b']]),
+      '\uFEFF"Silva; Maria";"Dito ""Zé""";"linha 1\nlinha 2";a,b\r\n'
+    );
+    assert.equal(toCsv([['a,b']], ','), '\uFEFF"a,b"\r\n');
+  });
+
+  test('keeps text that looks like a formula as text', () => {
+    assert.equal(toCsv([['=HYPERLINK("x")', '+1+1', '-2', '@SUM(A1)', 'ok']]), '\uFEFF"\'=HYPERLINK(""x"")";\'+1+1;\'-2;\'@SUM(A1);ok\r\n');
+  });
+
+  test('leaves numbers alone, negative ones included', () => {
+    assert.equal(toCsv([[-5, 2.5]]), '\uFEFF-5;2.5\r\n');
+  });
+});
+
+describe('neutralizeFormula', () => {
+  test('prefixes every formula trigger', () => {
+    for (const value of ['=1', '+1', '-1', '@A1', '\t=1', '\r=1']) {
+      assert.equal(neutralizeFormula(value), `'${value}`);
+      assert.equal(restoreFormula(neutralizeFormula(value)), value);
+    }
+  });
+
+  test('leaves plain text and apostrophes of their own alone', () => {
+    assert.equal(neutralizeFormula('Maria'), 'Maria');
+    assert.equal(restoreFormula("'Maria"), "'Maria");
+  });
+});
+
+describe('parseCsv', () => {
+  test('detects the separator from the header', () => {
+    assert.deepEqual(parseCsv('a,b\n1,2\n'), [['a', 'b'], ['1', '2']]);
+    assert.deepEqual(parseCsv('a;b\r\n1;2'), [['a', 'b'], ['1', '2']]);
+  });
+
+  test('reads quoted cells and skips blank lines', () => {
+    assert.deepEqual(parseCsv('\uFEFFa;b\n"x;""y""";"1\n2"\n\n;\n'), [['a', 'b'], ['x;"y"', '1\n2']]);
+  });
+
+  test('round-trips what toCsv writes', () => {
+    const rows = [
+      ['Número', 'Comprador', 'Observação'],
+      ['1', 'Silva; Maria', 'Dito "Zé"\ncom quebra'],
+      ['2', '=HYPERLINK("http://x")', '-3'],
+      ['3', '@SUM(A1)', "'já com apóstrofo"]
+    ];
+    const parsed = parseCsv(toCsv(rows)).map(row => row.map(restoreFormula));
+    assert.deepEqual(parsed, rows);
+  });
+});
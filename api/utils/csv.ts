@@ -0,0 +1,72 @@
+// Minimal RFC 4180 CSV support; spreadsheets in pt-BR use ";" as the separator
+
+// Text that spreadsheets would run as a formula ("=HYPERLINK(...)", "+1+1", "@SUM(...)") is prefixed with ' so it stays text
+export function neutralizeFormula(value: string): string {
+  return /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+}
+
+// Undo neutralizeFormula on cells read back from an export
+export function restoreFormula(value: string): string {
+  return /^'[=+\-@\t\r]/.test(value) ? value.slice(1) : value;
+}
+
+function escapeCell(value: string, separator: string): string {
+  return /["\r\n]/.test(value) || value.includes(separator) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// CSV text with a BOM so Excel detects UTF-8; text cells are neutralized against formula injection
+export function toCsv(rows: (string | number | null)[][], separator = ';'): string {
+  const lines = rows.map(row => row.map(cell => escapeCell(
+    cell === null ? '' : typeof cell === 'string' ? neutralizeFormula(cell) : String(cell),
+    separator
+  )).join(separator));
+  return `\uFEFF${lines.join('\r\n')}\r\n`;
+}
+
+// Parse CSV text, detecting "," or ";" from the header line
+export function parseCsv(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.split(/\r?\n/, 1)[0] ?? '';
+  const separator = (firstLine.match(/;/g)?.length ?? 0) >= (firstLine.match(/,/g)?.length ?? 0) ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === separator) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+}
@@ -0,0 +1,36 @@
+import { createHmac, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+
+// Hash a secret as "salt:hash" using scrypt
+export async function hashSecret(secret: string): Promise<string> {
+  const salt = randomBytes(16).toString('hex');
+  const hash = await scryptAsync(secret, salt, KEY_LENGTH);
+  return `${salt}:${hash.toString('hex')}`;
+}
+
+// Compare a secret against a hash produced by hashSecret
+export async function verifySecret(secret: string, stored: string): Promise<boolean> {
+  const [salt, hash] = stored.split(':');
+  if (!salt || !hash) {
+    return false;
+  }
+  const expected = Buffer.from(hash, 'hex');
+  const actual = await scryptAsync(secret, salt, expected.length);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// Constant-time comparison of two shared secrets
+export function safeEqual(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB);
+}
+
+// Deterministic keyed digest of a secret, to find its record by an indexed field before the scrypt check
+export function lookupHash(secret: string, key: string): string {
+  return createHmac('sha256', key).update(secret).digest('hex');
+}
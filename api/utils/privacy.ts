@@ -0,0 +1,20 @@
+import { BuyerNameDisplay } from '../models/raffle.js';
+
+// "Maria da Silva Santos" -> "Maria S."
+export function maskBuyerName(name: string): string {
+  const parts = name.trim().split(/\s+/).filter(Boolean);
+  if (parts.length === 0) {
+    return '';
+  }
+  const [first, ...rest] = parts;
+  const last = rest[rest.length - 1];
+  return last ? `${first} ${last.charAt(0).toUpperCase()}.` : first;
+}
+
+// Buyer name as shown to the public, following the raffle's setting
+export function publicBuyerName(name: string | null | undefined, display: BuyerNameDisplay): string | null {
+  if (!name || display === 'hidden') {
+    return null;
+  }
+  return maskBuyerName(name);
+}
@@ -0,0 +1,64 @@
+// Mantém a aplicação abrindo sem conexão; os dados da rifa ficam no IndexedDB (src/services/offline.ts)
+const CACHE = 'rifa-shell-v1'
+const SHELL = ['/', '/index.html']
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(caches.open(CACHE).then(cache => cache.addAll(SHELL)).then(() => self.skipWaiting()))
+})
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== CACHE).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  )
+})
+
+async function networkFirst(request, fallback) {
+  const cache = await caches.open(CACHE)
+  try {
+    const response = await fetch(request)
+    if (response.ok) {
+      cache.put(fallback ?? request, response.clone())
+    }
+    return response
+  } catch (error) {
+    const cached = await cache.match(fallback ?? request)
+    if (cached) {
+      return cached
+    }
+    throw error
+  }
+}
+
+// Os arquivos de /assets têm hash no nome, então a cópia salva nunca fica velha
+async function cacheFirst(request) {
+  const cache = await caches.open(CACHE)
+  const cached = await cache.match(request)
+  if (cached) {
+    return cached
+  }
+  const response = await fetch(request)
+  if (response.ok) {
+    cache.put(request, response.clone())
+  }
+  return response
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event
+  const url = new URL(request.url)
+  // A API nunca passa pelo cache: compras e reservas precisam do servidor
+  if (request.method !== 'GET' || url.origin !== self.location.origin || url.pathname.startsWith('/api/')) {
+    return
+  }
+
+  if (request.mode === 'navigate') {
+    // Todas as rotas do React abrem o mesmo index.html
+    event.respondWith(networkFirst(request, '/index.html'))
+  } else if (url.pathname.startsWith('/assets/')) {
+    event.respondWith(cacheFirst(request))
+  } else {
+    event.respondWith(networkFirst(request))
+  }
+})
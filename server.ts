@@ -1,34 +1,28 @@
-import app from './api/index.js';
-import mongoose from 'mongoose';
+import { config } from './api/config.js';
+import { createApp } from './api/app.js';
+import { initializeDatabase } from './api/db.js';
+import { wakeOutbox } from './api/services/notifications.js';
 
-const PORT = process.env.PORT || 3001;
+// Intervalo para reenviar as notificações pendentes
+const OUTBOX_INTERVAL_MS = 60 * 1000;
 
 // Função para iniciar o servidor
 async function startServer() {
   try {
-    // Aguardar a conexão com o MongoDB
-    if (mongoose.connection.readyState === 0) {
-      console.log('Waiting for MongoDB connection...');
-      await new Promise(resolve => {
-        const checkConnection = () => {
-          if (mongoose.connection.readyState === 1) {
-            resolve(true);
-          } else {
-            setTimeout(checkConnection, 1000);
-          }
-        };
-        checkConnection();
-      });
-    }
+    // Conectar, migrar e popular o banco antes de aceitar requisições
+    await initializeDatabase();
 
     // Iniciar o servidor
-    app.listen(PORT, () => {
-      console.log(`Server is running on port ${PORT}`);
+    createApp().listen(config.PORT, () => {
+      console.log(`Server is running on port ${config.PORT}`);
     });
+
+    // No Vercel quem faz isso é o cron do vercel.json; aqui o servidor fica de pé
+    setInterval(wakeOutbox, OUTBOX_INTERVAL_MS);
   } catch (error) {
     console.error('Failed to start server:', error);
     process.exit(1);
   }
 }
 
-startServer(); 
\ No newline at end of file
+startServer();
@@ -0,0 +1,260 @@
+import * as yup from 'yup';
+import { purchaseSchema, quoteSchema, reserveSchema } from './schemas.js';
+import { PROMO_KINDS } from './pricing.js';
+
+// API contract shared by the server, the frontend client and the OpenAPI document.
+// Request bodies reuse the validation schemas; responses are described the same way
+// so the TypeScript types and the published document can't drift apart.
+
+// Every error response carries one of these codes; clients branch on the code, never on the text
+export const ERROR_CODES = [
+  'VALIDATION_FAILED',
+  'INVALID_NUMBERS',
+  'INVALID_RECEIPT',
+  'INVALID_SELLER_CODE',
+  'INVALID_PROMO_CODE',
+  'INVALID_CREDENTIALS',
+  'UNAUTHORIZED',
+  'RAFFLE_NOT_FOUND',
+  'PURCHASE_NOT_FOUND',
+  'SELLER_NOT_FOUND',
+  'NUMBER_NOT_FOUND',
+  'NOTIFICATION_NOT_FOUND',
+  'PROMO_CODE_NOT_FOUND',
+  'DRAW_NOT_FOUND',
+  'NUMBERS_UNAVAILABLE',
+  'RAFFLE_NOT_OPEN',
+  'RAFFLE_NOT_CLOSED',
+  'PURCHASE_CANCELLED',
+  'NUMBER_NOT_SOLD',
+  'NO_NUMBERS_SOLD',
+  'NOT_ENOUGH_NUMBERS_SOLD',
+  'PRIZES_LOCKED',
+  'IMPORT_CONFLICTS',
+  'DRAW_NOT_COMMITTED',
+  'DRAW_ALREADY_COMMITTED',
+  'DRAW_ALREADY_DONE',
+  'DRAW_IN_PROGRESS',
+  'SALES_FROZEN',
+  'REQUEST_IN_PROGRESS',
+  'IDEMPOTENCY_KEY_REUSED',
+  'TOO_MANY_REQUESTS',
+  'INTERNAL_ERROR',
+  'SERVICE_UNAVAILABLE'
+] as const;
+
+export type ErrorCode = typeof ERROR_CODES[number];
+
+export const ERROR_STATUS: Record<ErrorCode, number> = {
+  VALIDATION_FAILED: 400,
+  INVALID_NUMBERS: 400,
+  INVALID_RECEIPT: 400,
+  INVALID_SELLER_CODE: 401,
+  INVALID_PROMO_CODE: 400,
+  INVALID_CREDENTIALS: 401,
+  UNAUTHORIZED: 401,
+  RAFFLE_NOT_FOUND: 404,
+  PURCHASE_NOT_FOUND: 404,
+  SELLER_NOT_FOUND: 404,
+  NUMBER_NOT_FOUND: 404,
+  NOTIFICATION_NOT_FOUND: 404,
+  PROMO_CODE_NOT_FOUND: 404,
+  DRAW_NOT_FOUND: 404,
+  NUMBERS_UNAVAILABLE: 409,
+  RAFFLE_NOT_OPEN: 409,
+  RAFFLE_NOT_CLOSED: 409,
+  PURCHASE_CANCELLED: 409,
+  NUMBER_NOT_SOLD: 409,
+  NO_NUMBERS_SOLD: 409,
+  NOT_ENOUGH_NUMBERS_SOLD: 409,
+  PRIZES_LOCKED: 409,
+  IMPORT_CONFLICTS: 409,
+  DRAW_NOT_COMMITTED: 409,
+  DRAW_ALREADY_COMMITTED: 409,
+  DRAW_ALREADY_DONE: 409,
+  DRAW_IN_PROGRESS: 409,
+  SALES_FROZEN: 409,
+  REQUEST_IN_PROGRESS: 409,
+  IDEMPOTENCY_KEY_REUSED: 422,
+  TOO_MANY_REQUESTS: 429,
+  INTERNAL_ERROR: 500,
+  SERVICE_UNAVAILABLE: 503
+};
+
+export interface FieldError {
+  path: string | null;
+  type: string | null;
+  message: string;
+}
+
+// Shape of every error response; the optional fields appear with the codes that use them
+export interface ApiErrorBody {
+  error: string;
+  code: ErrorCode;
+  message: string;
+  timestamp: string;
+  // VALIDATION_FAILED
+  fields?: FieldError[];
+  // NUMBERS_UNAVAILABLE
+  numbers?: number[];
+  // TOO_MANY_REQUESTS, in seconds
+  retryAfter?: number;
+}
+
+export const errorSchema = yup.object({
+  error: yup.string().required(),
+  code: yup.string().oneOf(ERROR_CODES).required(),
+  message: yup.string().required(),
+  timestamp: yup.string().required(),
+  fields: yup.array().of(yup.object({
+    path: yup.string().nullable().defined(),
+    type: yup.string().nullable().defined(),
+    message: yup.string().required()
+  })),
+  numbers: yup.array().of(yup.number().integer().required()),
+  retryAfter: yup.number().integer()
+});
+
+// Number as shown to the public; the buyer name comes masked or omitted
+export const publicNumberSchema = yup.object({
+  number: yup.number().integer().required(),
+  isAvailable: yup.boolean().required(),
+  reservedUntil: yup.string().nullable().defined(),
+  displayName: yup.string().nullable().defined()
+});
+
+export const reserveResponseSchema = yup.object({
+  message: yup.string().required(),
+  token: yup.string().required(),
+  reserved: yup.array().of(yup.number().integer().required()).required(),
+  expiresAt: yup.string().required(),
+  timestamp: yup.string().required()
+});
+
+// Mirrors PriceBreakdown in shared/pricing.ts
+export const priceBreakdownSchema = yup.object({
+  quantity: yup.number().integer().required(),
+  unitPrice: yup.number().required(),
+  subtotal: yup.number().required(),
+  bundles: yup.array().of(yup.object({
+    quantity: yup.number().integer().required(),
+    price: yup.number().required(),
+    times: yup.number().integer().required()
+  })).required(),
+  bundleDiscount: yup.number().required(),
+  promo: yup.object({
+    code: yup.string().required(),
+    kind: yup.string().oneOf(PROMO_KINDS).required(),
+    value: yup.number().required()
+  }).nullable().defined(),
+  promoDiscount: yup.number().required(),
+  discount: yup.number().required(),
+  total: yup.number().required()
+});
+
+export const purchaseResponseSchema = yup.object({
+  message: yup.string().required(),
+  purchaseId: yup.string().required(),
+  receiptCode: yup.string().required(),
+  numbers: yup.array().of(yup.number().integer().required()).required(),
+  buyer: yup.string().required(),
+  phone: yup.string().required(),
+  email: yup.string().nullable().defined(),
+  subtotal: yup.number().required(),
+  discount: yup.number().required(),
+  promoCode: yup.string().nullable().defined(),
+  totalAmount: yup.number().required(),
+  paymentStatus: yup.string().oneOf(['pending', 'paid', 'cancelled'] as const).required(),
+  purchaseDate: yup.string().required(),
+  seller: yup.object({
+    id: yup.string().required(),
+    name: yup.string().required()
+  }).required(),
+  pix: yup.object({
+    payload: yup.string().required(),
+    qrCode: yup.string().required()
+  }).nullable().defined(),
+  timestamp: yup.string().required()
+});
+
+export const healthSchema = yup.object({
+  status: yup.string().required(),
+  timestamp: yup.string().required(),
+  dbStatus: yup.string().oneOf(['connected', 'disconnected'] as const).required(),
+  database: yup.string().required()
+});
+
+export type PublicNumber = yup.InferType<typeof publicNumberSchema>;
+export type ReserveRequest = yup.InferType<typeof reserveSchema>;
+export type ReserveResponse = yup.InferType<typeof reserveResponseSchema>;
+export type PurchaseRequest = yup.InferType<typeof purchaseSchema>;
+export type PurchaseResponse = yup.InferType<typeof purchaseResponseSchema>;
+export type QuoteRequest = yup.InferType<typeof quoteSchema>;
+export type HealthResponse = yup.InferType<typeof healthSchema>;
+
+export interface ApiOperation {
+  method: 'get' | 'post';
+  path: string;
+  summary: string;
+  headers?: { name: string; description: string }[];
+  request?: yup.AnyObjectSchema;
+  response: yup.Schema;
+  // Error codes this operation may answer with, besides INTERNAL_ERROR and SERVICE_UNAVAILABLE
+  errors: ErrorCode[];
+}
+
+// Paths are relative to /api; {raffleId} routes also answer without it for the current raffle
+export const API_OPERATIONS: ApiOperation[] = [
+  {
+    method: 'get',
+    path: '/health',
+    summary: 'Service and database status',
+    response: healthSchema,
+    errors: []
+  },
+  {
+    method: 'get',
+    path: '/raffles/{raffleId}/numbers',
+    summary: 'Every number of the raffle with its public state',
+    response: yup.array().of(publicNumberSchema).required(),
+    errors: ['RAFFLE_NOT_FOUND']
+  },
+  {
+    method: 'post',
+    path: '/raffles/{raffleId}/numbers/reserve',
+    summary: 'Hold the whole selection of a buyer during checkout',
+    request: reserveSchema,
+    response: reserveResponseSchema,
+    errors: ['TOO_MANY_REQUESTS', 'RAFFLE_NOT_FOUND', 'RAFFLE_NOT_OPEN', 'VALIDATION_FAILED', 'NUMBERS_UNAVAILABLE']
+  },
+  {
+    method: 'post',
+    path: '/raffles/{raffleId}/price',
+    summary: 'Price a selection with the bundle deals and an optional promo code',
+    request: quoteSchema,
+    response: priceBreakdownSchema,
+    errors: ['TOO_MANY_REQUESTS', 'RAFFLE_NOT_FOUND', 'VALIDATION_FAILED', 'INVALID_PROMO_CODE']
+  },
+  {
+    method: 'post',
+    path: '/raffles/{raffleId}/numbers/purchase',
+    summary: 'Buy numbers with a seller code',
+    headers: [
+      { name: 'Idempotency-Key', description: 'Client-chosen key; retries with the same key replay the first response' }
+    ],
+    request: purchaseSchema,
+    response: purchaseResponseSchema,
+    errors: [
+      'TOO_MANY_REQUESTS',
+      'RAFFLE_NOT_FOUND',
+      'RAFFLE_NOT_OPEN',
+      'VALIDATION_FAILED',
+      'INVALID_SELLER_CODE',
+      'INVALID_PROMO_CODE',
+      'INVALID_NUMBERS',
+      'NUMBERS_UNAVAILABLE',
+      'REQUEST_IN_PROGRESS',
+      'IDEMPOTENCY_KEY_REUSED'
+    ]
+  }
+];
@@ -0,0 +1,55 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { interpolate, negotiateLocale } from './i18n.js';
+import { errorMessage, validationMessage } from './messages.js';
+
+describe('negotiateLocale', () => {
+  test('falls back to pt-BR without preferences', () => {
+    assert.equal(negotiateLocale(undefined), 'pt-BR');
+    assert.equal(negotiateLocale(''), 'pt-BR');
+    assert.equal(negotiateLocale('*'), 'pt-BR');
+    assert.equal(negotiateLocale('fr-FR,de;q=0.8'), 'pt-BR');
+  });
+
+  test('tries the ranges by quality, then in the order sent', () => {
+    assert.equal(negotiateLocale('en;q=0.5,es;q=0.9'), 'es');
+    assert.equal(negotiateLocale('fr,en;q=0.8,es;q=0.8'), 'en');
+    assert.equal(negotiateLocale('es;q=0,en;q=0.1'), 'en');
+  });
+
+  test('matches the same language in another region', () => {
+    assert.equal(negotiateLocale('es-AR,es;q=0.9'), 'es');
+    assert.equal(negotiateLocale('pt'), 'pt-BR');
+    assert.equal(negotiateLocale('pt-PT'), 'pt-BR');
+    assert.equal(negotiateLocale('EN-us'), 'en');
+  });
+
+  test('takes a list of tags such as navigator.languages', () => {
+    assert.equal(negotiateLocale(['fr-FR', 'es-MX', 'en']), 'es');
+  });
+});
+
+describe('interpolate', () => {
+  test('fills the known placeholders and leaves the rest', () => {
+    assert.equal(interpolate('{sold} de {total}', { sold: 3 }), '3 de {total}');
+  });
+});
+
+describe('messages', () => {
+  test('translates error messages by code', () => {
+    const body = { error: 'Raffle not found', code: 'RAFFLE_NOT_FOUND', message: 'Raffle does not exist', timestamp: '' } as const;
+    assert.equal(errorMessage('pt-BR', body), 'Rifa não encontrada');
+    assert.equal(errorMessage('en', body), 'Raffle not found');
+    assert.equal(errorMessage('es', body), 'Rifa no encontrada');
+  });
+
+  test('uses the details of the body', () => {
+    const body = { error: 'Too many requests', code: 'TOO_MANY_REQUESTS', message: '', timestamp: '', retryAfter: 150 } as const;
+    assert.equal(errorMessage('en', body), 'Too many attempts. Try again in 3 minute(s)');
+  });
+
+  test('translates validation keys with their parameters', () => {
+    assert.equal(validationMessage('es', 'NUMBERS_TOO_MANY', { max: 100 }), 'Elige como máximo 100 números');
+    assert.equal(validationMessage('en', 'Some free text'), 'Some free text');
+  });
+});
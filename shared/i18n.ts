@@ -0,0 +1,52 @@
+// Languages of the interface and of the API messages. pt-BR is the default and the fallback,
+// since the raffles are run in Brazil; prices are always in reais, whatever the language.
+
+export const LOCALES = ['pt-BR', 'en', 'es'] as const;
+
+export type Locale = typeof LOCALES[number];
+
+export const DEFAULT_LOCALE: Locale = 'pt-BR';
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && (LOCALES as readonly string[]).includes(value);
+}
+
+// A language tag as one of ours: an exact match, or the same language in another region ("pt-PT", "en-US")
+function matchLocale(tag: string): Locale | null {
+  const lower = tag.trim().toLowerCase();
+  const exact = LOCALES.find(locale => locale.toLowerCase() === lower);
+  if (exact) {
+    return exact;
+  }
+  const language = lower.split('-')[0];
+  return LOCALES.find(locale => locale.toLowerCase().split('-')[0] === language) ?? null;
+}
+
+// Best locale for an Accept-Language header ("es-AR,es;q=0.9,en;q=0.8") or a list of
+// preferred tags such as navigator.languages; ranges are tried by quality, then in order
+export function negotiateLocale(preferences: string | readonly string[] | null | undefined): Locale {
+  const ranges = typeof preferences === 'string'
+    ? preferences.split(',').map((range, index) => {
+      const [tag, ...params] = range.split(';');
+      const q = params.map(param => param.trim()).find(param => param.startsWith('q='));
+      return { tag: tag.trim(), quality: q ? Number(q.slice(2)) : 1, index };
+    })
+    : (preferences ?? []).map((tag, index) => ({ tag, quality: 1, index }));
+
+  const ordered = ranges
+    .filter(range => range.tag && range.tag !== '*' && range.quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index);
+  for (const range of ordered) {
+    const locale = matchLocale(range.tag);
+    if (locale) {
+      return locale;
+    }
+  }
+  return DEFAULT_LOCALE;
+}
+
+// Fill {name} placeholders; unknown names are left as they are
+export function interpolate(template: string, params: Record<string, unknown> = {}): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    params[name] === undefined || params[name] === null ? placeholder : String(params[name]));
+}
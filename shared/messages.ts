@@ -0,0 +1,320 @@
+import { ApiErrorBody, ErrorCode } from './api.js';
+import { DEFAULT_LOCALE, Locale, interpolate } from './i18n.js';
+
+// Texts the API and the frontend show for the same thing: validation failures and error codes.
+// The schemas and the routes only deal in keys and codes; each side translates them to the
+// language of whoever is reading (Accept-Language on the API, the chosen language on the frontend).
+
+// Messages the validation schemas fail with, as keys (see shared/schemas.ts)
+export const VALIDATION_MESSAGES = [
+  'NUMBER_INVALID',
+  'NUMBERS_REQUIRED',
+  'NUMBERS_EMPTY',
+  'NUMBERS_OUT_OF_RANGE',
+  'NUMBERS_TOO_MANY',
+  'BUYER_REQUIRED',
+  'BUYER_NAME_REQUIRED',
+  'PHONE_INVALID',
+  'EMAIL_INVALID',
+  'SELLER_CODE_REQUIRED',
+  'PAYMENT_STATUS_INVALID',
+  'PRICE_INVALID',
+  'TICKET_PRICE_REQUIRED',
+  'BUNDLE_QUANTITY_INVALID',
+  'BUNDLE_TOO_SMALL',
+  'BUNDLE_QUANTITY_REQUIRED',
+  'BUNDLE_PRICE_REQUIRED',
+  'BUNDLE_DUPLICATE',
+  'PROMO_CODE_REQUIRED',
+  'PROMO_CODE_FORMAT',
+  'PROMO_KIND_INVALID',
+  'PROMO_KIND_REQUIRED',
+  'DISCOUNT_INVALID',
+  'DISCOUNT_REQUIRED',
+  'DISCOUNT_OVER_100',
+  'DATE_INVALID',
+  'EXPIRES_BEFORE_START',
+  'MAX_USES_INVALID',
+  'PRIZE_INVALID',
+  'PRIZE_NAME_REQUIRED',
+  'PRIZE_IMAGE_INVALID',
+  'PRIZE_ORDER_INVALID',
+  'PRIZES_TOO_MANY',
+  'PRIZES_REQUIRED',
+  'RAFFLE_TITLE_REQUIRED',
+  'NUMBER_RANGE_INVALID',
+  'NUMBER_RANGE_TOO_LARGE',
+  'RAFFLE_STATUS_INVALID',
+  'BUYER_NAME_DISPLAY_INVALID',
+  'REVENUE_GOAL_INVALID'
+] as const;
+
+export type ValidationMessage = typeof VALIDATION_MESSAGES[number];
+
+// {numbers} and {max} are filled from the params of the failing test
+const VALIDATION_TEXTS: Record<Locale, Record<ValidationMessage, string>> = {
+  'pt-BR': {
+    NUMBER_INVALID: 'Número inválido',
+    NUMBERS_REQUIRED: 'Selecione os números',
+    NUMBERS_EMPTY: 'Selecione pelo menos um número',
+    NUMBERS_OUT_OF_RANGE: 'Números fora da rifa: {numbers}',
+    NUMBERS_TOO_MANY: 'Escolha no máximo {max} números',
+    BUYER_REQUIRED: 'Informe seu nome',
+    BUYER_NAME_REQUIRED: 'Informe o nome do comprador',
+    PHONE_INVALID: 'Informe um telefone válido com DDD',
+    EMAIL_INVALID: 'Informe um e-mail válido',
+    SELLER_CODE_REQUIRED: 'Informe o código do vendedor',
+    PAYMENT_STATUS_INVALID: 'Situação de pagamento inválida',
+    PRICE_INVALID: 'Preço inválido',
+    TICKET_PRICE_REQUIRED: 'Informe o preço do número',
+    BUNDLE_QUANTITY_INVALID: 'Quantidade inválida',
+    BUNDLE_TOO_SMALL: 'Um pacote tem pelo menos 2 números',
+    BUNDLE_QUANTITY_REQUIRED: 'Informe a quantidade do pacote',
+    BUNDLE_PRICE_REQUIRED: 'Informe o preço do pacote',
+    BUNDLE_DUPLICATE: 'Já existe um pacote com essa quantidade',
+    PROMO_CODE_REQUIRED: 'Informe o código',
+    PROMO_CODE_FORMAT: 'Use de 3 a 20 letras, números, - ou _',
+    PROMO_KIND_INVALID: 'Tipo de desconto inválido',
+    PROMO_KIND_REQUIRED: 'Informe o tipo de desconto',
+    DISCOUNT_INVALID: 'Desconto inválido',
+    DISCOUNT_REQUIRED: 'Informe o desconto',
+    DISCOUNT_OVER_100: 'O desconto vai até 100%',
+    DATE_INVALID: 'Data inválida',
+    EXPIRES_BEFORE_START: 'O fim deve ser depois do início',
+    MAX_USES_INVALID: 'Limite inválido',
+    PRIZE_INVALID: 'Prêmio inválido',
+    PRIZE_NAME_REQUIRED: 'Informe o nome do prêmio',
+    PRIZE_IMAGE_INVALID: 'Informe um endereço de imagem válido',
+    PRIZE_ORDER_INVALID: 'Ordem inválida',
+    PRIZES_TOO_MANY: 'Cadastre no máximo 50 prêmios',
+    PRIZES_REQUIRED: 'Informe os prêmios',
+    RAFFLE_TITLE_REQUIRED: 'Informe o título da rifa',
+    NUMBER_RANGE_INVALID: 'Informe uma faixa de números válida',
+    NUMBER_RANGE_TOO_LARGE: 'Uma rifa tem no máximo 100000 números',
+    RAFFLE_STATUS_INVALID: 'Situação da rifa inválida',
+    BUYER_NAME_DISPLAY_INVALID: 'Exibição do nome inválida',
+    REVENUE_GOAL_INVALID: 'Meta de arrecadação inválida'
+  },
+  en: {
+    NUMBER_INVALID: 'Invalid number',
+    NUMBERS_REQUIRED: 'Select the numbers',
+    NUMBERS_EMPTY: 'Select at least one number',
+    NUMBERS_OUT_OF_RANGE: 'Numbers outside the raffle: {numbers}',
+    NUMBERS_TOO_MANY: 'Choose at most {max} numbers',
+    BUYER_REQUIRED: 'Enter your name',
+    BUYER_NAME_REQUIRED: 'Enter the buyer name',
+    PHONE_INVALID: 'Enter a valid phone number with area code',
+    EMAIL_INVALID: 'Enter a valid e-mail',
+    SELLER_CODE_REQUIRED: 'Enter the seller code',
+    PAYMENT_STATUS_INVALID: 'Invalid payment status',
+    PRICE_INVALID: 'Invalid price',
+    TICKET_PRICE_REQUIRED: 'Enter the price per number',
+    BUNDLE_QUANTITY_INVALID: 'Invalid quantity',
+    BUNDLE_TOO_SMALL: 'A bundle has at least 2 numbers',
+    BUNDLE_QUANTITY_REQUIRED: 'Enter the bundle quantity',
+    BUNDLE_PRICE_REQUIRED: 'Enter the bundle price',
+    BUNDLE_DUPLICATE: 'There is already a bundle with this quantity',
+    PROMO_CODE_REQUIRED: 'Enter the code',
+    PROMO_CODE_FORMAT: 'Use 3 to 20 letters, digits, - or _',
+    PROMO_KIND_INVALID: 'Invalid discount type',
+    PROMO_KIND_REQUIRED: 'Enter the discount type',
+    DISCOUNT_INVALID: 'Invalid discount',
+    DISCOUNT_REQUIRED: 'Enter the discount',
+    DISCOUNT_OVER_100: 'The discount goes up to 100%',
+    DATE_INVALID: 'Invalid date',
+    EXPIRES_BEFORE_START: 'The end must be after the start',
+    MAX_USES_INVALID: 'Invalid limit',
+    PRIZE_INVALID: 'Invalid prize',
+    PRIZE_NAME_REQUIRED: 'Enter the prize name',
+    PRIZE_IMAGE_INVALID: 'Enter a valid image address',
+    PRIZE_ORDER_INVALID: 'Invalid order',
+    PRIZES_TOO_MANY: 'Add at most 50 prizes',
+    PRIZES_REQUIRED: 'Enter the prizes',
+    RAFFLE_TITLE_REQUIRED: 'Enter the raffle title',
+    NUMBER_RANGE_INVALID: 'Enter a valid number range',
+    NUMBER_RANGE_TOO_LARGE: 'A raffle has at most 100000 numbers',
+    RAFFLE_STATUS_INVALID: 'Invalid raffle status',
+    BUYER_NAME_DISPLAY_INVALID: 'Invalid buyer name display',
+    REVENUE_GOAL_INVALID: 'Invalid revenue goal'
+  },
+  es: {
+    NUMBER_INVALID: 'Número inválido',
+    NUMBERS_REQUIRED: 'Selecciona los números',
+    NUMBERS_EMPTY: 'Selecciona al menos un número',
+    NUMBERS_OUT_OF_RANGE: 'Números fuera de la rifa: {numbers}',
+    NUMBERS_TOO_MANY: 'Elige como máximo {max} números',
+    BUYER_REQUIRED: 'Ingresa tu nombre',
+    BUYER_NAME_REQUIRED: 'Ingresa el nombre del comprador',
+    PHONE_INVALID: 'Ingresa un teléfono válido con código de área',
+    EMAIL_INVALID: 'Ingresa un correo electrónico válido',
+    SELLER_CODE_REQUIRED: 'Ingresa el código del vendedor',
+    PAYMENT_STATUS_INVALID: 'Estado de pago inválido',
+    PRICE_INVALID: 'Precio inválido',
+    TICKET_PRICE_REQUIRED: 'Ingresa el precio por número',
+    BUNDLE_QUANTITY_INVALID: 'Cantidad inválida',
+    BUNDLE_TOO_SMALL: 'Un paquete tiene al menos 2 números',
+    BUNDLE_QUANTITY_REQUIRED: 'Ingresa la cantidad del paquete',
+    BUNDLE_PRICE_REQUIRED: 'Ingresa el precio del paquete',
+    BUNDLE_DUPLICATE: 'Ya existe un paquete con esa cantidad',
+    PROMO_CODE_REQUIRED: 'Ingresa el código',
+    PROMO_CODE_FORMAT: 'Usa de 3 a 20 letras, números, - o _',
+    PROMO_KIND_INVALID: 'Tipo de descuento inválido',
+    PROMO_KIND_REQUIRED: 'Ingresa el tipo de descuento',
+    DISCOUNT_INVALID: 'Descuento inválido',
+    DISCOUNT_REQUIRED: 'Ingresa el descuento',
+    DISCOUNT_OVER_100: 'El descuento llega hasta el 100%',
+    DATE_INVALID: 'Fecha inválida',
+    EXPIRES_BEFORE_START: 'El fin debe ser posterior al inicio',
+    MAX_USES_INVALID: 'Límite inválido',
+    PRIZE_INVALID: 'Premio inválido',
+    PRIZE_NAME_REQUIRED: 'Ingresa el nombre del premio',
+    PRIZE_IMAGE_INVALID: 'Ingresa una dirección de imagen válida',
+    PRIZE_ORDER_INVALID: 'Orden inválido',
+    PRIZES_TOO_MANY: 'Registra como máximo 50 premios',
+    PRIZES_REQUIRED: 'Ingresa los premios',
+    RAFFLE_TITLE_REQUIRED: 'Ingresa el título de la rifa',
+    NUMBER_RANGE_INVALID: 'Ingresa un rango de números válido',
+    NUMBER_RANGE_TOO_LARGE: 'Una rifa tiene como máximo 100000 números',
+    RAFFLE_STATUS_INVALID: 'Estado de la rifa inválido',
+    BUYER_NAME_DISPLAY_INVALID: 'Visualización del nombre inválida',
+    REVENUE_GOAL_INVALID: 'Meta de recaudación inválida'
+  }
+};
+
+function isValidationMessage(message: string): message is ValidationMessage {
+  return (VALIDATION_MESSAGES as readonly string[]).includes(message);
+}
+
+// Text of a schema failure; messages that are not keys (yup's own defaults) come back unchanged
+export function validationMessage(locale: Locale, message: string, params: Record<string, unknown> = {}): string {
+  return isValidationMessage(message) ? interpolate(VALIDATION_TEXTS[locale][message], params) : message;
+}
+
+type ErrorTexts = Record<ErrorCode, (body: ApiErrorBody) => string>;
+
+const retryMinutes = (body: ApiErrorBody) => Math.ceil((body.retryAfter || 60) / 60);
+
+// Message of each error code; the body brings the details some codes mention
+const ERROR_TEXTS: Record<Locale, ErrorTexts> = {
+  'pt-BR': {
+    VALIDATION_FAILED: body => body.fields?.[0]?.message ?? 'Confira os dados informados',
+    INVALID_NUMBERS: () => 'Alguns números não existem nesta rifa',
+    INVALID_RECEIPT: () => 'Comprovante inválido',
+    INVALID_SELLER_CODE: () => 'Código do vendedor inválido',
+    INVALID_PROMO_CODE: () => 'Cupom inválido, expirado ou esgotado',
+    INVALID_CREDENTIALS: () => 'Usuário ou senha inválidos',
+    UNAUTHORIZED: () => 'Sua sessão expirou. Entre novamente',
+    RAFFLE_NOT_FOUND: () => 'Rifa não encontrada',
+    PURCHASE_NOT_FOUND: () => 'Compra não encontrada',
+    SELLER_NOT_FOUND: () => 'Vendedor não encontrado',
+    NUMBER_NOT_FOUND: () => 'Número não encontrado',
+    NOTIFICATION_NOT_FOUND: () => 'Notificação não encontrada',
+    PROMO_CODE_NOT_FOUND: () => 'Cupom não encontrado',
+    DRAW_NOT_FOUND: () => 'Sorteio não encontrado',
+    NUMBERS_UNAVAILABLE: body => !body.numbers?.length
+      ? 'Alguns números não estão mais disponíveis'
+      : body.numbers.length === 1
+        ? `O número ${body.numbers[0]} já foi vendido ou está reservado`
+        : `Os números ${body.numbers.join(', ')} já foram vendidos ou estão reservados`,
+    RAFFLE_NOT_OPEN: () => 'Esta rifa não está aceitando compras',
+    RAFFLE_NOT_CLOSED: () => 'Encerre as vendas antes de sortear',
+    PURCHASE_CANCELLED: () => 'Esta compra foi cancelada',
+    NUMBER_NOT_SOLD: () => 'Este número não está vendido',
+    NO_NUMBERS_SOLD: () => 'Nenhum número foi vendido',
+    NOT_ENOUGH_NUMBERS_SOLD: () => 'Há mais prêmios do que números vendidos',
+    PRIZES_LOCKED: () => 'Os prêmios não podem mudar depois que o sorteio começou',
+    IMPORT_CONFLICTS: () => 'A importação tem conflitos; confira o relatório',
+    DRAW_NOT_COMMITTED: () => 'Gere a semente do sorteio antes de sortear',
+    DRAW_ALREADY_COMMITTED: () => 'A semente do sorteio já foi gerada',
+    DRAW_ALREADY_DONE: () => 'O sorteio já foi realizado',
+    DRAW_IN_PROGRESS: () => 'Outro sorteio deste prêmio acabou de ser feito; recarregue a página',
+    SALES_FROZEN: () => 'As vendas não podem mais mudar depois que a semente foi gerada ou as vendas foram encerradas',
+    REQUEST_IN_PROGRESS: () => 'Esta compra ainda está sendo processada. Aguarde um instante',
+    IDEMPOTENCY_KEY_REUSED: () => 'Esta compra já foi enviada com outros dados',
+    TOO_MANY_REQUESTS: body => `Muitas tentativas. Tente novamente em ${retryMinutes(body)} minuto(s)`,
+    INTERNAL_ERROR: () => 'Erro no servidor. Tente novamente',
+    SERVICE_UNAVAILABLE: () => 'Serviço indisponível no momento. Tente novamente'
+  },
+  en: {
+    VALIDATION_FAILED: body => body.fields?.[0]?.message ?? 'Check the information you entered',
+    INVALID_NUMBERS: () => 'Some numbers do not exist in this raffle',
+    INVALID_RECEIPT: () => 'Invalid receipt',
+    INVALID_SELLER_CODE: () => 'Invalid seller code',
+    INVALID_PROMO_CODE: () => 'Promo code is invalid, expired or used up',
+    INVALID_CREDENTIALS: () => 'Invalid username or password',
+    UNAUTHORIZED: () => 'Your session has expired. Please sign in again',
+    RAFFLE_NOT_FOUND: () => 'Raffle not found',
+    PURCHASE_NOT_FOUND: () => 'Purchase not found',
+    SELLER_NOT_FOUND: () => 'Seller not found',
+    NUMBER_NOT_FOUND: () => 'Number not found',
+    NOTIFICATION_NOT_FOUND: () => 'Notification not found',
+    PROMO_CODE_NOT_FOUND: () => 'Promo code not found',
+    DRAW_NOT_FOUND: () => 'Draw not found',
+    NUMBERS_UNAVAILABLE: body => !body.numbers?.length
+      ? 'Some numbers are no longer available'
+      : body.numbers.length === 1
+        ? `Number ${body.numbers[0]} has already been sold or reserved`
+        : `Numbers ${body.numbers.join(', ')} have already been sold or reserved`,
+    RAFFLE_NOT_OPEN: () => 'This raffle is not accepting purchases',
+    RAFFLE_NOT_CLOSED: () => 'Close the sales before the draw',
+    PURCHASE_CANCELLED: () => 'This purchase was cancelled',
+    NUMBER_NOT_SOLD: () => 'This number has not been sold',
+    NO_NUMBERS_SOLD: () => 'No numbers have been sold',
+    NOT_ENOUGH_NUMBERS_SOLD: () => 'There are more prizes than sold numbers',
+    PRIZES_LOCKED: () => 'Prizes cannot change after the draw has started',
+    IMPORT_CONFLICTS: () => 'The import has conflicts; check the report',
+    DRAW_NOT_COMMITTED: () => 'Generate the draw seed before drawing',
+    DRAW_ALREADY_COMMITTED: () => 'The draw seed has already been generated',
+    DRAW_ALREADY_DONE: () => 'The draw has already taken place',
+    DRAW_IN_PROGRESS: () => 'This prize was just drawn by another request; reload the page',
+    SALES_FROZEN: () => 'Sales can no longer change once the draw seed is generated or sales are closed',
+    REQUEST_IN_PROGRESS: () => 'This purchase is still being processed. Please wait a moment',
+    IDEMPOTENCY_KEY_REUSED: () => 'This purchase was already sent with different details',
+    TOO_MANY_REQUESTS: body => `Too many attempts. Try again in ${retryMinutes(body)} minute(s)`,
+    INTERNAL_ERROR: () => 'Server error. Please try again',
+    SERVICE_UNAVAILABLE: () => 'Service unavailable at the moment. Please try again'
+  },
+  es: {
+    VALIDATION_FAILED: body => body.fields?.[0]?.message ?? 'Revisa los datos ingresados',
+    INVALID_NUMBERS: () => 'Algunos números no existen en esta rifa',
+    INVALID_RECEIPT: () => 'Comprobante inválido',
+    INVALID_SELLER_CODE: () => 'Código del vendedor inválido',
+    INVALID_PROMO_CODE: () => 'Cupón inválido, vencido o agotado',
+    INVALID_CREDENTIALS: () => 'Usuario o contraseña inválidos',
+    UNAUTHORIZED: () => 'Tu sesión expiró. Vuelve a iniciar sesión',
+    RAFFLE_NOT_FOUND: () => 'Rifa no encontrada',
+    PURCHASE_NOT_FOUND: () => 'Compra no encontrada',
+    SELLER_NOT_FOUND: () => 'Vendedor no encontrado',
+    NUMBER_NOT_FOUND: () => 'Número no encontrado',
+    NOTIFICATION_NOT_FOUND: () => 'Notificación no encontrada',
+    PROMO_CODE_NOT_FOUND: () => 'Cupón no encontrado',
+    DRAW_NOT_FOUND: () => 'Sorteo no encontrado',
+    NUMBERS_UNAVAILABLE: body => !body.numbers?.length
+      ? 'Algunos números ya no están disponibles'
+      : body.numbers.length === 1
+        ? `El número ${body.numbers[0]} ya fue vendido o está reservado`
+        : `Los números ${body.numbers.join(', ')} ya fueron vendidos o están reservados`,
+    RAFFLE_NOT_OPEN: () => 'Esta rifa no está aceptando compras',
+    RAFFLE_NOT_CLOSED: () => 'Cierra las ventas antes del sorteo',
+    PURCHASE_CANCELLED: () => 'Esta compra fue cancelada',
+    NUMBER_NOT_SOLD: () => 'Este número no está vendido',
+    NO_NUMBERS_SOLD: () => 'No se vendió ningún número',
+    NOT_ENOUGH_NUMBERS_SOLD: () => 'Hay más premios que números vendidos',
+    PRIZES_LOCKED: () => 'Los premios no pueden cambiar después de que comenzó el sorteo',
+    IMPORT_CONFLICTS: () => 'La importación tiene conflictos; revisa el informe',
+    DRAW_NOT_COMMITTED: () => 'Genera la semilla del sorteo antes de sortear',
+    DRAW_ALREADY_COMMITTED: () => 'La semilla del sorteo ya fue generada',
+    DRAW_ALREADY_DONE: () => 'El sorteo ya se realizó',
+    DRAW_IN_PROGRESS: () => 'Otra solicitud acaba de sortear este premio; recarga la página',
+    SALES_FROZEN: () => 'Las ventas ya no pueden cambiar después de generar la semilla o cerrar las ventas',
+    REQUEST_IN_PROGRESS: () => 'Esta compra todavía se está procesando. Espera un momento',
+    IDEMPOTENCY_KEY_REUSED: () => 'Esta compra ya fue enviada con otros datos',
+    TOO_MANY_REQUESTS: body => `Demasiados intentos. Vuelve a intentarlo en ${retryMinutes(body)} minuto(s)`,
+    INTERNAL_ERROR: () => 'Error en el servidor. Vuelve a intentarlo',
+    SERVICE_UNAVAILABLE: () => 'Servicio no disponible en este momento. Vuelve a intentarlo'
+  }
+};
+
+export function errorMessage(locale: Locale, body: ApiErrorBody): string {
+  return (ERROR_TEXTS[locale] ?? ERROR_TEXTS[DEFAULT_LOCALE])[body.code](body);
+}
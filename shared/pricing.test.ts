@@ -0,0 +1,69 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { calculatePrice } from './pricing.js';
+
+describe('calculatePrice', () => {
+  test('charges the unit price without bundles or promo', () => {
+    const price = calculatePrice({ ticketPrice: 10, bundles: [] }, 3);
+    assert.equal(price.subtotal, 30);
+    assert.equal(price.discount, 0);
+    assert.equal(price.total, 30);
+    assert.deepEqual(price.bundles, []);
+  });
+
+  test('packs as many bundles as fit and charges the rest at the unit price', () => {
+    const price = calculatePrice({ ticketPrice: 10, bundles: [{ quantity: 3, price: 25 }] }, 7);
+    assert.deepEqual(price.bundles, [{ quantity: 3, price: 25, times: 2 }]);
+    assert.equal(price.subtotal, 70);
+    assert.equal(price.bundleDiscount, 10);
+    assert.equal(price.total, 60);
+  });
+
+  test('picks the cheapest mix of bundles, not the largest bundle first', () => {
+    const rules = { ticketPrice: 10, bundles: [{ quantity: 4, price: 30 }, { quantity: 3, price: 21 }] };
+    const price = calculatePrice(rules, 6);
+    assert.deepEqual(price.bundles, [{ quantity: 3, price: 21, times: 2 }]);
+    assert.equal(price.total, 42);
+  });
+
+  test('takes a percent promo off the order', () => {
+    const promo = { code: 'QUARTER', kind: 'percent' as const, value: 25 };
+    const price = calculatePrice({ ticketPrice: 10, bundles: [] }, 4, promo);
+    assert.equal(price.promoDiscount, 10);
+    assert.equal(price.total, 30);
+    assert.deepEqual(price.promo, promo);
+  });
+
+  test('rounds percent promos to whole cents', () => {
+    const price = calculatePrice({ ticketPrice: 3.33, bundles: [] }, 1, { code: 'TEN', kind: 'percent', value: 10 });
+    assert.equal(price.promoDiscount, 0.33);
+    assert.equal(price.total, 3);
+  });
+
+  test('takes a fixed promo off the order', () => {
+    const price = calculatePrice({ ticketPrice: 10, bundles: [] }, 2, { code: 'FIVE', kind: 'fixed', value: 5 });
+    assert.equal(price.promoDiscount, 5);
+    assert.equal(price.discount, 5);
+    assert.equal(price.total, 15);
+  });
+
+  test('never takes the total below zero', () => {
+    const rules = { ticketPrice: 10, bundles: [] };
+    const fixed = calculatePrice(rules, 2, { code: 'FIFTY', kind: 'fixed', value: 50 });
+    assert.equal(fixed.promoDiscount, 20);
+    assert.equal(fixed.total, 0);
+
+    const percent = calculatePrice(rules, 2, { code: 'ALL', kind: 'percent', value: 150 });
+    assert.equal(percent.promoDiscount, 20);
+    assert.equal(percent.total, 0);
+  });
+
+  test('applies the promo to the price after bundles', () => {
+    const rules = { ticketPrice: 10, bundles: [{ quantity: 3, price: 25 }] };
+    const price = calculatePrice(rules, 3, { code: 'TWENTY', kind: 'percent', value: 20 });
+    assert.equal(price.bundleDiscount, 5);
+    assert.equal(price.promoDiscount, 5);
+    assert.equal(price.discount, 10);
+    assert.equal(price.total, 20);
+  });
+});
@@ -0,0 +1,103 @@
+// Price of an order, shared by the API (which charges it) and the frontend (which previews it).
+// Amounts are in reais; the math runs in cents so totals never drift by fractions.
+
+// "quantity numbers for price", e.g. 3 for R$ 50,00
+export interface Bundle {
+  quantity: number;
+  price: number;
+}
+
+export const PROMO_KINDS = ['percent', 'fixed'] as const;
+
+export type PromoKind = typeof PROMO_KINDS[number];
+
+// Discount of a promo code: a percentage of the order or a fixed amount off
+export interface PromoDiscount {
+  code: string;
+  kind: PromoKind;
+  value: number;
+}
+
+export interface PriceRules {
+  ticketPrice: number;
+  bundles: Bundle[];
+}
+
+export interface PriceBreakdown {
+  quantity: number;
+  unitPrice: number;
+  // Every number at the unit price
+  subtotal: number;
+  // Bundles used, each as many times as it fits the cheapest combination
+  bundles: (Bundle & { times: number })[];
+  bundleDiscount: number;
+  promo: PromoDiscount | null;
+  promoDiscount: number;
+  // bundleDiscount + promoDiscount
+  discount: number;
+  total: number;
+}
+
+// Plain copy of the raffle's prices, kept on each order so changing the raffle later does not reprice it
+export function priceRules(rules: PriceRules): PriceRules {
+  return {
+    ticketPrice: rules.ticketPrice,
+    bundles: rules.bundles.map(bundle => ({ quantity: bundle.quantity, price: bundle.price }))
+  };
+}
+
+const toCents = (value: number) => Math.round(value * 100);
+const fromCents = (cents: number) => cents / 100;
+
+// Cheapest mix of bundles and single numbers for the quantity, then the promo code on top
+export function calculatePrice(rules: PriceRules, quantity: number, promo: PromoDiscount | null = null): PriceBreakdown {
+  const unit = toCents(rules.ticketPrice);
+  const bundles = rules.bundles.filter(bundle => bundle.quantity > 0);
+
+  // cost[q] is the cheapest price of q numbers; choice[q] the bundle that ends that combination
+  const cost = [0];
+  const choice: (number | null)[] = [null];
+  for (let q = 1; q <= quantity; q++) {
+    cost[q] = cost[q - 1] + unit;
+    choice[q] = null;
+    bundles.forEach((bundle, index) => {
+      if (bundle.quantity <= q && cost[q - bundle.quantity] + toCents(bundle.price) < cost[q]) {
+        cost[q] = cost[q - bundle.quantity] + toCents(bundle.price);
+        choice[q] = index;
+      }
+    });
+  }
+
+  const times = bundles.map(() => 0);
+  for (let q = quantity; q > 0;) {
+    const index = choice[q];
+    if (index === null) {
+      q -= 1;
+    } else {
+      times[index] += 1;
+      q -= bundles[index].quantity;
+    }
+  }
+
+  const subtotal = quantity * unit;
+  const afterBundles = cost[quantity];
+  const promoDiscount = !promo
+    ? 0
+    : promo.kind === 'percent'
+      ? Math.round(afterBundles * Math.min(100, promo.value) / 100)
+      : Math.min(afterBundles, toCents(promo.value));
+
+  return {
+    quantity,
+    unitPrice: rules.ticketPrice,
+    subtotal: fromCents(subtotal),
+    bundles: bundles
+      .map((bundle, index) => ({ quantity: bundle.quantity, price: bundle.price, times: times[index] }))
+      .filter(bundle => bundle.times > 0),
+    bundleDiscount: fromCents(subtotal - afterBundles),
+    promo,
+    promoDiscount: fromCents(promoDiscount),
+    discount: fromCents(subtotal - afterBundles + promoDiscount),
+    total: fromCents(afterBundles - promoDiscount)
+  };
+}
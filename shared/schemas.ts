@@ -0,0 +1,170 @@
+import * as yup from 'yup';
+import { PROMO_KINDS } from './pricing.js';
+
+// Request schemas shared by the API and the frontend, so both validate the same way.
+// Messages are keys of VALIDATION_MESSAGES (shared/messages.ts), translated where they are shown.
+
+// Keep only the digits of a Brazilian phone number, dropping the +55 country code
+export function normalizePhone(phone: string): string {
+  const digits = phone.replace(/\D/g, '');
+  return digits.length > 11 && digits.startsWith('55') ? digits.slice(2) : digits;
+}
+
+// DDD plus an 8-digit landline or 9-digit mobile number
+export function isValidPhone(phone: string): boolean {
+  return /^[1-9]{2}9?\d{8}$/.test(normalizePhone(phone));
+}
+
+export function isValidEmail(email: string): boolean {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
+}
+
+// Range of the raffle being validated against, passed as `context.raffle`
+export interface NumberRangeContext {
+  raffle?: { numberStart: number; numberEnd: number } | null;
+}
+
+// Most numbers one order, or one reservation, can take; keeps a single caller from holding the whole raffle
+export const MAX_NUMBERS_PER_ORDER = 100;
+
+// Raffle numbers: integers, without repeats and, given a raffle in the context, inside its range
+export const numberListSchema = yup
+  .array()
+  .of(yup.number().typeError('NUMBER_INVALID').integer('NUMBER_INVALID').required('NUMBER_INVALID'))
+  .transform((value: unknown) => (Array.isArray(value) ? [...new Set(value)] : value))
+  .max(MAX_NUMBERS_PER_ORDER, 'NUMBERS_TOO_MANY')
+  .required('NUMBERS_REQUIRED')
+  .test('in-range', function (numbers) {
+    const raffle = (this.options.context as NumberRangeContext | undefined)?.raffle;
+    if (!raffle || !numbers) {
+      return true;
+    }
+    const outside = numbers.filter(n => n < raffle.numberStart || n > raffle.numberEnd);
+    return outside.length === 0 || this.createError({ message: 'NUMBERS_OUT_OF_RANGE', params: { numbers: outside.join(', ') } });
+  });
+
+export const buyerNameSchema = yup.string().trim().required('BUYER_REQUIRED');
+
+export const phoneSchema = yup
+  .string()
+  .trim()
+  .required('PHONE_INVALID')
+  .test('phone', 'PHONE_INVALID', value => !value || isValidPhone(value));
+
+// Optional; an empty string counts as no e-mail
+export const emailSchema = yup
+  .string()
+  .trim()
+  .lowercase()
+  .nullable()
+  .default(null)
+  .transform((value: string | null) => (value === '' ? null : value))
+  .test('email', 'EMAIL_INVALID', value => !value || isValidEmail(value));
+
+// Optional; typed in any case, stored upper case
+export const promoCodeInputSchema = yup
+  .string()
+  .trim()
+  .uppercase()
+  .nullable()
+  .default(null)
+  .transform((value: string | null) => (value === '' ? null : value));
+
+export const reserveSchema = yup.object({
+  numbers: numberListSchema,
+  token: yup.string().trim().nullable().default(null)
+});
+
+export const purchaseSchema = yup.object({
+  numbers: numberListSchema.min(1, 'NUMBERS_EMPTY'),
+  buyer: buyerNameSchema,
+  phone: phoneSchema,
+  email: emailSchema,
+  sellerCode: yup.string().trim().required('SELLER_CODE_REQUIRED'),
+  reservationToken: yup.string().nullable().default(null),
+  promoCode: promoCodeInputSchema
+});
+
+// Price of a selection before buying it, with the promo code the buyer typed
+export const quoteSchema = yup.object({
+  numbers: numberListSchema,
+  promoCode: promoCodeInputSchema
+});
+
+// Asks for a one-time code to list the purchases made with this phone
+export const lookupCodeSchema = yup.object({
+  phone: phoneSchema
+});
+
+// Per-number price and bundle deals of a raffle
+export const pricingSchema = yup.object({
+  ticketPrice: yup.number().typeError('PRICE_INVALID').min(0, 'PRICE_INVALID').required('TICKET_PRICE_REQUIRED'),
+  bundles: yup
+    .array()
+    .of(yup.object({
+      quantity: yup.number().typeError('BUNDLE_QUANTITY_INVALID').integer('BUNDLE_QUANTITY_INVALID').min(2, 'BUNDLE_TOO_SMALL').required('BUNDLE_QUANTITY_REQUIRED'),
+      price: yup.number().typeError('PRICE_INVALID').min(0, 'PRICE_INVALID').required('BUNDLE_PRICE_REQUIRED')
+    }))
+    .default([])
+    .test('unique-quantity', 'BUNDLE_DUPLICATE', bundles =>
+      !bundles || new Set(bundles.map(bundle => bundle.quantity)).size === bundles.length)
+});
+
+// Promo code created by the admin; without dates it is valid right away and never expires
+export const promoCodeSchema = yup.object({
+  code: yup
+    .string()
+    .trim()
+    .uppercase()
+    .required('PROMO_CODE_REQUIRED')
+    .matches(/^[A-Z0-9_-]{3,20}$/, 'PROMO_CODE_FORMAT'),
+  kind: yup.string().oneOf(PROMO_KINDS, 'PROMO_KIND_INVALID').required('PROMO_KIND_REQUIRED'),
+  value: yup
+    .number()
+    .typeError('DISCOUNT_INVALID')
+    .positive('DISCOUNT_INVALID')
+    .required('DISCOUNT_REQUIRED')
+    .when('kind', ([kind], schema) => (kind === 'percent' ? schema.max(100, 'DISCOUNT_OVER_100') : schema)),
+  startsAt: yup.date().typeError('DATE_INVALID').nullable().default(null),
+  expiresAt: yup
+    .date()
+    .typeError('DATE_INVALID')
+    .nullable()
+    .default(null)
+    .when('startsAt', ([startsAt], schema) => (startsAt ? schema.min(startsAt, 'EXPIRES_BEFORE_START') : schema)),
+  maxUses: yup.number().typeError('MAX_USES_INVALID').integer('MAX_USES_INVALID').min(1, 'MAX_USES_INVALID').nullable().default(null)
+});
+
+// One prize of the raffle; an existing prize keeps its id so draw results still point to it
+export const prizeSchema = yup.object({
+  _id: yup
+    .string()
+    .nullable()
+    .default(null)
+    .matches(/^[a-f\d]{24}$/i, { message: 'PRIZE_INVALID', excludeEmptyString: true }),
+  name: yup.string().trim().required('PRIZE_NAME_REQUIRED'),
+  description: yup.string().trim().default(''),
+  imageUrl: yup
+    .string()
+    .trim()
+    .nullable()
+    .default(null)
+    .transform((value: string | null) => (value === '' ? null : value))
+    .url('PRIZE_IMAGE_INVALID'),
+  // Position in the draw, starting at 1; without it the list order is used
+  order: yup.number().typeError('PRIZE_ORDER_INVALID').integer('PRIZE_ORDER_INVALID').min(1, 'PRIZE_ORDER_INVALID').nullable().default(null)
+});
+
+// The whole prize catalog, replaced at once
+export const prizeListSchema = yup.object({
+  prizes: yup.array().of(prizeSchema).max(50, 'PRIZES_TOO_MANY').required('PRIZES_REQUIRED')
+});
+
+export type ReserveInput = yup.InferType<typeof reserveSchema>;
+export type PurchaseInput = yup.InferType<typeof purchaseSchema>;
+export type LookupCodeInput = yup.InferType<typeof lookupCodeSchema>;
+export type QuoteInput = yup.InferType<typeof quoteSchema>;
+export type PricingInput = yup.InferType<typeof pricingSchema>;
+export type PromoCodeInput = yup.InferType<typeof promoCodeSchema>;
+export type PrizeInput = yup.InferType<typeof prizeSchema>;
+export type PrizeListInput = yup.InferType<typeof prizeListSchema>;
@@ -0,0 +1,323 @@
+import { useState, useEffect } from 'react'
+import { toast } from 'react-hot-toast'
+import { Raffle } from './services/api'
+import { adminApi, AdminSale, AdminTotals } from './services/adminApi'
+import SellersPanel from './components/SellersPanel'
+import DrawPanel from './components/DrawPanel'
+import PrizesPanel from './components/PrizesPanel'
+import PricingPanel from './components/PricingPanel'
+import ImportExportPanel from './components/ImportExportPanel'
+import AuditTimeline from './components/AuditTimeline'
+import StatsPanel from './components/StatsPanel'
+import { useI18n } from './i18n'
+
+function Admin() {
+  const { t, formatCurrency, formatDateTime } = useI18n()
+  const [loggedIn, setLoggedIn] = useState(adminApi.isLoggedIn())
+  const [username, setUsername] = useState('')
+  const [password, setPassword] = useState('')
+  const [raffles, setRaffles] = useState<Raffle[]>([])
+  const [raffleId, setRaffleId] = useState('')
+  const [sales, setSales] = useState<AdminSale[]>([])
+  const [totals, setTotals] = useState<AdminTotals | null>(null)
+
+  useEffect(() => {
+    if (loggedIn) {
+      loadRaffles()
+    }
+  }, [loggedIn])
+
+  useEffect(() => {
+    if (raffleId) {
+      loadSales()
+    }
+  }, [raffleId])
+
+  const handleError = (error: unknown, fallback: string) => {
+    toast.error(error instanceof Error ? error.message : fallback)
+    setLoggedIn(adminApi.isLoggedIn())
+  }
+
+  const loadRaffles = async () => {
+    try {
+      const data = await adminApi.getRaffles()
+      setRaffles(data)
+      if (data.length > 0) {
+        setRaffleId(data[0]._id)
+      }
+    } catch (error) {
+      handleError(error, t('admin.loadRafflesError'))
+    }
+  }
+
+  const loadSales = async () => {
+    try {
+      const [salesData, totalsData] = await Promise.all([
+        adminApi.getSales(raffleId),
+        adminApi.getTotals(raffleId),
+      ])
+      setSales(salesData)
+      setTotals(totalsData)
+    } catch (error) {
+      handleError(error, t('admin.loadSalesError'))
+    }
+  }
+
+  const handleLogin = async () => {
+    try {
+      await adminApi.login(username.trim(), password)
+      setPassword('')
+      setLoggedIn(true)
+    } catch (error) {
+      handleError(error, t('admin.loginError'))
+    }
+  }
+
+  const handleLogout = () => {
+    adminApi.logout()
+    setLoggedIn(false)
+  }
+
+  const handleTogglePaid = async (sale: AdminSale) => {
+    try {
+      await adminApi.updatePurchase(sale._id, { paymentStatus: sale.paymentStatus === 'paid' ? 'pending' : 'paid' })
+      loadSales()
+    } catch (error) {
+      handleError(error, t('admin.paymentError'))
+    }
+  }
+
+  const handleEditBuyer = async (sale: AdminSale) => {
+    const buyerName = window.prompt(t('admin.buyerPrompt'), sale.buyerName)
+    if (!buyerName?.trim()) {
+      return
+    }
+    const phone = window.prompt(t('admin.phonePrompt'), sale.phone) ?? sale.phone
+    const email = window.prompt(t('admin.emailPrompt'), sale.email ?? '') ?? sale.email
+    try {
+      await adminApi.updatePurchase(sale._id, {
+        buyerName: buyerName.trim(),
+        phone: phone !== sale.phone ? phone : undefined,
+        email: email?.trim() || null,
+      })
+      loadSales()
+    } catch (error) {
+      handleError(error, t('admin.buyerError'))
+    }
+  }
+
+  const handleCancel = async (sale: AdminSale) => {
+    if (!window.confirm(t('admin.cancelConfirm', { buyer: sale.buyerName, numbers: sale.numbers.join(', ') }))) {
+      return
+    }
+    try {
+      await adminApi.updatePurchase(sale._id, { paymentStatus: 'cancelled' })
+      toast.success(t('admin.cancelled'))
+      loadSales()
+    } catch (error) {
+      handleError(error, t('admin.cancelError'))
+    }
+  }
+
+  const handleRelease = async (number: number) => {
+    if (!window.confirm(t('admin.releaseConfirm', { number }))) {
+      return
+    }
+    try {
+      await adminApi.releaseNumber(raffleId, number)
+      toast.success(t('admin.released', { number }))
+      loadSales()
+    } catch (error) {
+      handleError(error, t('admin.releaseError'))
+    }
+  }
+
+  const selectedRaffle = raffles.find(r => r._id === raffleId)
+
+  if (!loggedIn) {
+    return (
+      <div className="min-h-screen bg-gray-100 flex items-center justify-center px-4">
+        <div className="bg-white rounded-xl shadow-lg p-8 w-full max-w-sm">
+          <h1 className="text-2xl font-bold text-gray-800 mb-6 text-center">{t('admin.title')}</h1>
+          <input
+            type="text"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            className="w-full px-4 py-3 rounded-lg border border-gray-300 mb-4"
+            placeholder={t('admin.username')}
+          />
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className="w-full px-4 py-3 rounded-lg border border-gray-300 mb-6"
+            placeholder={t('admin.password')}
+          />
+          <button
+            onClick={handleLogin}
+            disabled={!username.trim() || !password}
+            className="w-full py-3 px-6 rounded-lg text-white font-semibold bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400"
+          >
+            {t('admin.login')}
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-100 py-8">
+      <div className="max-w-6xl mx-auto px-4">
+        <div className="flex items-center justify-between mb-8">
+          <h1 className="text-3xl font-bold text-gray-800">{t('admin.title')}</h1>
+          <button onClick={handleLogout} className="text-gray-600 hover:text-gray-800">{t('admin.logout')}</button>
+        </div>
+
+        <select
+          value={raffleId}
+          onChange={(e) => setRaffleId(e.target.value)}
+          className="mb-6 px-4 py-2 rounded-lg border border-gray-300"
+        >
+          {raffles.map((raffle) => (
+            <option key={raffle._id} value={raffle._id}>{raffle.title}</option>
+          ))}
+        </select>
+
+        {totals && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
+            <div className="bg-white rounded-xl shadow p-4">
+              <p className="text-sm text-gray-500">{t('admin.sold')}</p>
+              <p className="text-2xl font-bold text-gray-800">{totals.sold} / {totals.total}</p>
+            </div>
+            <div className="bg-white rounded-xl shadow p-4">
+              <p className="text-sm text-gray-500">{t('admin.paid')}</p>
+              <p className="text-2xl font-bold text-green-600">{totals.paid}</p>
+            </div>
+            <div className="bg-white rounded-xl shadow p-4">
+              <p className="text-sm text-gray-500">{t('admin.expectedRevenue')}</p>
+              <p className="text-2xl font-bold text-gray-800">{formatCurrency(totals.expectedRevenue)}</p>
+            </div>
+            <div className="bg-white rounded-xl shadow p-4">
+              <p className="text-sm text-gray-500">{t('admin.receivedRevenue')}</p>
+              <p className="text-2xl font-bold text-green-600">{formatCurrency(totals.receivedRevenue)}</p>
+            </div>
+          </div>
+        )}
+
+        {selectedRaffle && (
+          <StatsPanel
+            raffle={selectedRaffle}
+            onRaffleChange={(raffle) => setRaffles(raffles.map(r => r._id === raffle._id ? raffle : r))}
+          />
+        )}
+
+        {selectedRaffle && (
+          <PricingPanel
+            raffle={selectedRaffle}
+            onRaffleChange={(raffle) => setRaffles(raffles.map(r => r._id === raffle._id ? raffle : r))}
+          />
+        )}
+
+        {selectedRaffle && (
+          <PrizesPanel
+            raffle={selectedRaffle}
+            onRaffleChange={(raffle) => setRaffles(raffles.map(r => r._id === raffle._id ? raffle : r))}
+          />
+        )}
+
+        {selectedRaffle && (
+          <DrawPanel
+            raffle={selectedRaffle}
+            onRaffleChange={(raffle) => setRaffles(raffles.map(r => r._id === raffle._id ? raffle : r))}
+          />
+        )}
+
+        <SellersPanel raffleId={raffleId} />
+
+        {raffleId && <ImportExportPanel raffleId={raffleId} onImported={loadSales} />}
+
+        {raffleId && <AuditTimeline raffleId={raffleId} />}
+
+        <div className="bg-white rounded-xl shadow-lg overflow-x-auto">
+          <table className="w-full text-left">
+            <thead className="bg-gray-50 text-sm text-gray-600">
+              <tr>
+                <th className="px-4 py-3">{t('admin.buyer')}</th>
+                <th className="px-4 py-3">{t('admin.numbers')}</th>
+                <th className="px-4 py-3">{t('admin.amount')}</th>
+                <th className="px-4 py-3">{t('admin.seller')}</th>
+                <th className="px-4 py-3">{t('admin.date')}</th>
+                <th className="px-4 py-3">{t('admin.payment')}</th>
+                <th className="px-4 py-3">{t('admin.lastChange')}</th>
+                <th className="px-4 py-3"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {sales.map((sale) => (
+                <tr key={sale._id} className="border-t border-gray-100 align-top">
+                  <td className="px-4 py-3">
+                    <button onClick={() => handleEditBuyer(sale)} className="font-semibold hover:text-blue-600 text-left">
+                      {sale.buyerName}
+                    </button>
+                    <p className="text-sm text-gray-500">{sale.phone}</p>
+                    {sale.email && <p className="text-sm text-gray-500">{sale.email}</p>}
+                  </td>
+                  <td className="px-4 py-3">
+                    <div className="flex flex-wrap gap-1">
+                      {sale.numbers.map((number) => (
+                        <button
+                          key={number}
+                          onClick={() => handleRelease(number)}
+                          disabled={sale.paymentStatus === 'cancelled'}
+                          title={t('admin.releaseNumber')}
+                          className="px-2 py-0.5 rounded bg-gray-100 text-sm hover:bg-red-100 hover:text-red-700 disabled:hover:bg-gray-100 disabled:hover:text-inherit"
+                        >
+                          {number}
+                        </button>
+                      ))}
+                    </div>
+                  </td>
+                  <td className="px-4 py-3 text-sm">{formatCurrency(sale.totalAmount)}</td>
+                  <td className="px-4 py-3 text-sm text-gray-600">{sale.sellerId?.name ?? '-'}</td>
+                  <td className="px-4 py-3 text-sm text-gray-600">
+                    {formatDateTime(sale.purchaseDate)}
+                  </td>
+                  <td className="px-4 py-3">
+                    {sale.paymentStatus === 'cancelled' ? (
+                      <span className="px-3 py-1 rounded-full text-sm bg-gray-100 text-gray-500">{t('admin.saleCancelled')}</span>
+                    ) : (
+                      <button
+                        onClick={() => handleTogglePaid(sale)}
+                        className={`px-3 py-1 rounded-full text-sm ${sale.paymentStatus === 'paid' ? 'bg-green-100 text-green-700' : 'bg-yellow-100 text-yellow-700'}`}
+                      >
+                        {sale.paymentStatus === 'paid' ? t('admin.salePaid') : t('admin.salePending')}
+                      </button>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-500">
+                    {sale.lastChangedBy && sale.lastChangedAt &&
+                      t('admin.changedBy', { admin: sale.lastChangedBy, date: formatDateTime(sale.lastChangedAt) })}
+                  </td>
+                  <td className="px-4 py-3 text-right">
+                    {sale.paymentStatus !== 'cancelled' && (
+                      <button onClick={() => handleCancel(sale)} className="text-red-600 hover:text-red-800 text-sm">
+                        {t('common.cancel')}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+              {sales.length === 0 && (
+                <tr>
+                  <td colSpan={8} className="px-4 py-8 text-center text-gray-500">{t('admin.noSales')}</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default Admin
@@ -1,140 +1,409 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useMemo, useRef } from 'react'
+import { Link, useParams, useSearchParams } from 'react-router-dom'
 import { Toaster, toast } from 'react-hot-toast'
-import Slider from 'react-slick'
-import { CheckIcon, HeartIcon, GiftIcon, SparklesIcon } from '@heroicons/react/24/outline'
-import { api, RaffleNumber } from './services/api'
+import { api, validatePurchase, isApiError, OfflineError, NumberChange, Reservation, PublicRaffleNumber, PurchaseResult, Raffle, RaffleStats } from './services/api'
+import { useNumberStream } from './hooks/useNumberStream'
+import { usePurchaseQueue } from './hooks/usePurchaseQueue'
+import PixPayment from './components/PixPayment'
+import RaffleProgress from './components/RaffleProgress'
+import PrizeCarousel from './components/PrizeCarousel'
+import PriceSummary from './components/PriceSummary'
+import NumberGrid, { NumberGridHandle, NumberState } from './components/NumberGrid'
+import { saveReceiptCode } from './services/receipts'
+import { loadGrid, saveGrid, PurchaseIntent } from './services/offline'
+import { calculatePrice, PromoDiscount } from '../shared/pricing'
+import { useI18n } from './i18n'
+
+type NumberFilter = 'all' | 'available' | 'selected'
+
+const FILTERS: NumberFilter[] = ['all', 'available', 'selected']
+
+// Sorteia count itens distintos da lista (Fisher-Yates parcial)
+function sample<T>(items: T[], count: number): T[] {
+  const pool = [...items]
+  for (let i = 0; i < count; i++) {
+    const j = i + Math.floor(Math.random() * (pool.length - i))
+    ;[pool[i], pool[j]] = [pool[j], pool[i]]
+  }
+  return pool.slice(0, count)
+}
 
 function App() {
-  const [numbers, setNumbers] = useState<RaffleNumber[]>([])
+  const { t, formatCurrency, formatDate, formatDateTime } = useI18n()
+  const { raffleId = '' } = useParams()
+  const [searchParams] = useSearchParams()
+  // Números vindos de "Meus Números", destacados na grade
+  const destaque = searchParams.get('destaque') ?? ''
+  const highlighted = useMemo(() => destaque.split(',').filter(Boolean).map(Number), [destaque])
+  const [raffle, setRaffle] = useState<Raffle | null>(null)
+  const [numbers, setNumbers] = useState<PublicRaffleNumber[]>([])
+  const [stats, setStats] = useState<RaffleStats | null>(null)
   const [selectedNumbers, setSelectedNumbers] = useState<number[]>([])
   const [buyerName, setBuyerName] = useState('')
-  const [password, setPassword] = useState('')
+  const [phone, setPhone] = useState('')
+  const [email, setEmail] = useState('')
+  const [sellerCode, setSellerCode] = useState('')
+  const [promoInput, setPromoInput] = useState('')
+  // Cupom conferido pela API; o desconto é recalculado aqui a cada mudança na seleção
+  const [promo, setPromo] = useState<PromoDiscount | null>(null)
+  const [reservationToken, setReservationToken] = useState<string | null>(null)
+  const [lastPurchase, setLastPurchase] = useState<PurchaseResult | null>(null)
+  // Números da compra em andamento, cujo aviso de venda é nosso
+  const purchasingRef = useRef<number[]>([])
   const [loading, setLoading] = useState(true)
+  // Quando a API não responde, a grade exibida é a salva neste aparelho nesse momento
+  const [staleSince, setStaleSince] = useState<string | null>(null)
+  const [filter, setFilter] = useState<NumberFilter>('all')
+  const [search, setSearch] = useState('')
+  const [randomCount, setRandomCount] = useState(5)
+  const gridRef = useRef<NumberGridHandle>(null)
+  const sellerCodeRef = useRef<HTMLInputElement>(null)
+
+  const price = useMemo(
+    () => raffle && calculatePrice(raffle, selectedNumbers.length, promo),
+    [raffle, selectedNumbers.length, promo]
+  )
 
   useEffect(() => {
     loadNumbers()
-  }, [])
+  }, [raffleId])
+
+  const applyNumberChanges = (changes: NumberChange[]) => {
+    setNumbers(prev => prev.map(number => {
+      const change = changes.find(c => c.number === number.number)
+      if (!change) {
+        return number
+      }
+      switch (change.state) {
+        case 'sold':
+          return { ...number, isAvailable: false, displayName: change.displayName ?? null, reservedUntil: null }
+        case 'reserved':
+          return { ...number, reservedUntil: change.reservedUntil ?? null }
+        case 'released':
+          return { ...number, isAvailable: true, displayName: null, reservedUntil: null }
+      }
+    }))
+
+    // Vendas e liberações mudam o progresso da meta
+    if (changes.some(c => c.state !== 'reserved')) {
+      loadStats()
+    }
+
+    // Números da seleção vendidos para outra pessoa saem da seleção
+    const sold = changes.filter(c => c.state === 'sold').map(c => c.number)
+    const lost = selectedNumbers.filter(n => sold.includes(n) && !purchasingRef.current.includes(n))
+    if (lost.length > 0) {
+      toast.error(t('raffle.justSold', { count: lost.length, numbers: lost.join(', ') }))
+      setSelectedNumbers(prev => prev.filter(n => !lost.includes(n)))
+    }
+  }
+
+  useNumberStream(raffleId, applyNumberChanges, () => loadNumbers())
 
   const loadNumbers = async () => {
     try {
-      const data = await api.getNumbers()
-      console.log('Loaded numbers:', data)
-      setNumbers(data)
+      const [raffleData, numbersData] = await Promise.all([api.getRaffle(raffleId), api.getNumbers(raffleId)])
+      setRaffle(raffleData)
+      setNumbers(numbersData)
+      setStaleSince(null)
+      saveGrid({ raffleId, raffle: raffleData, numbers: numbersData })
+        .catch(error => console.error('Error caching numbers:', error))
     } catch (error) {
-      toast.error('Erro ao carregar os números')
       console.error('Error loading numbers:', error)
+      const cached = await loadGrid(raffleId).catch(() => null)
+      if (cached) {
+        setRaffle(prev => prev ?? cached.raffle)
+        setNumbers(cached.numbers)
+        setStaleSince(cached.savedAt)
+      } else {
+        toast.error(t('raffle.loadError'))
+      }
     } finally {
       setLoading(false)
     }
+    loadStats()
+  }
+
+  const { pending: queuedPurchases, enqueue, provideSellerCode, hasSellerCode } = usePurchaseQueue(
+    raffleId,
+    (result, intent) => {
+      saveReceiptCode(result.receiptCode)
+      toast.success(t('raffle.queuedSent', { buyer: intent.buyer.name, receipt: result.receiptCode }), { duration: 8000 })
+      loadNumbers()
+    },
+    (intent, error) => {
+      const reason = error instanceof Error ? error.message : t('common.unknownError')
+      toast.error(t('raffle.queuedFailed', { buyer: intent.buyer.name, numbers: intent.numbers.join(', '), reason }), { duration: 10000 })
+      loadNumbers()
+    }
+  )
+
+  // O código do vendedor não fica guardado no aparelho; depois de recarregar a página ele é pedido de novo
+  const handleQueuedSellerCode = async (intent: PurchaseIntent) => {
+    const code = window.prompt(t('raffle.queuedCodePrompt', { buyer: intent.buyer.name }))
+    if (code?.trim()) {
+      await provideSellerCode(intent, code.trim())
+    }
   }
 
-  const carouselSettings = {
-    dots: true,
-    infinite: true,
-    speed: 500,
-    slidesToShow: 1,
-    slidesToScroll: 1,
-    autoplay: true,
-    autoplaySpeed: 4000,
-    fade: true,
-    cssEase: 'linear'
+  // O progresso é secundário; sem ele a página continua funcionando
+  const loadStats = async () => {
+    try {
+      setStats(await api.getStats(raffleId))
+    } catch (error) {
+      console.error('Error loading stats:', error)
+    }
   }
 
-  const handleNumberClick = (number: number) => {
-    console.log('Clicked number:', number)
-    console.log('Current selected numbers:', selectedNumbers)
-    
+  const isReservedByOthers = (number: PublicRaffleNumber) =>
+    number.isAvailable &&
+    number.reservedUntil !== null &&
+    new Date(number.reservedUntil) > new Date() &&
+    !selectedNumbers.includes(number.number)
+
+  const stateOf = (number: PublicRaffleNumber): NumberState => {
+    if (!number.isAvailable) {
+      return 'sold'
+    }
+    if (isReservedByOthers(number)) {
+      return 'reserved'
+    }
+    return selectedNumbers.includes(number.number) ? 'selected' : 'available'
+  }
+
+  const visibleNumbers = useMemo(() => {
+    switch (filter) {
+      case 'available':
+        return numbers.filter(n => n.isAvailable && (selectedNumbers.includes(n.number) || !isReservedByOthers(n)))
+      case 'selected':
+        return numbers.filter(n => selectedNumbers.includes(n.number))
+      default:
+        return numbers
+    }
+  }, [numbers, selectedNumbers, filter])
+
+  // Reserva a seleção inteira para que ninguém compre durante o checkout
+  const updateSelection = async (newSelected: number[]) => {
+    try {
+      const reservation = await api.reserveNumbers(raffleId, newSelected, reservationToken)
+      setReservationToken(reservation.token)
+      setSelectedNumbers(reservation.reserved)
+      return reservation.reserved
+    } catch (error) {
+      // Sem conexão não há reserva; a seleção vale só neste aparelho até a compra ser enviada
+      if (error instanceof OfflineError) {
+        setSelectedNumbers(newSelected)
+        return newSelected
+      }
+      // O servidor reserva o que conseguiu e devolve quais números já tinham dono
+      if (isApiError(error, 'NUMBERS_UNAVAILABLE')) {
+        const { token, reserved } = error.body as Partial<Reservation>
+        if (token && reserved) {
+          setReservationToken(token)
+          setSelectedNumbers(reserved)
+        }
+        toast.error(error.message)
+        loadNumbers()
+        return reserved ?? null
+      }
+      toast.error(error instanceof Error ? error.message : t('raffle.reserveError'))
+      loadNumbers()
+      return null
+    }
+  }
+
+  const handleNumberClick = async (number: number) => {
     const raffleNumber = numbers.find(n => n.number === number)
     if (!raffleNumber?.isAvailable) {
-      toast.error('Este número já foi vendido!')
+      toast.error(t('raffle.numberSold'))
       return
     }
 
-    setSelectedNumbers(prev => {
-      const isSelected = prev.includes(number)
-      console.log('Is number selected?', isSelected)
-      
-      const newSelected = isSelected
-        ? prev.filter(n => n !== number)
-        : [...prev, number]
-      
-      console.log('New selected numbers:', newSelected)
-      return newSelected
-    })
+    if (isReservedByOthers(raffleNumber)) {
+      toast.error(t('raffle.numberReserved'))
+      return
+    }
+
+    await updateSelection(selectedNumbers.includes(number)
+      ? selectedNumbers.filter(n => n !== number)
+      : [...selectedNumbers, number])
   }
 
-  const handlePurchase = async () => {
-    if (selectedNumbers.length === 0 || !buyerName.trim() || !password.trim()) {
-      toast.error('Por favor, preencha todos os campos')
+  const handleSearch = () => {
+    const number = Number(search.trim())
+    if (!raffle || !Number.isInteger(number) || number < raffle.numberStart || number > raffle.numberEnd) {
+      toast.error(t('raffle.searchOutOfRange', { start: raffle?.numberStart ?? '', end: raffle?.numberEnd ?? '' }))
+      return
+    }
+    // O filtro pode estar escondendo o número procurado
+    if (!gridRef.current?.scrollToNumber(number)) {
+      setFilter('all')
+      setTimeout(() => gridRef.current?.scrollToNumber(number))
+    }
+  }
+
+  // Adiciona à seleção números livres escolhidos ao acaso
+  const handleRandomPick = async (count: number) => {
+    const candidates = numbers.filter(n => n.isAvailable && !isReservedByOthers(n) && !selectedNumbers.includes(n.number))
+    if (candidates.length < count) {
+      toast.error(candidates.length === 0 ? t('raffle.noneAvailable') : t('raffle.fewAvailable', { count: candidates.length }))
       return
     }
+    const picked = sample(candidates, count).map(n => n.number).sort((a, b) => a - b)
+    const reserved = await updateSelection([...selectedNumbers, ...picked])
+    if (reserved) {
+      const added = picked.filter(n => reserved.includes(n))
+      if (added.length === 0) {
+        return
+      }
+      toast.success(count === 1 ? t('raffle.luckyNumber', { number: added[0] }) : t('raffle.randomPicked', { numbers: added.join(', ') }))
+      gridRef.current?.scrollToNumber(added[0])
+    }
+  }
 
+  const handleApplyPromo = async () => {
     try {
-      await api.purchaseNumbers(selectedNumbers, buyerName.trim(), password.trim())
-      toast.success('Números comprados com sucesso!')
+      const quote = await api.quotePrice(raffleId, selectedNumbers, promoInput.trim())
+      setPromo(quote.promo)
+      toast.success(t('raffle.promoApplied', { code: quote.promo?.code ?? '' }))
+    } catch (error) {
+      setPromo(null)
+      toast.error(error instanceof Error ? error.message : t('raffle.promoError'))
+    }
+  }
+
+  const handlePurchase = async () => {
+    const buyer = { name: buyerName, phone, email }
+    const validationError = validatePurchase(selectedNumbers, buyer, sellerCode, raffle)
+    if (validationError) {
+      toast.error(validationError)
+      return
+    }
+
+    const resetForm = () => {
       setSelectedNumbers([])
       setBuyerName('')
-      setPassword('')
+      setPhone('')
+      setEmail('')
+      setSellerCode('')
+      setPromoInput('')
+      setPromo(null)
+    }
+
+    // A mesma chave acompanha a compra se ela precisar ser reenviada
+    const idempotencyKey = crypto.randomUUID()
+    purchasingRef.current = selectedNumbers
+    try {
+      const result = await api.purchaseNumbers(raffleId, selectedNumbers, buyer, sellerCode.trim(), reservationToken, idempotencyKey, promo?.code ?? null)
+      saveReceiptCode(result.receiptCode)
+      toast.success(t('raffle.purchased', { seller: result.seller.name, receipt: result.receiptCode }), { duration: 8000 })
+      setLastPurchase(result)
+      resetForm()
       loadNumbers()
     } catch (error) {
-      if (error instanceof Error) {
+      purchasingRef.current = []
+      if (error instanceof OfflineError) {
+        const intent: PurchaseIntent = {
+          idempotencyKey,
+          raffleId,
+          numbers: selectedNumbers,
+          buyer,
+          reservationToken,
+          promoCode: promo?.code ?? null,
+          createdAt: new Date().toISOString(),
+        }
+        try {
+          await enqueue(intent, sellerCode.trim())
+          toast.success(t('raffle.purchaseQueued'), { duration: 8000 })
+          resetForm()
+        } catch {
+          toast.error(t('raffle.purchaseQueueError'))
+        }
+      } else if (isApiError(error, 'NUMBERS_UNAVAILABLE')) {
+        // Tira da seleção só o que outra pessoa comprou e mostra o quadro atualizado
+        const unavailable = error.body.numbers ?? []
+        setSelectedNumbers(selected => selected.filter(n => !unavailable.includes(n)))
+        toast.error(error.message)
+        loadNumbers()
+      } else if (isApiError(error, 'INVALID_SELLER_CODE')) {
+        setSellerCode('')
+        sellerCodeRef.current?.focus()
+        toast.error(error.message)
+      } else if (isApiError(error, 'RAFFLE_NOT_OPEN')) {
+        toast.error(error.message)
+        loadNumbers()
+      } else if (isApiError(error, 'INVALID_PROMO_CODE')) {
+        // O cupom expirou ou esgotou desde que foi aplicado; o total volta ao valor sem desconto
+        setPromo(null)
+        toast.error(error.message)
+      } else if (error instanceof Error) {
         toast.error(error.message)
       } else {
-        toast.error('Erro ao comprar números')
+        toast.error(t('raffle.purchaseError'))
       }
     }
   }
 
-  if (loading) {
+  if (loading || !raffle) {
     return (
       <div className="min-h-screen bg-gray-100 flex items-center justify-center">
-        <div className="text-2xl text-gray-600">Carregando...</div>
+        <div className="text-2xl text-gray-600">{t('common.loading')}</div>
       </div>
     )
   }
 
+  const bundles = raffle.bundles.length > 0
+    ? ` (${raffle.bundles.map(bundle => t('raffle.bundle', { quantity: bundle.quantity, price: formatCurrency(bundle.price) })).join(', ')})`
+    : ''
+
   return (
     <div className="min-h-screen bg-gray-100">
       <Toaster position="top-center" />
 
-      {/* Hero Section with Carousel */}
+      {lastPurchase?.pix && (
+        <PixPayment
+          pix={lastPurchase.pix}
+          amount={lastPurchase.totalAmount}
+          receiptCode={lastPurchase.receiptCode}
+          onClose={() => setLastPurchase(null)}
+        />
+      )}
+
+      {/* Prêmios */}
       <div className="mb-12">
-        <Slider {...carouselSettings}>
-          <div className="h-80 bg-gradient-to-r from-indigo-500 to-blue-600 flex items-center justify-center relative">
-            <div className="absolute inset-0 bg-black opacity-20"></div>
-            <div className="relative z-10 text-center px-4">
-              <HeartIcon className="h-16 w-16 text-white mx-auto mb-4" />
-              <h2 className="text-4xl text-white font-bold mb-2">Rifa Solidária</h2>
-              <p className="text-xl text-blue-100">Junte-se a nós nesta causa especial</p>
-            </div>
-          </div>
-          <div className="h-80 bg-gradient-to-r from-blue-500 to-indigo-600 flex items-center justify-center relative">
-            <div className="absolute inset-0 bg-black opacity-20"></div>
-            <div className="relative z-10 text-center px-4">
-              <GiftIcon className="h-16 w-16 text-white mx-auto mb-4" />
-              <h2 className="text-4xl text-white font-bold mb-2">Ajude uma Causa Nobre</h2>
-              <p className="text-xl text-blue-100">Cada número faz a diferença</p>
-            </div>
-          </div>
-          <div className="h-80 bg-gradient-to-r from-indigo-600 to-blue-500 flex items-center justify-center relative">
-            <div className="absolute inset-0 bg-black opacity-20"></div>
-            <div className="relative z-10 text-center px-4">
-              <SparklesIcon className="h-16 w-16 text-white mx-auto mb-4" />
-              <h2 className="text-4xl text-white font-bold mb-2">400 Números Disponíveis</h2>
-              <p className="text-xl text-blue-100">Escolha seus números da sorte</p>
-            </div>
-          </div>
-        </Slider>
+        <PrizeCarousel raffle={raffle} />
       </div>
 
+      {/* Progress */}
+      {stats && (
+        <div className="max-w-4xl mx-auto px-4 mb-12">
+          <div className="bg-white rounded-xl shadow-lg p-8">
+            <RaffleProgress stats={stats} />
+          </div>
+        </div>
+      )}
+
       {/* Cause Description */}
       <div className="max-w-4xl mx-auto px-4 mb-12">
         <div className="bg-white rounded-xl shadow-lg p-8 transform hover:scale-[1.02] transition-transform duration-300">
-          <h2 className="text-3xl font-bold text-gray-800 mb-6 text-center">Sobre a Causa</h2>
+          <h2 className="text-3xl font-bold text-gray-800 mb-6 text-center">{t('raffle.aboutTitle')}</h2>
           <p className="text-gray-600 text-lg leading-relaxed">
-            Esta rifa solidária foi criada para ajudar uma causa nobre. Cada número custa R$ 20,00,
-            e você pode comprar quantos números desejar. Os números são escolhidos livremente,
-            sem necessidade de sequência. Junte-se a nós nesta iniciativa e ajude a fazer a diferença!
+            {t('raffle.about', { description: raffle.description, price: formatCurrency(raffle.ticketPrice), bundles })}
+          </p>
+          {raffle.drawDate && (
+            <p className="text-gray-500 text-center mt-4">
+              {t('raffle.drawDate', { date: formatDate(raffle.drawDate) })}
+            </p>
+          )}
+          <p className="text-center mt-4">
+            <Link to={`/rifas/${raffleId}/sorteio`} className="text-blue-600 hover:text-blue-800">
+              {t('raffle.followDraw')}
+            </Link>
+          </p>
+          <p className="text-center mt-2">
+            <Link to="/meus-numeros" className="text-blue-600 hover:text-blue-800">
+              {t('raffle.lookup')}
+            </Link>
           </p>
         </div>
       </div>
@@ -142,12 +411,12 @@ function App() {
       {/* Purchase Form */}
       <div className="max-w-4xl mx-auto px-4 mb-12">
         <div className="bg-white rounded-xl shadow-lg p-8">
-          <h2 className="text-3xl font-bold text-gray-800 mb-6 text-center">Escolha Seus Números</h2>
+          <h2 className="text-3xl font-bold text-gray-800 mb-6 text-center">{t('raffle.chooseTitle')}</h2>
           
           {/* Buyer Name Input */}
           <div className="mb-6">
             <label htmlFor="buyerName" className="block text-sm font-medium text-gray-700 mb-2">
-              Seu Nome
+              {t('raffle.buyerName')}
             </label>
             <input
               type="text"
@@ -155,86 +424,231 @@ function App() {
               value={buyerName}
               onChange={(e) => setBuyerName(e.target.value)}
               className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
-              placeholder="Digite seu nome completo"
+              placeholder={t('raffle.buyerNamePlaceholder')}
             />
           </div>
 
-          {/* Password Input */}
+          {/* Contact Inputs */}
+          <div className="grid sm:grid-cols-2 gap-4 mb-6">
+            <div>
+              <label htmlFor="phone" className="block text-sm font-medium text-gray-700 mb-2">
+                {t('raffle.phone')}
+              </label>
+              <input
+                type="tel"
+                id="phone"
+                value={phone}
+                onChange={(e) => setPhone(e.target.value)}
+                className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                placeholder="(11) 91234-5678"
+              />
+            </div>
+            <div>
+              <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">
+                {t('raffle.email')}
+              </label>
+              <input
+                type="email"
+                id="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                placeholder={t('raffle.emailPlaceholder')}
+              />
+            </div>
+          </div>
+
+          {/* Seller Code Input */}
           <div className="mb-6">
-            <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">
-              Senha de Verificação
+            <label htmlFor="sellerCode" className="block text-sm font-medium text-gray-700 mb-2">
+              {t('raffle.sellerCode')}
             </label>
             <input
               type="password"
-              id="password"
-              value={password}
-              onChange={(e) => setPassword(e.target.value)}
+              id="sellerCode"
+              ref={sellerCodeRef}
+              value={sellerCode}
+              onChange={(e) => setSellerCode(e.target.value)}
               className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
-              placeholder="Digite a senha de verificação"
+              placeholder={t('raffle.sellerCodePlaceholder')}
             />
           </div>
 
-          {/* Numbers Grid */}
-          <div className="grid grid-cols-8 sm:grid-cols-10 md:grid-cols-12 lg:grid-cols-16 gap-2 mb-8">
-            {console.log('Rendering with selected numbers:', selectedNumbers)}
-            {numbers.map((number) => {
-              const isSelected = selectedNumbers.includes(number.number)
-              console.log(`Number ${number.number} is selected:`, isSelected)
-              
-              return (
+          {/* Promo Code Input */}
+          <div className="mb-6">
+            <label htmlFor="promoCode" className="block text-sm font-medium text-gray-700 mb-2">
+              {t('raffle.promoCode')}
+            </label>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                id="promoCode"
+                value={promoInput}
+                onChange={(e) => {
+                  setPromoInput(e.target.value)
+                  setPromo(null)
+                }}
+                className="flex-1 px-4 py-3 rounded-lg border border-gray-300 uppercase focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                placeholder={t('raffle.promoCodePlaceholder')}
+              />
+              <button
+                type="button"
+                onClick={handleApplyPromo}
+                disabled={!promoInput.trim() || promo !== null}
+                className="px-4 py-3 rounded-lg bg-gray-100 hover:bg-gray-200 text-gray-700 disabled:text-gray-400"
+              >
+                {promo ? t('raffle.promoAppliedButton') : t('raffle.applyPromo')}
+              </button>
+            </div>
+          </div>
+
+          {staleSince && (
+            <div role="status" className="bg-amber-50 border border-amber-300 text-amber-800 rounded-lg p-4 mb-6">
+              {t('raffle.offline', { date: formatDateTime(staleSince) })}
+            </div>
+          )}
+
+          {highlighted.length > 0 && (
+            <p className="text-green-700 text-center mb-4">{t('raffle.highlighted')}</p>
+          )}
+
+          {/* Grid Controls */}
+          <div className="flex flex-wrap items-end gap-4 mb-4">
+            <form
+              onSubmit={(e) => {
+                e.preventDefault()
+                handleSearch()
+              }}
+              className="flex gap-2"
+            >
+              <div>
+                <label htmlFor="numberSearch" className="block text-sm font-medium text-gray-700 mb-1">
+                  {t('raffle.search')}
+                </label>
+                <input
+                  type="number"
+                  id="numberSearch"
+                  inputMode="numeric"
+                  value={search}
+                  min={raffle.numberStart}
+                  max={raffle.numberEnd}
+                  onChange={(e) => setSearch(e.target.value)}
+                  className="w-28 px-3 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  placeholder={String(raffle.numberStart)}
+                />
+              </div>
+              <button type="submit" className="self-end px-4 py-2 rounded-lg bg-gray-100 hover:bg-gray-200 text-gray-700">
+                {t('raffle.searchButton')}
+              </button>
+            </form>
+
+            <div role="group" aria-label={t('raffle.filterLabel')} className="flex rounded-lg border border-gray-300 overflow-hidden">
+              {FILTERS.map((option) => (
                 <button
-                  key={number.number}
-                  onClick={() => handleNumberClick(number.number)}
-                  disabled={!number.isAvailable}
-                  className={`
-                    relative p-2 rounded-lg text-center transition-all duration-200
-                    ${!number.isAvailable 
-                      ? 'bg-gray-200 text-gray-500 cursor-not-allowed' 
-                      : isSelected
-                        ? 'bg-blue-600 text-white transform scale-105 shadow-lg'
-                        : 'bg-white text-gray-700 hover:bg-blue-50 border border-gray-200 hover:border-blue-300'
-                    }
-                  `}
+                  key={option}
+                  type="button"
+                  onClick={() => setFilter(option)}
+                  aria-pressed={filter === option}
+                  className={`px-3 py-2 text-sm ${filter === option ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
                 >
-                  <div className="relative z-10">
-                    <span className="block text-base font-semibold">{number.number}</span>
-                    {!number.isAvailable && number.purchasedBy && (
-                      <span className="block text-gray-500 text-[10px] leading-tight mt-1">
-                        Vendido: {number.purchasedBy}
-                      </span>
-                    )}
-                  </div>
-                  {isSelected && (
-                    <span className="absolute -top-1 -right-1 bg-blue-600 text-white rounded-full w-5 h-5 flex items-center justify-center text-xs">
-                      <CheckIcon className="w-3 h-3" />
-                    </span>
-                  )}
+                  {t(`raffle.filter.${option}`)}
                 </button>
-              )
-            })}
+              ))}
+            </div>
+
+            <div className="flex gap-2 items-end">
+              <div>
+                <label htmlFor="randomCount" className="block text-sm font-medium text-gray-700 mb-1">
+                  {t('raffle.randomCount')}
+                </label>
+                <input
+                  type="number"
+                  id="randomCount"
+                  min={1}
+                  value={randomCount}
+                  onChange={(e) => setRandomCount(Math.max(1, Math.floor(Number(e.target.value)) || 1))}
+                  className="w-20 px-3 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <button
+                type="button"
+                onClick={() => handleRandomPick(randomCount)}
+                className="px-4 py-2 rounded-lg bg-gray-100 hover:bg-gray-200 text-gray-700"
+              >
+                {t('raffle.randomPick')}
+              </button>
+              <button
+                type="button"
+                onClick={() => handleRandomPick(1)}
+                className="px-4 py-2 rounded-lg bg-indigo-100 hover:bg-indigo-200 text-indigo-700"
+              >
+                {t('raffle.luckyPick')}
+              </button>
+            </div>
+          </div>
+
+          <p className="text-sm text-gray-500 mb-4">
+            {t('raffle.keyboardHint')}
+          </p>
+
+          {/* Numbers Grid */}
+          <div className="mb-8">
+            <NumberGrid
+              ref={gridRef}
+              numbers={visibleNumbers}
+              stateOf={stateOf}
+              highlighted={highlighted}
+              onToggle={handleNumberClick}
+            />
           </div>
 
+          {price && <PriceSummary price={price} />}
+
           {/* Purchase Button */}
           <button
             onClick={handlePurchase}
-            disabled={selectedNumbers.length === 0 || !buyerName.trim() || !password.trim()}
+            disabled={selectedNumbers.length === 0 || !buyerName.trim() || !phone.trim() || !sellerCode.trim()}
             className={`
               w-full py-3 px-6 rounded-lg text-white font-semibold transition-all duration-200
-              ${selectedNumbers.length === 0 || !buyerName.trim() || !password.trim()
+              ${selectedNumbers.length === 0 || !buyerName.trim() || !phone.trim() || !sellerCode.trim()
                 ? 'bg-gray-400 cursor-not-allowed'
                 : 'bg-blue-600 hover:bg-blue-700 transform hover:scale-[1.02]'
               }
             `}
           >
-            Comprar {selectedNumbers.length} Número{selectedNumbers.length !== 1 ? 's' : ''}
+            {price && price.quantity > 0
+              ? t('raffle.buyFor', { count: selectedNumbers.length, total: formatCurrency(price.total) })
+              : t('raffle.buy', { count: selectedNumbers.length })}
           </button>
+
+          {queuedPurchases.length > 0 && (
+            <div className="mt-6 border border-amber-300 rounded-lg p-4">
+              <h3 className="font-semibold text-amber-800 mb-2">{t('raffle.queuedTitle')}</h3>
+              <ul className="text-sm text-gray-700 space-y-1">
+                {queuedPurchases.map((intent) => (
+                  <li key={intent.idempotencyKey}>
+                    {t('raffle.queuedItem', { buyer: intent.buyer.name, numbers: intent.numbers.join(', ') })}
+                    {!hasSellerCode(intent) && (
+                      <button
+                        type="button"
+                        onClick={() => handleQueuedSellerCode(intent)}
+                        className="ml-2 text-amber-700 underline"
+                      >
+                        {t('raffle.queuedNeedsCode')}
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
         </div>
       </div>
 
       {/* Footer */}
       <footer className="bg-gray-800 text-white py-8 mt-12">
         <div className="max-w-7xl mx-auto px-4 text-center">
-          <p className="text-gray-300">© 2024 Rifa Solidária da Marlize. Todos os direitos reservados.</p>
+          <p className="text-gray-300">{t('raffle.footer')}</p>
         </div>
       </footer>
     </div>
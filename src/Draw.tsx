@@ -0,0 +1,168 @@
+import { useState, useEffect } from 'react'
+import { Link, useParams } from 'react-router-dom'
+import { toast } from 'react-hot-toast'
+import { api, Draw as DrawResult, Raffle } from './services/api'
+import { useI18n } from './i18n'
+
+async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value))
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('')
+}
+
+// Refaz no navegador o mesmo cálculo do servidor para conferir cada prêmio, na ordem do sorteio
+async function verifyDraw(draw: DrawResult): Promise<boolean> {
+  if (!draw.seed || draw.results.length === 0 || draw.soldNumbers.length < draw.results.length) {
+    return false
+  }
+  if (await sha256Hex(draw.seed) !== draw.seedHash) {
+    return false
+  }
+  let candidates = draw.soldNumbers
+  for (const result of [...draw.results].sort((a, b) => a.order - b.order)) {
+    const digest = await sha256Hex(`${draw.seed}:${candidates.join(',')}`)
+    const index = BigInt(`0x${digest}`) % BigInt(candidates.length)
+    if (candidates[Number(index)] !== result.winningNumber) {
+      return false
+    }
+    candidates = candidates.filter(n => n !== result.winningNumber)
+  }
+  return true
+}
+
+function Draw() {
+  const { t, formatDateTime } = useI18n()
+  const { raffleId = '' } = useParams()
+  const [raffle, setRaffle] = useState<Raffle | null>(null)
+  const [draw, setDraw] = useState<DrawResult | null>(null)
+  const [verified, setVerified] = useState<boolean | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    loadDraw()
+  }, [raffleId])
+
+  const loadDraw = async () => {
+    try {
+      const [raffleData, drawData] = await Promise.all([api.getRaffle(raffleId), api.getDraw(raffleId)])
+      setRaffle(raffleData)
+      setDraw(drawData)
+      if (drawData?.drawnAt) {
+        setVerified(await verifyDraw(drawData))
+      }
+    } catch (error) {
+      toast.error(t('draw.loadError'))
+      console.error('Error loading draw:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const prizes = [...(raffle?.prizes ?? [])].sort((a, b) => a.order - b.order)
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-100 flex items-center justify-center">
+        <div className="text-2xl text-gray-600">{t('common.loading')}</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-100 py-12">
+      <div className="max-w-3xl mx-auto px-4">
+        <Link to={`/rifas/${raffleId}`} className="text-blue-600 hover:text-blue-800">{t('draw.back')}</Link>
+        <h1 className="text-3xl font-bold text-gray-800 my-6 text-center">{t('draw.title', { title: raffle?.title ?? '' })}</h1>
+
+        {!draw && (
+          <div className="bg-white rounded-xl shadow-lg p-8 text-center text-gray-600">
+            {t('draw.notPrepared')}
+          </div>
+        )}
+
+        {draw && (
+          <div className="bg-white rounded-xl shadow-lg p-8 space-y-6">
+            {draw.results.length === 0 && (
+              <p className="text-center text-gray-600">{t('draw.notYet')}</p>
+            )}
+
+            {prizes.length === 0 && draw.results.map((result) => (
+              <div key={result.order} className="text-center">
+                <p className="text-gray-500">{t('draw.winningNumber')}</p>
+                <p className="text-6xl font-bold text-blue-600 my-2">{result.winningNumber}</p>
+                {result.winnerName && <p className="text-xl text-gray-800">{result.winnerName}</p>}
+                <p className="text-sm text-gray-500 mt-2">
+                  {t('draw.drawnAt', { date: formatDateTime(result.drawnAt) })}
+                </p>
+              </div>
+            ))}
+
+            {prizes.length > 0 && (
+              <ol className="space-y-4">
+                {prizes.map((prize) => {
+                  const result = draw.results.find(r => r.order === prize.order)
+                  return (
+                    <li key={prize._id} className="flex items-center gap-4 border border-gray-100 rounded-lg p-4">
+                      {prize.imageUrl && (
+                        <img src={prize.imageUrl} alt={prize.name} className="w-20 h-20 object-cover rounded-lg" />
+                      )}
+                      <div className="flex-1">
+                        <p className="text-sm text-gray-500">{t('prize.nth', { order: prize.order })}</p>
+                        <p className="text-lg font-semibold text-gray-800">{result?.prizeName ?? prize.name}</p>
+                        {result?.winnerName && <p className="text-gray-600">{result.winnerName}</p>}
+                      </div>
+                      {result ? (
+                        <p className="text-4xl font-bold text-blue-600">{result.winningNumber}</p>
+                      ) : (
+                        <p className="text-sm text-gray-500">{t('draw.waiting')}</p>
+                      )}
+                    </li>
+                  )
+                })}
+              </ol>
+            )}
+
+            {draw.drawnAt && (
+              <p className="text-sm text-gray-500 text-center">
+                {t('draw.completedAt', { date: formatDateTime(draw.drawnAt) })}
+              </p>
+            )}
+
+            <div>
+              <h2 className="text-lg font-semibold text-gray-800 mb-2">{t('draw.verification')}</h2>
+              <p className="text-sm text-gray-600 mb-1">
+                {t('draw.seedHash', { date: formatDateTime(draw.committedAt) })}
+              </p>
+              <code className="block break-all bg-gray-50 p-2 rounded text-xs">{draw.seedHash}</code>
+              {draw.seed && (
+                <>
+                  <p className="text-sm text-gray-600 mt-4 mb-1">{t('draw.seed')}</p>
+                  <code className="block break-all bg-gray-50 p-2 rounded text-xs">{draw.seed}</code>
+                  <p className="text-sm text-gray-600 mt-4 mb-1">{t('draw.soldNumbers', { count: draw.soldNumbers.length })}</p>
+                  <code className="block break-all bg-gray-50 p-2 rounded text-xs">{draw.soldNumbers.join(',')}</code>
+                </>
+              )}
+            </div>
+
+            <div className="text-sm text-gray-600">
+              <h2 className="text-lg font-semibold text-gray-800 mb-2">{t('draw.howTo')}</h2>
+              <ol className="list-decimal list-inside space-y-1">
+                <li>{t('draw.step1')}</li>
+                <li>{t('draw.step2.start')} <code>{t('draw.step2.formula')}</code>{t('draw.step2.end')}</li>
+                <li>{t('draw.step3')}</li>
+                <li>{t('draw.step4')}</li>
+                <li>{t('draw.step5')}</li>
+              </ol>
+              {verified !== null && (
+                <p className={`mt-4 font-semibold ${verified ? 'text-green-600' : 'text-red-600'}`}>
+                  {verified ? t('draw.verified') : t('draw.notVerified')}
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default Draw
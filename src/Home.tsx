@@ -0,0 +1,73 @@
+import { useState, useEffect } from 'react'
+import { Link, Navigate } from 'react-router-dom'
+import { toast } from 'react-hot-toast'
+import { api, Raffle } from './services/api'
+import { useI18n } from './i18n'
+
+function Home() {
+  const { t, formatCurrency } = useI18n()
+  const [raffles, setRaffles] = useState<Raffle[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    loadRaffles()
+  }, [])
+
+  const loadRaffles = async () => {
+    try {
+      setRaffles(await api.getRaffles())
+    } catch (error) {
+      toast.error(t('home.loadError'))
+      console.error('Error loading raffles:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-100 flex items-center justify-center">
+        <div className="text-2xl text-gray-600">{t('common.loading')}</div>
+      </div>
+    )
+  }
+
+  // Com uma única rifa, vai direto para a página dela
+  if (raffles.length === 1) {
+    return <Navigate to={`/rifas/${raffles[0]._id}`} replace />
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-100 py-12">
+      <div className="max-w-4xl mx-auto px-4">
+        <h1 className="text-3xl font-bold text-gray-800 mb-2 text-center">{t('home.title')}</h1>
+        <p className="text-center mb-8">
+          <Link to="/meus-numeros" className="text-blue-600 hover:text-blue-800">{t('home.lookup')}</Link>
+        </p>
+        {raffles.length === 0 && (
+          <p className="text-gray-600 text-center">{t('home.empty')}</p>
+        )}
+        <div className="grid gap-6 sm:grid-cols-2">
+          {raffles.map((raffle) => (
+            <Link
+              key={raffle._id}
+              to={`/rifas/${raffle._id}`}
+              className="bg-white rounded-xl shadow-lg p-6 hover:shadow-xl transition-shadow duration-300"
+            >
+              <h2 className="text-xl font-bold text-gray-800 mb-2">{raffle.title}</h2>
+              <p className="text-gray-600 mb-4">{raffle.description}</p>
+              <p className="text-blue-600 font-semibold">
+                {t('home.pricePerNumber', { price: formatCurrency(raffle.ticketPrice) })}
+              </p>
+              {raffle.status !== 'open' && (
+                <p className="text-gray-500 text-sm mt-2">{t('home.salesClosed')}</p>
+              )}
+            </Link>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default Home
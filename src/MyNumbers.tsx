@@ -0,0 +1,188 @@
+import { useState, useEffect } from 'react'
+import { Link } from 'react-router-dom'
+import { toast } from 'react-hot-toast'
+import { ValidationError } from 'yup'
+import { api, PaymentStatus, PurchaseLookup } from './services/api'
+import { savedReceiptCodes } from './services/receipts'
+import { lookupCodeSchema } from '../shared/schemas'
+import { validationMessage } from '../shared/messages'
+import { useI18n } from './i18n'
+
+const STATUS_CLASSES: Record<PaymentStatus, string> = {
+  pending: 'bg-amber-100 text-amber-700',
+  paid: 'bg-green-100 text-green-700',
+  cancelled: 'bg-red-100 text-red-700',
+}
+
+function MyNumbers() {
+  const { locale, t, formatCurrency, formatDate } = useI18n()
+  const [receipt, setReceipt] = useState('')
+  const [phone, setPhone] = useState('')
+  const [code, setCode] = useState('')
+  const [codeSent, setCodeSent] = useState(false)
+  const [purchases, setPurchases] = useState<PurchaseLookup[]>([])
+
+  // Compras feitas neste aparelho aparecem sem precisar buscar
+  useEffect(() => {
+    Promise.allSettled(savedReceiptCodes().map(receiptCode => api.lookupPurchases({ receipt: receiptCode })))
+      .then(results => addPurchases(results.flatMap(result => result.status === 'fulfilled' ? result.value : [])))
+  }, [])
+
+  const addPurchases = (found: PurchaseLookup[]) => {
+    setPurchases(prev => [
+      ...found,
+      ...prev.filter(purchase => !found.some(f => f.receiptCode === purchase.receiptCode)),
+    ])
+  }
+
+  const handleReceiptLookup = async () => {
+    try {
+      addPurchases(await api.lookupPurchases({ receipt: receipt.trim() }))
+      setReceipt('')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('myNumbers.receiptError'))
+    }
+  }
+
+  const handleSendCode = async () => {
+    try {
+      lookupCodeSchema.validateSync({ phone })
+      await api.requestLookupCode(phone.trim())
+      setCodeSent(true)
+      toast.success(t('myNumbers.codeSent'))
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        toast.error(validationMessage(locale, error.message, error.params))
+      } else {
+        toast.error(error instanceof Error ? error.message : t('myNumbers.sendCodeError'))
+      }
+    }
+  }
+
+  const handlePhoneLookup = async () => {
+    try {
+      addPurchases(await api.lookupPurchases({ phone: phone.trim(), code: code.trim() }))
+      setCode('')
+      setCodeSent(false)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('myNumbers.lookupError'))
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-100 py-12">
+      <div className="max-w-3xl mx-auto px-4">
+        <h1 className="text-3xl font-bold text-gray-800 mb-2 text-center">{t('myNumbers.title')}</h1>
+        <p className="text-gray-600 text-center mb-8">
+          {t('myNumbers.intro')}
+        </p>
+
+        <div className="grid gap-6 sm:grid-cols-2 mb-8">
+          <div className="bg-white rounded-xl shadow-lg p-6">
+            <h2 className="text-lg font-bold text-gray-800 mb-4">{t('myNumbers.byReceipt')}</h2>
+            <input
+              type="text"
+              value={receipt}
+              onChange={(e) => setReceipt(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && receipt.trim() && handleReceiptLookup()}
+              className="w-full px-4 py-2 rounded-lg border border-gray-300 uppercase mb-3"
+              placeholder="ABCD-2345"
+            />
+            <button
+              onClick={handleReceiptLookup}
+              disabled={!receipt.trim()}
+              className="w-full py-2 rounded-lg text-white font-semibold bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400"
+            >
+              {t('myNumbers.search')}
+            </button>
+          </div>
+
+          <div className="bg-white rounded-xl shadow-lg p-6">
+            <h2 className="text-lg font-bold text-gray-800 mb-4">{t('myNumbers.byPhone')}</h2>
+            <input
+              type="tel"
+              value={phone}
+              onChange={(e) => setPhone(e.target.value)}
+              className="w-full px-4 py-2 rounded-lg border border-gray-300 mb-3"
+              placeholder="(11) 91234-5678"
+            />
+            {codeSent ? (
+              <>
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && code.trim() && handlePhoneLookup()}
+                  className="w-full px-4 py-2 rounded-lg border border-gray-300 mb-3"
+                  placeholder={t('myNumbers.codePlaceholder')}
+                />
+                <button
+                  onClick={handlePhoneLookup}
+                  disabled={!code.trim()}
+                  className="w-full py-2 rounded-lg text-white font-semibold bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400"
+                >
+                  {t('myNumbers.show')}
+                </button>
+              </>
+            ) : (
+              <button
+                onClick={handleSendCode}
+                disabled={!phone.trim()}
+                className="w-full py-2 rounded-lg text-white font-semibold bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400"
+              >
+                {t('myNumbers.sendCode')}
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          {purchases.map((purchase) => (
+            <div key={purchase.receiptCode} className="bg-white rounded-xl shadow-lg p-6">
+              <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+                <h2 className="text-xl font-bold text-gray-800">{purchase.raffle?.title ?? t('myNumbers.raffle')}</h2>
+                <span className={`px-3 py-1 rounded-full text-sm font-semibold ${STATUS_CLASSES[purchase.paymentStatus]}`}>
+                  {t(`payment.${purchase.paymentStatus}`)}
+                </span>
+              </div>
+              <p className="text-sm text-gray-500 mb-3">
+                {t('myNumbers.summary', {
+                  receipt: purchase.receiptCode,
+                  buyer: purchase.buyerName,
+                  date: formatDate(purchase.purchaseDate),
+                  amount: formatCurrency(purchase.totalAmount),
+                })}
+              </p>
+              <div className="flex flex-wrap gap-2 mb-4">
+                {purchase.numbers.map((number) => (
+                  <span key={number} className="px-3 py-1 rounded-lg bg-blue-600 text-white font-semibold">
+                    {number}
+                  </span>
+                ))}
+              </div>
+              <p className="text-sm space-x-4 mb-2">
+                <a href={api.receiptUrl(purchase.receiptCode, 'pdf')} target="_blank" rel="noreferrer" className="text-blue-600 hover:text-blue-800">
+                  {t('myNumbers.pdf')}
+                </a>
+                <a href={api.receiptUrl(purchase.receiptCode, 'png')} target="_blank" rel="noreferrer" className="text-blue-600 hover:text-blue-800">
+                  {t('common.whatsappImage')}
+                </a>
+              </p>
+              {purchase.raffle && purchase.paymentStatus !== 'cancelled' && (
+                <Link
+                  to={`/rifas/${purchase.raffle._id}?destaque=${purchase.numbers.join(',')}`}
+                  className="text-blue-600 hover:text-blue-800"
+                >
+                  {t('myNumbers.showInGrid')}
+                </Link>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default MyNumbers
@@ -0,0 +1,93 @@
+import { useState, useEffect } from 'react'
+import { Link, useSearchParams } from 'react-router-dom'
+import { CheckIcon, XMarkIcon } from '@heroicons/react/24/outline'
+import { api, ReceiptVerification } from './services/api'
+import { useI18n } from './i18n'
+
+// Página aberta pelo QR code do comprovante
+function ReceiptCheck() {
+  const { t, formatCurrency, formatDateTime } = useI18n()
+  const [searchParams] = useSearchParams()
+  const [result, setResult] = useState<ReceiptVerification | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    const token = searchParams.get('token')
+    if (!token) {
+      setResult({ valid: false })
+      setLoading(false)
+      return
+    }
+    api.verifyReceipt(token)
+      .then(setResult)
+      .catch(() => setResult({ valid: false }))
+      .finally(() => setLoading(false))
+  }, [searchParams])
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-100 flex items-center justify-center">
+        <div className="text-2xl text-gray-600">{t('receipt.checking')}</div>
+      </div>
+    )
+  }
+
+  const receipt = result?.receipt
+
+  return (
+    <div className="min-h-screen bg-gray-100 py-12">
+      <div className="max-w-md mx-auto px-4">
+        <div className="bg-white rounded-xl shadow-lg p-8 text-center">
+          {result?.valid && receipt ? (
+            <>
+              <CheckIcon className="h-16 w-16 text-green-600 mx-auto mb-4" />
+              <h1 className="text-2xl font-bold text-gray-800 mb-2">{t('receipt.authentic')}</h1>
+              <p className="text-gray-600 mb-6">{receipt.raffleTitle}</p>
+              <dl className="text-left space-y-2">
+                <div className="flex justify-between">
+                  <dt className="text-gray-500">{t('receipt.buyer')}</dt>
+                  <dd className="font-semibold">{receipt.buyerName}</dd>
+                </div>
+                <div className="flex justify-between">
+                  <dt className="text-gray-500">{t('receipt.numbers')}</dt>
+                  <dd className="font-semibold">{receipt.numbers.join(', ')}</dd>
+                </div>
+                <div className="flex justify-between">
+                  <dt className="text-gray-500">{t('receipt.amount')}</dt>
+                  <dd className="font-semibold">
+                    {formatCurrency(receipt.totalAmount)}
+                  </dd>
+                </div>
+                <div className="flex justify-between">
+                  <dt className="text-gray-500">{t('receipt.date')}</dt>
+                  <dd className="font-semibold">{formatDateTime(receipt.purchaseDate)}</dd>
+                </div>
+                <div className="flex justify-between">
+                  <dt className="text-gray-500">{t('receipt.payment')}</dt>
+                  <dd className="font-semibold">{t(`payment.${receipt.paymentStatus}`)}</dd>
+                </div>
+                <div className="flex justify-between">
+                  <dt className="text-gray-500">{t('receipt.code')}</dt>
+                  <dd className="font-mono font-semibold">{receipt.receiptCode}</dd>
+                </div>
+              </dl>
+            </>
+          ) : (
+            <>
+              <XMarkIcon className="h-16 w-16 text-red-600 mx-auto mb-4" />
+              <h1 className="text-2xl font-bold text-gray-800 mb-2">{t('receipt.notConfirmed')}</h1>
+              <p className="text-gray-600">
+                {t('receipt.notConfirmedHelp')}
+              </p>
+            </>
+          )}
+          <Link to="/" className="inline-block mt-6 text-blue-600 hover:text-blue-800">
+            {t('receipt.seeRaffles')}
+          </Link>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default ReceiptCheck
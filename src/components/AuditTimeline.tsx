@@ -0,0 +1,98 @@
+import { useState } from 'react'
+import { toast } from 'react-hot-toast'
+import { adminApi, AuditAction, AuditEvent } from '../services/adminApi'
+import { useI18n } from '../i18n'
+
+interface AuditTimelineProps {
+  raffleId: string
+}
+
+const ACTION_COLORS: Record<AuditAction, string> = {
+  purchase: 'bg-blue-500',
+  import: 'bg-blue-500',
+  edit: 'bg-gray-400',
+  payment: 'bg-green-500',
+  cancel: 'bg-red-500',
+  release: 'bg-amber-500',
+  draw: 'bg-purple-500',
+}
+
+const formatValue = (value: unknown) =>
+  value === null || value === undefined || value === '' ? '—' : Array.isArray(value) ? value.join(', ') : String(value)
+
+// Só os campos que mudaram; numa compra, todos os dados registrados
+function changedFields(event: AuditEvent): { field: string; before: unknown; after: unknown }[] {
+  const before = event.before ?? {}
+  const after = event.after ?? {}
+  return Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+    .filter(field => formatValue(before[field]) !== formatValue(after[field]))
+    .map(field => ({ field, before: before[field], after: after[field] }))
+}
+
+function AuditTimeline({ raffleId }: AuditTimelineProps) {
+  const { t, formatDateTime } = useI18n()
+  const [number, setNumber] = useState('')
+  const [events, setEvents] = useState<AuditEvent[] | null>(null)
+
+  const handleSearch = async () => {
+    try {
+      setEvents(await adminApi.getNumberHistory(raffleId, Number(number)))
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('audit.loadError'))
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6 mb-8">
+      <h2 className="text-xl font-bold text-gray-800 mb-4">{t('audit.title')}</h2>
+
+      <div className="flex gap-2 mb-4">
+        <input
+          type="number"
+          value={number}
+          onChange={(e) => setNumber(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && number && handleSearch()}
+          className="w-40 px-4 py-2 rounded-lg border border-gray-300"
+          placeholder={t('audit.numberPlaceholder')}
+        />
+        <button
+          onClick={handleSearch}
+          disabled={!number}
+          className="px-4 py-2 rounded-lg text-white font-semibold bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400"
+        >
+          {t('audit.show')}
+        </button>
+      </div>
+
+      {events && events.length === 0 && (
+        <p className="text-gray-500">{t('audit.empty')}</p>
+      )}
+
+      {events && events.length > 0 && (
+        <ol className="relative border-l-2 border-gray-200 ml-2">
+          {events.map((event) => (
+            <li key={event._id} className="ml-6 mb-6">
+              <span className={`absolute -left-[9px] w-4 h-4 rounded-full ${ACTION_COLORS[event.action]}`} />
+              <p className="font-semibold text-gray-800">
+                {t(`audit.action.${event.action}`)}
+                <span className="font-normal text-gray-500">
+                  {' '}{t('audit.byAt', { actor: event.actor, date: formatDateTime(event.createdAt) })}
+                  {event.ip && ` (IP ${event.ip})`}
+                </span>
+              </p>
+              <ul className="text-sm text-gray-600 mt-1">
+                {changedFields(event).map(({ field, before, after }) => (
+                  <li key={field}>
+                    {field}: {event.before && `${formatValue(before)} → `}{formatValue(after)}
+                  </li>
+                ))}
+              </ul>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  )
+}
+
+export default AuditTimeline
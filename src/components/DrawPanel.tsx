@@ -0,0 +1,156 @@
+import { useState, useEffect } from 'react'
+import { Link } from 'react-router-dom'
+import { toast } from 'react-hot-toast'
+import { api, BuyerNameDisplay, Draw, Raffle, RaffleStatus } from '../services/api'
+import { adminApi } from '../services/adminApi'
+import { useI18n } from '../i18n'
+
+interface DrawPanelProps {
+  raffle: Raffle
+  onRaffleChange: (raffle: Raffle) => void
+}
+
+const STATUSES: RaffleStatus[] = ['draft', 'open', 'closed', 'drawn']
+
+const BUYER_NAME_DISPLAYS: BuyerNameDisplay[] = ['masked', 'hidden']
+
+function DrawPanel({ raffle, onRaffleChange }: DrawPanelProps) {
+  const { t } = useI18n()
+  const [draw, setDraw] = useState<Draw | null>(null)
+
+  useEffect(() => {
+    loadDraw()
+  }, [raffle._id])
+
+  const loadDraw = async () => {
+    try {
+      setDraw(await api.getDraw(raffle._id))
+    } catch (error) {
+      toast.error(t('draw.loadError'))
+    }
+  }
+
+  const handleRaffleChange = async (changes: Partial<Pick<Raffle, 'status' | 'buyerNameDisplay'>>) => {
+    try {
+      onRaffleChange(await adminApi.updateRaffle(raffle._id, changes))
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('drawPanel.updateError'))
+    }
+  }
+
+  const handleCommit = async () => {
+    try {
+      await adminApi.commitDraw(raffle._id)
+      toast.success(t('drawPanel.committed'))
+      loadDraw()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('drawPanel.commitError'))
+    }
+  }
+
+  const prizes = [...raffle.prizes].sort((a, b) => a.order - b.order)
+  const drawnCount = draw?.results.length ?? 0
+  const nextPrize = prizes[drawnCount] ?? null
+
+  const handleDraw = async () => {
+    const question = nextPrize
+      ? t('drawPanel.confirmPrize', { order: nextPrize.order, name: nextPrize.name })
+      : t('drawPanel.confirmNumber')
+    if (!window.confirm(question)) {
+      return
+    }
+    try {
+      const result = await adminApi.drawWinner(raffle._id)
+      const drawn = result.results[result.results.length - 1]
+      toast.success(drawn.prizeName
+        ? t('drawPanel.prizeDrawn', { prize: drawn.prizeName, number: drawn.winningNumber })
+        : t('drawPanel.numberDrawn', { number: drawn.winningNumber }))
+      if (result.drawnAt) {
+        onRaffleChange({ ...raffle, status: 'drawn' })
+      }
+      setDraw(result)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('drawPanel.drawError'))
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold text-gray-800">{t('drawPanel.title')}</h2>
+        <Link to={`/rifas/${raffle._id}/sorteio`} className="text-sm text-blue-600 hover:text-blue-800">
+          {t('drawPanel.publicPage')}
+        </Link>
+      </div>
+
+      <div className="flex items-center gap-2 mb-4">
+        <label htmlFor="raffleStatus" className="text-sm text-gray-600">{t('drawPanel.status')}</label>
+        <select
+          id="raffleStatus"
+          value={raffle.status}
+          onChange={(e) => handleRaffleChange({ status: e.target.value as RaffleStatus })}
+          disabled={raffle.status === 'drawn'}
+          className="px-3 py-1 rounded-lg border border-gray-300"
+        >
+          {STATUSES.map((status) => (
+            <option key={status} value={status}>{t(`raffleStatus.${status}`)}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex items-center gap-2 mb-4">
+        <label htmlFor="buyerNameDisplay" className="text-sm text-gray-600">{t('drawPanel.buyerNames')}</label>
+        <select
+          id="buyerNameDisplay"
+          value={raffle.buyerNameDisplay}
+          onChange={(e) => handleRaffleChange({ buyerNameDisplay: e.target.value as BuyerNameDisplay })}
+          className="px-3 py-1 rounded-lg border border-gray-300"
+        >
+          {BUYER_NAME_DISPLAYS.map((display) => (
+            <option key={display} value={display}>{t(`buyerNames.${display}`)}</option>
+          ))}
+        </select>
+      </div>
+
+      {draw ? (
+        <p className="text-sm text-gray-600 mb-4 break-all">{t('drawPanel.seedHash')} <code>{draw.seedHash}</code></p>
+      ) : (
+        <p className="text-sm text-gray-600 mb-4">
+          {t('drawPanel.commitHint')}
+        </p>
+      )}
+
+      {draw && draw.results.length > 0 && (
+        <ol className="mb-4 space-y-1">
+          {draw.results.map((result) => (
+            <li key={result.order} className="text-lg font-semibold text-blue-600">
+              {result.prizeName
+                ? t('drawPanel.prizeResult', { order: result.order, prize: result.prizeName, number: result.winningNumber })
+                : t('drawPanel.numberDrawn', { number: result.winningNumber })}
+              {result.winnerName && ` (${result.winnerName})`}
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          onClick={handleCommit}
+          disabled={!!draw || raffle.status !== 'open'}
+          className="px-4 py-2 rounded-lg text-white font-semibold bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400"
+        >
+          {t('drawPanel.commit')}
+        </button>
+        <button
+          onClick={handleDraw}
+          disabled={!draw || !!draw.drawnAt || raffle.status !== 'closed'}
+          className="px-4 py-2 rounded-lg text-white font-semibold bg-green-600 hover:bg-green-700 disabled:bg-gray-400"
+        >
+          {nextPrize ? t('drawPanel.drawPrize', { order: nextPrize.order }) : t('drawPanel.draw')}
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export default DrawPanel
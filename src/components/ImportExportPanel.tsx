@@ -0,0 +1,144 @@
+import { useState, ChangeEvent } from 'react'
+import { toast } from 'react-hot-toast'
+import { adminApi, ImportReport } from '../services/adminApi'
+import { useI18n } from '../i18n'
+
+interface ImportExportPanelProps {
+  raffleId: string
+  onImported: () => void
+}
+
+function ImportExportPanel({ raffleId, onImported }: ImportExportPanelProps) {
+  const { t, formatCurrency } = useI18n()
+  const [csv, setCsv] = useState<string | null>(null)
+  const [report, setReport] = useState<ImportReport | null>(null)
+  const [isImporting, setIsImporting] = useState(false)
+
+  const handleExport = async (format: 'csv' | 'xlsx') => {
+    try {
+      await adminApi.exportSales(raffleId, format)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('import.exportError'))
+    }
+  }
+
+  // Primeiro uma simulação: nada é gravado até o admin confirmar
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) {
+      return
+    }
+    try {
+      const text = await file.text()
+      setCsv(text)
+      setReport(await adminApi.importSales(raffleId, text, true))
+    } catch (error) {
+      setCsv(null)
+      setReport(null)
+      toast.error(error instanceof Error ? error.message : t('import.readError'))
+    }
+  }
+
+  const handleConfirm = async () => {
+    if (!csv) {
+      return
+    }
+    setIsImporting(true)
+    try {
+      const result = await adminApi.importSales(raffleId, csv, false)
+      toast.success(t('import.imported', { count: result.purchases.length }))
+      setCsv(null)
+      setReport(null)
+      onImported()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('import.importError'))
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  const handleCancel = () => {
+    setCsv(null)
+    setReport(null)
+  }
+
+  const soldNumbers = report?.purchases.reduce((sum, purchase) => sum + purchase.numbers.length, 0) ?? 0
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6 mb-8">
+      <h2 className="text-xl font-bold text-gray-800 mb-4">{t('import.title')}</h2>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        <button
+          onClick={() => handleExport('csv')}
+          className="px-4 py-2 rounded-lg text-white font-semibold bg-blue-600 hover:bg-blue-700"
+        >
+          {t('import.exportCsv')}
+        </button>
+        <button
+          onClick={() => handleExport('xlsx')}
+          className="px-4 py-2 rounded-lg text-white font-semibold bg-blue-600 hover:bg-blue-700"
+        >
+          {t('import.exportExcel')}
+        </button>
+        <label className="px-4 py-2 rounded-lg font-semibold border border-gray-300 text-gray-700 hover:bg-gray-50 cursor-pointer">
+          {t('import.importOffline')}
+          <input type="file" accept=".csv,text/csv" onChange={handleFile} className="hidden" />
+        </label>
+      </div>
+
+      {report && (
+        <div className="border-t border-gray-100 pt-4">
+          <p className="text-gray-700 mb-2">
+            {t('import.summary', { rows: report.rows, purchases: report.purchases.length, numbers: soldNumbers })}
+          </p>
+
+          {report.conflicts.length > 0 ? (
+            <>
+              <p className="text-red-600 font-semibold mb-2">
+                {t('import.fixConflicts')}
+              </p>
+              <ul className="text-sm text-red-700 space-y-1 mb-4 max-h-60 overflow-y-auto">
+                {report.conflicts.map((conflict, index) => (
+                  <li key={index}>
+                    {conflict.number !== null
+                      ? t('import.conflictNumber', { line: conflict.line, number: conflict.number, reason: conflict.reason })
+                      : t('import.conflict', { line: conflict.line, reason: conflict.reason })}
+                  </li>
+                ))}
+              </ul>
+            </>
+          ) : (
+            <ul className="text-sm text-gray-600 space-y-1 mb-4 max-h-60 overflow-y-auto">
+              {report.purchases.map((purchase, index) => (
+                <li key={index}>
+                  {t(purchase.paymentStatus === 'paid' ? 'import.purchasePaid' : 'import.purchase', {
+                    buyer: purchase.buyerName,
+                    numbers: purchase.numbers.join(', '),
+                    amount: formatCurrency(purchase.totalAmount),
+                  })}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex gap-2">
+            <button
+              onClick={handleConfirm}
+              disabled={isImporting || report.conflicts.length > 0 || report.purchases.length === 0}
+              className="px-4 py-2 rounded-lg text-white font-semibold bg-green-600 hover:bg-green-700 disabled:bg-gray-400"
+            >
+              {isImporting ? t('import.importing') : t('import.confirm')}
+            </button>
+            <button onClick={handleCancel} className="px-4 py-2 rounded-lg text-gray-700 hover:bg-gray-100">
+              {t('common.cancel')}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default ImportExportPanel
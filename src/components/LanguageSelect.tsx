@@ -0,0 +1,27 @@
+import { LOCALES, Locale, useI18n } from '../i18n'
+
+// Cada idioma aparece com o próprio nome, para quem não lê o idioma atual
+const LOCALE_NAMES: Record<Locale, string> = {
+  'pt-BR': 'Português',
+  en: 'English',
+  es: 'Español',
+}
+
+function LanguageSelect() {
+  const { locale, setLocale, t } = useI18n()
+
+  return (
+    <select
+      value={locale}
+      onChange={(e) => setLocale(e.target.value as Locale)}
+      aria-label={t('language.label')}
+      className="fixed top-2 right-2 z-40 px-2 py-1 rounded-lg border border-gray-300 bg-white text-sm text-gray-700 shadow"
+    >
+      {LOCALES.map((option) => (
+        <option key={option} value={option} lang={option}>{LOCALE_NAMES[option]}</option>
+      ))}
+    </select>
+  )
+}
+
+export default LanguageSelect
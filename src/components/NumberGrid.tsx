@@ -0,0 +1,231 @@
+import { forwardRef, memo, useCallback, useEffect, useImperativeHandle, useMemo, useRef, useState, KeyboardEvent } from 'react'
+import { CheckIcon } from '@heroicons/react/24/outline'
+import { PublicRaffleNumber } from '../services/api'
+import { useI18n } from '../i18n'
+
+// Só as linhas visíveis (mais uma margem) são renderizadas, então rifas com milhares de números continuam leves
+const ROW_HEIGHT = 64
+const GAP = 8
+const MIN_CELL_WIDTH = 56
+const MAX_HEIGHT = 520
+const OVERSCAN_ROWS = 3
+
+export type NumberState = 'available' | 'sold' | 'reserved' | 'selected'
+
+export interface NumberGridHandle {
+  // Rola até o número e move o foco para ele
+  scrollToNumber: (number: number) => boolean
+}
+
+interface NumberGridProps {
+  numbers: PublicRaffleNumber[]
+  stateOf: (number: PublicRaffleNumber) => NumberState
+  highlighted: number[]
+  onToggle: (number: number) => void
+}
+
+const STATE_CLASSES: Record<NumberState, string> = {
+  available: 'bg-white text-gray-700 hover:bg-blue-50 border border-gray-200 hover:border-blue-300',
+  sold: 'bg-gray-200 text-gray-500 cursor-not-allowed',
+  reserved: 'bg-amber-100 text-amber-700 border border-amber-300 cursor-not-allowed',
+  selected: 'bg-blue-600 text-white shadow-lg',
+}
+
+interface NumberCellProps {
+  number: number
+  state: NumberState
+  displayName: string | null
+  isHighlighted: boolean
+  isActive: boolean
+  onToggle: (number: number) => void
+}
+
+// Só renderiza de novo quando o estado do próprio número muda
+const NumberCell = memo(function NumberCell({ number, state, displayName, isHighlighted, isActive, onToggle }: NumberCellProps) {
+  const { t } = useI18n()
+  const label = [
+    t('grid.cell', { number, state: t(`grid.state.${state}`) }),
+    state === 'sold' && displayName && t('grid.soldTo', { name: displayName }),
+    isHighlighted && t('grid.yours'),
+  ]
+    .filter(Boolean)
+    .join(', ')
+
+  return (
+    <button
+      type="button"
+      data-number={number}
+      tabIndex={isActive ? 0 : -1}
+      onClick={() => onToggle(number)}
+      aria-disabled={state === 'sold' || state === 'reserved'}
+      aria-pressed={state === 'selected'}
+      aria-label={label}
+      className={`
+        relative w-full h-full p-2 rounded-lg text-center transition-colors duration-200 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500
+        ${isHighlighted ? 'ring-2 ring-green-500 ring-offset-1' : ''}
+        ${STATE_CLASSES[state]}
+      `}
+    >
+      <span className="block text-base font-semibold">{number}</span>
+      {state === 'sold' && displayName && (
+        <span className="block text-gray-500 text-[10px] leading-tight mt-1 truncate">
+          {t('grid.soldBadge', { name: displayName })}
+        </span>
+      )}
+      {state === 'reserved' && (
+        <span className="block text-amber-600 text-[10px] leading-tight mt-1">
+          {t('grid.reservedBadge')}
+        </span>
+      )}
+      {state === 'selected' && (
+        <span className="absolute -top-1 -right-1 bg-blue-600 text-white rounded-full w-5 h-5 flex items-center justify-center text-xs">
+          <CheckIcon className="w-3 h-3" />
+        </span>
+      )}
+    </button>
+  )
+})
+
+const NumberGrid = forwardRef<NumberGridHandle, NumberGridProps>(function NumberGrid({ numbers, stateOf, highlighted, onToggle }, ref) {
+  const { t } = useI18n()
+  const containerRef = useRef<HTMLDivElement>(null)
+  const [width, setWidth] = useState(0)
+  const [scrollTop, setScrollTop] = useState(0)
+  const [activeIndex, setActiveIndex] = useState(0)
+  // Número que deve receber o foco assim que for renderizado
+  const pendingFocus = useRef<number | null>(null)
+
+  // O clique chama sempre a versão mais recente, sem invalidar o memo das células
+  const onToggleRef = useRef(onToggle)
+  onToggleRef.current = onToggle
+  const handleToggle = useCallback((number: number) => onToggleRef.current(number), [])
+
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) {
+      return
+    }
+    const observer = new ResizeObserver(([entry]) => setWidth(entry.contentRect.width))
+    observer.observe(container)
+    return () => observer.disconnect()
+  }, [])
+
+  const columns = Math.max(4, Math.floor((width + GAP) / (MIN_CELL_WIDTH + GAP)))
+  const rows = Math.ceil(numbers.length / columns)
+  const height = Math.min(MAX_HEIGHT, rows * (ROW_HEIGHT + GAP))
+  const firstRow = Math.max(0, Math.floor(scrollTop / (ROW_HEIGHT + GAP)) - OVERSCAN_ROWS)
+  const lastRow = Math.min(rows - 1, Math.ceil((scrollTop + height) / (ROW_HEIGHT + GAP)) + OVERSCAN_ROWS)
+
+  const highlightedSet = useMemo(() => new Set(highlighted), [highlighted])
+  const active = Math.min(activeIndex, Math.max(0, numbers.length - 1))
+
+  const focusIndex = (index: number) => {
+    const container = containerRef.current
+    if (!container || numbers.length === 0) {
+      return
+    }
+    const target = Math.min(numbers.length - 1, Math.max(0, index))
+    const top = Math.floor(target / columns) * (ROW_HEIGHT + GAP)
+    if (top < container.scrollTop) {
+      container.scrollTop = top
+    } else if (top + ROW_HEIGHT > container.scrollTop + container.clientHeight) {
+      container.scrollTop = top + ROW_HEIGHT - container.clientHeight
+    }
+    setScrollTop(container.scrollTop)
+    setActiveIndex(target)
+    pendingFocus.current = numbers[target].number
+  }
+
+  useEffect(() => {
+    if (pendingFocus.current === null) {
+      return
+    }
+    const button = containerRef.current?.querySelector<HTMLButtonElement>(`[data-number="${pendingFocus.current}"]`)
+    if (button) {
+      button.focus()
+      pendingFocus.current = null
+    }
+  })
+
+  useImperativeHandle(ref, () => ({
+    scrollToNumber(number: number) {
+      const index = numbers.findIndex(n => n.number === number)
+      if (index === -1) {
+        return false
+      }
+      focusIndex(index)
+      return true
+    },
+  }))
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+    const visibleRows = Math.max(1, Math.floor(height / (ROW_HEIGHT + GAP)))
+    const moves: Record<string, number> = {
+      ArrowRight: active + 1,
+      ArrowLeft: active - 1,
+      ArrowDown: active + columns,
+      ArrowUp: active - columns,
+      PageDown: active + columns * visibleRows,
+      PageUp: active - columns * visibleRows,
+      Home: event.ctrlKey ? 0 : active - (active % columns),
+      End: event.ctrlKey ? numbers.length - 1 : active - (active % columns) + columns - 1,
+    }
+    if (event.key in moves) {
+      event.preventDefault()
+      focusIndex(moves[event.key])
+    }
+  }
+
+  const visibleRows = []
+  for (let row = firstRow; row <= lastRow; row++) {
+    visibleRows.push(
+      <div
+        key={row}
+        role="row"
+        className="absolute left-0 right-0 grid"
+        style={{
+          top: row * (ROW_HEIGHT + GAP),
+          height: ROW_HEIGHT,
+          gap: GAP,
+          gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`,
+        }}
+      >
+        {numbers.slice(row * columns, (row + 1) * columns).map((number, column) => (
+          <div key={number.number} role="gridcell" className="h-full">
+            <NumberCell
+              number={number.number}
+              state={stateOf(number)}
+              displayName={number.displayName}
+              isHighlighted={highlightedSet.has(number.number)}
+              isActive={row * columns + column === active}
+              onToggle={handleToggle}
+            />
+          </div>
+        ))}
+      </div>
+    )
+  }
+
+  return (
+    <div
+      ref={containerRef}
+      role="grid"
+      aria-label={t('grid.label')}
+      aria-rowcount={rows}
+      onKeyDown={handleKeyDown}
+      onScroll={(event) => setScrollTop(event.currentTarget.scrollTop)}
+      className="relative overflow-y-auto p-1"
+      style={{ height: numbers.length > 0 ? height + 8 : undefined }}
+    >
+      {numbers.length === 0 ? (
+        <p className="text-center text-gray-500 py-8">{t('grid.empty')}</p>
+      ) : (
+        <div className="relative" style={{ height: rows * (ROW_HEIGHT + GAP) - GAP }}>
+          {visibleRows}
+        </div>
+      )}
+    </div>
+  )
+})
+
+export default NumberGrid
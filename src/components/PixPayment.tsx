@@ -0,0 +1,71 @@
+import { toast } from 'react-hot-toast'
+import { api, PixCharge } from '../services/api'
+import { useI18n } from '../i18n'
+
+interface PixPaymentProps {
+  pix: PixCharge
+  amount: number
+  receiptCode: string
+  onClose: () => void
+}
+
+function PixPayment({ pix, amount, receiptCode, onClose }: PixPaymentProps) {
+  const { t, formatCurrency } = useI18n()
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(pix.payload)
+      toast.success(t('pix.copied'))
+    } catch {
+      toast.error(t('pix.copyError'))
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 px-4">
+      <div className="bg-white rounded-xl shadow-lg p-6 w-full max-w-md text-center">
+        <h2 className="text-2xl font-bold text-gray-800 mb-2">{t('pix.title')}</h2>
+        <p className="text-gray-600 mb-4">
+          {t('pix.amount')} <span className="font-semibold">{formatCurrency(amount)}</span>
+        </p>
+        <img src={pix.qrCode} alt={t('pix.qrCode')} className="mx-auto w-64 h-64 mb-4" />
+        <p className="text-sm text-gray-600 mb-2">{t('pix.copyPaste')}</p>
+        <textarea
+          readOnly
+          value={pix.payload}
+          className="w-full text-xs p-2 rounded-lg border border-gray-300 mb-4 resize-none"
+          rows={4}
+          onFocus={(e) => e.target.select()}
+        />
+        <div className="flex gap-2">
+          <button
+            onClick={handleCopy}
+            className="flex-1 py-3 px-6 rounded-lg text-white font-semibold bg-blue-600 hover:bg-blue-700"
+          >
+            {t('pix.copy')}
+          </button>
+          <button
+            onClick={onClose}
+            className="flex-1 py-3 px-6 rounded-lg font-semibold text-gray-700 bg-gray-100 hover:bg-gray-200"
+          >
+            {t('common.close')}
+          </button>
+        </div>
+        <p className="text-xs text-gray-500 mt-4">{t('pix.automatic')}</p>
+        <p className="text-sm text-gray-600 mt-2">
+          {t('pix.receipt')} <span className="font-mono font-semibold">{receiptCode}</span>
+        </p>
+        <p className="text-sm mt-1 space-x-4">
+          <a href={api.receiptUrl(receiptCode, 'pdf')} target="_blank" rel="noreferrer" className="text-blue-600 hover:text-blue-800">
+            {t('pix.downloadPdf')}
+          </a>
+          <a href={api.receiptUrl(receiptCode, 'png')} target="_blank" rel="noreferrer" className="text-blue-600 hover:text-blue-800">
+            {t('common.whatsappImage')}
+          </a>
+        </p>
+      </div>
+    </div>
+  )
+}
+
+export default PixPayment
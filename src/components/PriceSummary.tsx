@@ -0,0 +1,48 @@
+import { PriceBreakdown } from '../../shared/pricing'
+import { useI18n } from '../i18n'
+
+interface PriceSummaryProps {
+  price: PriceBreakdown
+}
+
+// Valor da seleção atual, linha a linha, do jeito que o servidor vai cobrar
+function PriceSummary({ price }: PriceSummaryProps) {
+  const { t, formatCurrency } = useI18n()
+
+  if (price.quantity === 0) {
+    return null
+  }
+
+  return (
+    <dl className="text-sm text-gray-700 space-y-1 mb-4" aria-live="polite">
+      <div className="flex justify-between">
+        <dt>{t('price.numbers', { count: price.quantity, price: formatCurrency(price.unitPrice) })}</dt>
+        <dd>{formatCurrency(price.subtotal)}</dd>
+      </div>
+      {price.bundles.map((bundle) => (
+        <div key={bundle.quantity} className="flex justify-between text-green-700">
+          <dt>
+            {t('price.bundle', { quantity: bundle.quantity, price: formatCurrency(bundle.price) })}
+            {bundle.times > 1 && ` (${bundle.times}×)`}
+          </dt>
+          <dd>−{formatCurrency((bundle.quantity * price.unitPrice - bundle.price) * bundle.times)}</dd>
+        </div>
+      ))}
+      {price.promo && (
+        <div className="flex justify-between text-green-700">
+          <dt>
+            {t('price.promo', { code: price.promo.code })}
+            {price.promo.kind === 'percent' && ` (${price.promo.value}%)`}
+          </dt>
+          <dd>−{formatCurrency(price.promoDiscount)}</dd>
+        </div>
+      )}
+      <div className="flex justify-between font-semibold text-gray-900 border-t border-gray-200 pt-1">
+        <dt>{t('price.total')}</dt>
+        <dd>{formatCurrency(price.total)}</dd>
+      </div>
+    </dl>
+  )
+}
+
+export default PriceSummary
@@ -0,0 +1,272 @@
+import { useState, useEffect } from 'react'
+import { toast } from 'react-hot-toast'
+import { TrashIcon } from '@heroicons/react/24/outline'
+import { Raffle } from '../services/api'
+import { adminApi, NewPromoCode, PromoCode } from '../services/adminApi'
+import { Bundle, PromoKind } from '../../shared/pricing'
+import { Locale, formatCurrency, formatDateTime, formatNumber, translate, useI18n } from '../i18n'
+
+interface PricingPanelProps {
+  raffle: Raffle
+  onRaffleChange: (raffle: Raffle) => void
+}
+
+const EMPTY_PROMO: NewPromoCode = { code: '', kind: 'percent', value: 10, startsAt: null, expiresAt: null, maxUses: null }
+
+const describePromo = (promo: Pick<PromoCode, 'kind' | 'value'>, locale: Locale) =>
+  promo.kind === 'percent'
+    ? translate(locale, 'pricing.percentOff', { value: formatNumber(promo.value, locale) })
+    : translate(locale, 'pricing.amountOff', { value: formatCurrency(promo.value, locale) })
+
+// Validade exibida na lista de cupons
+function validity(promo: PromoCode, locale: Locale): string {
+  const format = (date: string) => formatDateTime(date, locale)
+  if (promo.startsAt && promo.expiresAt) {
+    return translate(locale, 'pricing.validBetween', { start: format(promo.startsAt), end: format(promo.expiresAt) })
+  }
+  if (promo.expiresAt) {
+    return translate(locale, 'pricing.validUntil', { end: format(promo.expiresAt) })
+  }
+  return promo.startsAt
+    ? translate(locale, 'pricing.validFrom', { start: format(promo.startsAt) })
+    : translate(locale, 'pricing.noDeadline')
+}
+
+// Preço por número, pacotes e cupons de desconto da rifa
+function PricingPanel({ raffle, onRaffleChange }: PricingPanelProps) {
+  const { locale, t } = useI18n()
+  const [ticketPrice, setTicketPrice] = useState(raffle.ticketPrice)
+  const [bundles, setBundles] = useState<Bundle[]>(raffle.bundles)
+  const [promoCodes, setPromoCodes] = useState<PromoCode[]>([])
+  const [newPromo, setNewPromo] = useState<NewPromoCode>(EMPTY_PROMO)
+
+  useEffect(() => {
+    setTicketPrice(raffle.ticketPrice)
+    setBundles(raffle.bundles)
+  }, [raffle._id, raffle.ticketPrice, raffle.bundles])
+
+  useEffect(() => {
+    loadPromoCodes()
+  }, [raffle._id])
+
+  const loadPromoCodes = async () => {
+    try {
+      setPromoCodes(await adminApi.getPromoCodes(raffle._id))
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('pricing.loadError'))
+    }
+  }
+
+  const updateBundle = (index: number, changes: Partial<Bundle>) =>
+    setBundles(bundles.map((bundle, i) => i === index ? { ...bundle, ...changes } : bundle))
+
+  const handleSavePricing = async () => {
+    try {
+      onRaffleChange(await adminApi.updatePricing(raffle._id, { ticketPrice, bundles }))
+      toast.success(t('pricing.saved'))
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('pricing.saveError'))
+    }
+  }
+
+  const handleCreatePromo = async () => {
+    try {
+      await adminApi.createPromoCode(raffle._id, newPromo)
+      setNewPromo(EMPTY_PROMO)
+      loadPromoCodes()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('pricing.createError'))
+    }
+  }
+
+  const handleDeactivate = async (promo: PromoCode) => {
+    if (!window.confirm(t('pricing.deactivateConfirm', { code: promo.code }))) {
+      return
+    }
+    try {
+      await adminApi.deactivatePromoCode(promo._id)
+      loadPromoCodes()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('pricing.deactivateError'))
+    }
+  }
+
+  // O campo de data trabalha no horário local, sem fuso; a API recebe o instante em ISO
+  const toDateInput = (value: string | null) => {
+    if (!value) {
+      return ''
+    }
+    const date = new Date(value)
+    return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16)
+  }
+  const fromDateInput = (value: string) => value ? new Date(value).toISOString() : null
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6 mb-8">
+      <h2 className="text-xl font-bold text-gray-800 mb-4">{t('pricing.title')}</h2>
+
+      <div className="flex items-center gap-2 mb-4">
+        <label htmlFor="ticketPrice" className="text-sm text-gray-600">{t('pricing.ticketPrice')}</label>
+        <input
+          type="number"
+          id="ticketPrice"
+          min={0}
+          step="0.01"
+          value={ticketPrice}
+          onChange={(e) => setTicketPrice(Number(e.target.value))}
+          className="w-28 px-3 py-1 rounded-lg border border-gray-300"
+        />
+      </div>
+
+      <h3 className="font-semibold text-gray-700 mb-2">{t('pricing.bundles')}</h3>
+      {bundles.length === 0 && <p className="text-sm text-gray-500 mb-2">{t('pricing.noBundles')}</p>}
+      <ul className="space-y-2 mb-4">
+        {bundles.map((bundle, index) => (
+          <li key={index} className="flex items-center gap-2 text-sm">
+            <input
+              type="number"
+              min={2}
+              value={bundle.quantity}
+              onChange={(e) => updateBundle(index, { quantity: Math.floor(Number(e.target.value)) })}
+              aria-label={t('pricing.bundleQuantity')}
+              className="w-20 px-3 py-1 rounded-lg border border-gray-300"
+            />
+            <span>{t('pricing.bundleFor')}</span>
+            <input
+              type="number"
+              min={0}
+              step="0.01"
+              value={bundle.price}
+              onChange={(e) => updateBundle(index, { price: Number(e.target.value) })}
+              aria-label={t('pricing.bundlePrice')}
+              className="w-28 px-3 py-1 rounded-lg border border-gray-300"
+            />
+            {bundle.quantity > 1 && (
+              <span className="text-gray-500">
+                {t('pricing.bundleSaving', { amount: formatCurrency(Math.max(0, bundle.quantity * ticketPrice - bundle.price), locale) })}
+              </span>
+            )}
+            <button
+              onClick={() => setBundles(bundles.filter((_, i) => i !== index))}
+              aria-label={t('pricing.removeBundle')}
+              className="p-1 text-red-500 hover:text-red-700"
+            >
+              <TrashIcon className="w-4 h-4" />
+            </button>
+          </li>
+        ))}
+      </ul>
+      <div className="flex gap-2 mb-8">
+        <button
+          onClick={() => setBundles([...bundles, { quantity: 3, price: Math.round(ticketPrice * 3 * 0.9 * 100) / 100 }])}
+          className="px-4 py-2 rounded-lg font-semibold text-blue-600 border border-blue-600 hover:bg-blue-50"
+        >
+          {t('pricing.addBundle')}
+        </button>
+        <button
+          onClick={handleSavePricing}
+          className="px-4 py-2 rounded-lg text-white font-semibold bg-blue-600 hover:bg-blue-700"
+        >
+          {t('pricing.save')}
+        </button>
+      </div>
+
+      <h3 className="font-semibold text-gray-700 mb-2">{t('pricing.promoCodes')}</h3>
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-2 mb-4 text-sm">
+        <input
+          type="text"
+          value={newPromo.code}
+          onChange={(e) => setNewPromo({ ...newPromo, code: e.target.value.toUpperCase() })}
+          aria-label={t('pricing.codeLabel')}
+          className="px-3 py-2 rounded-lg border border-gray-300 uppercase"
+          placeholder={t('pricing.codePlaceholder')}
+        />
+        <div className="flex gap-2">
+          <select
+            value={newPromo.kind}
+            onChange={(e) => setNewPromo({ ...newPromo, kind: e.target.value as PromoKind })}
+            aria-label={t('pricing.kind')}
+            className="px-3 py-2 rounded-lg border border-gray-300"
+          >
+            <option value="percent">%</option>
+            <option value="fixed">R$</option>
+          </select>
+          <input
+            type="number"
+            min={0}
+            step="0.01"
+            value={newPromo.value}
+            onChange={(e) => setNewPromo({ ...newPromo, value: Number(e.target.value) })}
+            aria-label={t('pricing.discount')}
+            className="w-full px-3 py-2 rounded-lg border border-gray-300"
+          />
+        </div>
+        <input
+          type="number"
+          min={1}
+          value={newPromo.maxUses ?? ''}
+          onChange={(e) => setNewPromo({ ...newPromo, maxUses: e.target.value ? Math.floor(Number(e.target.value)) : null })}
+          aria-label={t('pricing.maxUses')}
+          className="px-3 py-2 rounded-lg border border-gray-300"
+          placeholder={t('pricing.maxUsesPlaceholder')}
+        />
+        <label className="flex flex-col text-gray-600">
+          {t('pricing.startsAt')}
+          <input
+            type="datetime-local"
+            value={toDateInput(newPromo.startsAt)}
+            onChange={(e) => setNewPromo({ ...newPromo, startsAt: fromDateInput(e.target.value) })}
+            className="px-3 py-2 rounded-lg border border-gray-300"
+          />
+        </label>
+        <label className="flex flex-col text-gray-600">
+          {t('pricing.expiresAt')}
+          <input
+            type="datetime-local"
+            value={toDateInput(newPromo.expiresAt)}
+            onChange={(e) => setNewPromo({ ...newPromo, expiresAt: fromDateInput(e.target.value) })}
+            className="px-3 py-2 rounded-lg border border-gray-300"
+          />
+        </label>
+        <button
+          onClick={handleCreatePromo}
+          disabled={!newPromo.code.trim()}
+          className="self-end px-4 py-2 rounded-lg text-white font-semibold bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400"
+        >
+          {t('pricing.create')}
+        </button>
+      </div>
+
+      <table className="w-full text-left text-sm">
+        <thead className="text-gray-600">
+          <tr>
+            <th className="py-2">{t('pricing.code')}</th>
+            <th className="py-2">{t('pricing.discount')}</th>
+            <th className="py-2">{t('pricing.validity')}</th>
+            <th className="py-2">{t('pricing.uses')}</th>
+            <th className="py-2"></th>
+          </tr>
+        </thead>
+        <tbody>
+          {promoCodes.map((promo) => (
+            <tr key={promo._id} className="border-t border-gray-100">
+              <td className={`py-2 font-mono ${promo.isActive ? '' : 'text-gray-400 line-through'}`}>{promo.code}</td>
+              <td className="py-2">{describePromo(promo, locale)}</td>
+              <td className="py-2">{validity(promo, locale)}</td>
+              <td className="py-2">{promo.uses}{promo.maxUses !== null && ` / ${promo.maxUses}`}</td>
+              <td className="py-2 text-right">
+                {promo.isActive && (
+                  <button onClick={() => handleDeactivate(promo)} className="text-red-600 hover:text-red-800">
+                    {t('pricing.deactivate')}
+                  </button>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+export default PricingPanel
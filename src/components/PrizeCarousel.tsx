@@ -0,0 +1,72 @@
+import Slider from 'react-slick'
+import { HeartIcon, GiftIcon } from '@heroicons/react/24/outline'
+import { Raffle } from '../services/api'
+import { useI18n } from '../i18n'
+
+interface PrizeCarouselProps {
+  raffle: Raffle
+}
+
+const GRADIENTS = [
+  'from-indigo-500 to-blue-600',
+  'from-blue-500 to-indigo-600',
+  'from-indigo-600 to-blue-500',
+]
+
+// Um slide por prêmio, na ordem do sorteio; sem catálogo, só o título da rifa
+function PrizeCarousel({ raffle }: PrizeCarouselProps) {
+  const { t } = useI18n()
+  const prizes = [...raffle.prizes].sort((a, b) => a.order - b.order)
+  const hasSlides = prizes.length > 1
+
+  const carouselSettings = {
+    dots: hasSlides,
+    arrows: hasSlides,
+    infinite: hasSlides,
+    speed: 500,
+    slidesToShow: 1,
+    slidesToScroll: 1,
+    autoplay: hasSlides,
+    autoplaySpeed: 4000,
+    fade: true,
+    cssEase: 'linear'
+  }
+
+  if (prizes.length === 0) {
+    return (
+      <div className={`h-80 bg-gradient-to-r ${GRADIENTS[0]} flex items-center justify-center relative`}>
+        <div className="absolute inset-0 bg-black opacity-20"></div>
+        <div className="relative z-10 text-center px-4">
+          <HeartIcon className="h-16 w-16 text-white mx-auto mb-4" />
+          <h2 className="text-4xl text-white font-bold mb-2">{raffle.title}</h2>
+          <p className="text-xl text-blue-100">{t('carousel.join')}</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <Slider {...carouselSettings}>
+      {prizes.map((prize, index) => (
+        <div key={prize._id}>
+          <div
+            className={`h-80 bg-gradient-to-r ${GRADIENTS[index % GRADIENTS.length]} bg-cover bg-center flex items-center justify-center relative`}
+            style={prize.imageUrl ? { backgroundImage: `url("${prize.imageUrl}")` } : undefined}
+          >
+            <div className={`absolute inset-0 bg-black ${prize.imageUrl ? 'opacity-50' : 'opacity-20'}`}></div>
+            <div className="relative z-10 text-center px-4">
+              {!prize.imageUrl && <GiftIcon className="h-16 w-16 text-white mx-auto mb-4" />}
+              <p className="text-lg text-blue-100 font-semibold uppercase tracking-wide">
+                {prizes.length > 1 ? t('prize.nth', { order: prize.order }) : t('prize.single')}
+              </p>
+              <h2 className="text-4xl text-white font-bold mb-2">{prize.name}</h2>
+              {prize.description && <p className="text-xl text-blue-100 max-w-2xl mx-auto">{prize.description}</p>}
+            </div>
+          </div>
+        </div>
+      ))}
+    </Slider>
+  )
+}
+
+export default PrizeCarousel
@@ -0,0 +1,160 @@
+import { useState, useEffect } from 'react'
+import { toast } from 'react-hot-toast'
+import { ArrowDownIcon, ArrowUpIcon, TrashIcon } from '@heroicons/react/24/outline'
+import { Prize, Raffle } from '../services/api'
+import { adminApi } from '../services/adminApi'
+import { useI18n } from '../i18n'
+
+interface PrizesPanelProps {
+  raffle: Raffle
+  onRaffleChange: (raffle: Raffle) => void
+}
+
+// Prêmio em edição; os novos ainda não têm id
+type PrizeDraft = Omit<Prize, '_id' | 'order'> & { _id: string | null }
+
+const EMPTY_PRIZE: PrizeDraft = { _id: null, name: '', description: '', imageUrl: null }
+
+const toDrafts = (prizes: Prize[]): PrizeDraft[] =>
+  [...prizes]
+    .sort((a, b) => a.order - b.order)
+    .map(({ _id, name, description, imageUrl }) => ({ _id, name, description, imageUrl }))
+
+// Catálogo de prêmios, na ordem em que serão sorteados
+function PrizesPanel({ raffle, onRaffleChange }: PrizesPanelProps) {
+  const { t } = useI18n()
+  const [prizes, setPrizes] = useState<PrizeDraft[]>(() => toDrafts(raffle.prizes))
+  const [isSaving, setIsSaving] = useState(false)
+  const locked = raffle.status === 'drawn'
+
+  useEffect(() => {
+    setPrizes(toDrafts(raffle.prizes))
+  }, [raffle._id, raffle.prizes])
+
+  const updatePrize = (index: number, changes: Partial<PrizeDraft>) =>
+    setPrizes(prizes.map((prize, i) => i === index ? { ...prize, ...changes } : prize))
+
+  const movePrize = (index: number, offset: number) => {
+    const target = index + offset
+    if (target < 0 || target >= prizes.length) {
+      return
+    }
+    const reordered = [...prizes]
+    ;[reordered[index], reordered[target]] = [reordered[target], reordered[index]]
+    setPrizes(reordered)
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    try {
+      onRaffleChange(await adminApi.updatePrizes(raffle._id, prizes.map((prize, index) => ({ ...prize, order: index + 1 }))))
+      toast.success(t('prizes.saved'))
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('prizes.saveError'))
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6 mb-8">
+      <h2 className="text-xl font-bold text-gray-800 mb-1">{t('prizes.title')}</h2>
+      <p className="text-sm text-gray-500 mb-4">
+        {t('prizes.hint')}
+      </p>
+
+      {prizes.length === 0 && (
+        <p className="text-sm text-gray-600 mb-4">{t('prizes.empty')}</p>
+      )}
+
+      <ol className="space-y-4 mb-4">
+        {prizes.map((prize, index) => (
+          <li key={prize._id ?? `new-${index}`} className="flex gap-3 items-start border border-gray-100 rounded-lg p-3">
+            <span className="text-lg font-bold text-blue-600 w-8 pt-2">{t('prizes.position', { order: index + 1 })}</span>
+            <div className="flex-1 space-y-2">
+              <input
+                type="text"
+                value={prize.name}
+                onChange={(e) => updatePrize(index, { name: e.target.value })}
+                disabled={locked}
+                aria-label={t('prizes.nameLabel', { order: index + 1 })}
+                className="w-full px-3 py-2 rounded-lg border border-gray-300"
+                placeholder={t('prizes.namePlaceholder')}
+              />
+              <textarea
+                value={prize.description}
+                onChange={(e) => updatePrize(index, { description: e.target.value })}
+                disabled={locked}
+                aria-label={t('prizes.descriptionLabel', { order: index + 1 })}
+                rows={2}
+                className="w-full px-3 py-2 rounded-lg border border-gray-300"
+                placeholder={t('prizes.descriptionPlaceholder')}
+              />
+              <input
+                type="url"
+                value={prize.imageUrl ?? ''}
+                onChange={(e) => updatePrize(index, { imageUrl: e.target.value || null })}
+                disabled={locked}
+                aria-label={t('prizes.imageLabel', { order: index + 1 })}
+                className="w-full px-3 py-2 rounded-lg border border-gray-300"
+                placeholder={t('prizes.imagePlaceholder')}
+              />
+            </div>
+            {prize.imageUrl && (
+              <img src={prize.imageUrl} alt="" className="w-20 h-20 object-cover rounded-lg" />
+            )}
+            {!locked && (
+              <div className="flex flex-col gap-1">
+                <button
+                  onClick={() => movePrize(index, -1)}
+                  disabled={index === 0}
+                  aria-label={t('prizes.moveUp')}
+                  className="p-1 text-gray-500 hover:text-gray-800 disabled:text-gray-300"
+                >
+                  <ArrowUpIcon className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => movePrize(index, 1)}
+                  disabled={index === prizes.length - 1}
+                  aria-label={t('prizes.moveDown')}
+                  className="p-1 text-gray-500 hover:text-gray-800 disabled:text-gray-300"
+                >
+                  <ArrowDownIcon className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => setPrizes(prizes.filter((_, i) => i !== index))}
+                  aria-label={t('prizes.remove')}
+                  className="p-1 text-red-500 hover:text-red-700"
+                >
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </div>
+            )}
+          </li>
+        ))}
+      </ol>
+
+      {locked ? (
+        <p className="text-sm text-gray-500">{t('prizes.locked')}</p>
+      ) : (
+        <div className="flex gap-2">
+          <button
+            onClick={() => setPrizes([...prizes, EMPTY_PRIZE])}
+            className="px-4 py-2 rounded-lg font-semibold text-blue-600 border border-blue-600 hover:bg-blue-50"
+          >
+            {t('prizes.add')}
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving || prizes.some(prize => !prize.name.trim())}
+            className="px-4 py-2 rounded-lg text-white font-semibold bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400"
+          >
+            {t('prizes.save')}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default PrizesPanel
@@ -0,0 +1,65 @@
+import { RaffleRevenue, RaffleStats } from '../services/api'
+import { useI18n } from '../i18n'
+
+interface RaffleProgressProps {
+  stats: RaffleStats
+  // Só o painel do admin tem a arrecadação; sem ela a barra mostra os números vendidos
+  revenue?: RaffleRevenue
+}
+
+// Barra de progresso da arrecadação em direção à meta, ou das vendas na página pública
+function RaffleProgress({ stats, revenue }: RaffleProgressProps) {
+  const { t, formatCurrency, formatNumber } = useI18n()
+  const percent = revenue
+    ? revenue.percent
+    : stats.total > 0 ? Math.round((stats.sold / stats.total) * 1000) / 10 : 0
+
+  return (
+    <div>
+      <div className="flex items-end justify-between mb-2">
+        {revenue ? (
+          <>
+            <div>
+              <p className="text-sm text-gray-500">{t('progress.raised')}</p>
+              <p className="text-2xl font-bold text-blue-600">{formatCurrency(revenue.raised)}</p>
+            </div>
+            <div className="text-right">
+              <p className="text-sm text-gray-500">{t('progress.goal')}</p>
+              <p className="text-lg font-semibold text-gray-700">{formatCurrency(revenue.goal)}</p>
+            </div>
+          </>
+        ) : (
+          <>
+            <div>
+              <p className="text-sm text-gray-500">{t('progress.soldTitle')}</p>
+              <p className="text-2xl font-bold text-blue-600">{formatNumber(stats.sold)}</p>
+            </div>
+            <div className="text-right">
+              <p className="text-sm text-gray-500">{t('progress.available')}</p>
+              <p className="text-lg font-semibold text-gray-700">{formatNumber(stats.available)}</p>
+            </div>
+          </>
+        )}
+      </div>
+      <div
+        className="h-4 rounded-full bg-gray-200 overflow-hidden"
+        role="progressbar"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={percent}
+        aria-label={revenue ? t('progress.label') : t('progress.salesLabel')}
+      >
+        <div
+          className="h-full rounded-full bg-gradient-to-r from-blue-500 to-indigo-600 transition-all duration-500"
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+      <div className="flex justify-between text-sm text-gray-500 mt-2">
+        <span>{t(revenue ? 'progress.percent' : 'progress.soldPercent', { percent: formatNumber(percent) })}</span>
+        <span>{t('progress.sold', { sold: stats.sold, total: stats.total })}</span>
+      </div>
+    </div>
+  )
+}
+
+export default RaffleProgress
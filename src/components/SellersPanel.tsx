@@ -0,0 +1,135 @@
+import { useState, useEffect } from 'react'
+import { toast } from 'react-hot-toast'
+import { adminApi, Seller, SellerSummary } from '../services/adminApi'
+import { useI18n } from '../i18n'
+
+interface SellersPanelProps {
+  raffleId: string
+}
+
+function SellersPanel({ raffleId }: SellersPanelProps) {
+  const { t, formatCurrency } = useI18n()
+  const [sellers, setSellers] = useState<Seller[]>([])
+  const [summary, setSummary] = useState<SellerSummary[]>([])
+  const [name, setName] = useState('')
+
+  useEffect(() => {
+    loadSellers()
+  }, [raffleId])
+
+  const loadSellers = async () => {
+    try {
+      const [sellersData, summaryData] = await Promise.all([
+        adminApi.getSellers(),
+        raffleId ? adminApi.getSellerSummary(raffleId) : Promise.resolve([]),
+      ])
+      setSellers(sellersData)
+      setSummary(summaryData)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('sellers.loadError'))
+    }
+  }
+
+  // O código só é exibido uma vez; depois fica apenas o hash no servidor
+  const showCode = (seller: Seller, code: string) => {
+    window.alert(t('sellers.codeAlert', { name: seller.name, code }))
+  }
+
+  const handleCreate = async () => {
+    try {
+      const { seller, code } = await adminApi.createSeller(name.trim())
+      setName('')
+      showCode(seller, code)
+      loadSellers()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('sellers.createError'))
+    }
+  }
+
+  const handleRegenerate = async (seller: Seller) => {
+    if (!window.confirm(t('sellers.regenerateConfirm', { name: seller.name }))) {
+      return
+    }
+    try {
+      const { code } = await adminApi.regenerateSellerCode(seller._id)
+      showCode(seller, code)
+      loadSellers()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('sellers.regenerateError'))
+    }
+  }
+
+  const handleRevoke = async (seller: Seller) => {
+    if (!window.confirm(t('sellers.revokeConfirm', { name: seller.name }))) {
+      return
+    }
+    try {
+      await adminApi.revokeSeller(seller._id)
+      loadSellers()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('sellers.revokeError'))
+    }
+  }
+
+  const salesOf = (seller: Seller) => summary.find(s => s.sellerId === seller._id)
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6 mb-8">
+      <h2 className="text-xl font-bold text-gray-800 mb-4">{t('sellers.title')}</h2>
+
+      <div className="flex gap-2 mb-4">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className="flex-1 px-4 py-2 rounded-lg border border-gray-300"
+          placeholder={t('sellers.namePlaceholder')}
+        />
+        <button
+          onClick={handleCreate}
+          disabled={!name.trim()}
+          className="px-4 py-2 rounded-lg text-white font-semibold bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400"
+        >
+          {t('sellers.add')}
+        </button>
+      </div>
+
+      <table className="w-full text-left">
+        <thead className="text-sm text-gray-600">
+          <tr>
+            <th className="py-2">{t('sellers.name')}</th>
+            <th className="py-2">{t('sellers.sold')}</th>
+            <th className="py-2">{t('sellers.paid')}</th>
+            <th className="py-2">{t('sellers.amount')}</th>
+            <th className="py-2"></th>
+          </tr>
+        </thead>
+        <tbody>
+          {sellers.map((seller) => {
+            const sales = salesOf(seller)
+            return (
+              <tr key={seller._id} className="border-t border-gray-100">
+                <td className={`py-2 ${seller.isActive ? '' : 'text-gray-400 line-through'}`}>{seller.name}</td>
+                <td className="py-2">{sales?.sold ?? 0}</td>
+                <td className="py-2">{sales?.paid ?? 0}</td>
+                <td className="py-2">{formatCurrency(sales?.revenue ?? 0)}</td>
+                <td className="py-2 text-right space-x-3 text-sm">
+                  <button onClick={() => handleRegenerate(seller)} className="text-blue-600 hover:text-blue-800">
+                    {t('sellers.newCode')}
+                  </button>
+                  {seller.isActive && (
+                    <button onClick={() => handleRevoke(seller)} className="text-red-600 hover:text-red-800">
+                      {t('sellers.revoke')}
+                    </button>
+                  )}
+                </td>
+              </tr>
+            )
+          })}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+export default SellersPanel
@@ -0,0 +1,154 @@
+import { useState, useEffect } from 'react'
+import { toast } from 'react-hot-toast'
+import { Raffle } from '../services/api'
+import { AdminRaffleStats, adminApi } from '../services/adminApi'
+import RaffleProgress from './RaffleProgress'
+import { useI18n } from '../i18n'
+
+interface StatsPanelProps {
+  raffle: Raffle
+  onRaffleChange: (raffle: Raffle) => void
+}
+
+function StatsPanel({ raffle, onRaffleChange }: StatsPanelProps) {
+  const { locale, t, formatCurrency } = useI18n()
+  const [stats, setStats] = useState<AdminRaffleStats | null>(null)
+
+  useEffect(() => {
+    loadStats()
+  }, [raffle._id, raffle.revenueGoal])
+
+  // As datas chegam como AAAA-MM-DD no fuso da rifa; o meio-dia evita trocar de dia no fuso do navegador
+  const formatDay = (date: string) =>
+    new Date(`${date}T12:00:00`).toLocaleDateString(locale, { day: '2-digit', month: '2-digit' })
+
+  const loadStats = async () => {
+    try {
+      setStats(await adminApi.getStats(raffle._id))
+    } catch (error) {
+      toast.error(t('stats.loadError'))
+    }
+  }
+
+  const handleGoal = async () => {
+    const value = window.prompt(
+      t('stats.goalPrompt'),
+      raffle.revenueGoal?.toString() ?? ''
+    )
+    if (value === null) {
+      return
+    }
+    const revenueGoal = value.trim() === '' ? null : Number(value.replace(',', '.'))
+    if (revenueGoal !== null && (Number.isNaN(revenueGoal) || revenueGoal < 0)) {
+      toast.error(t('stats.invalidValue'))
+      return
+    }
+    try {
+      onRaffleChange(await adminApi.updateRaffle(raffle._id, { revenueGoal }))
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('stats.goalError'))
+    }
+  }
+
+  if (!stats) {
+    return null
+  }
+
+  const maxDay = Math.max(1, ...stats.salesPerDay.map(day => day.numbers))
+  const maxSeller = Math.max(1, ...stats.topSellers.map(seller => seller.numbers))
+  const segments = [
+    { id: 'sold', label: t('stats.sold'), value: stats.sold, color: 'bg-blue-600' },
+    { id: 'reserved', label: t('stats.reserved'), value: stats.reserved, color: 'bg-amber-400' },
+    { id: 'available', label: t('stats.available'), value: stats.available, color: 'bg-gray-200' },
+  ]
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold text-gray-800">{t('stats.title')}</h2>
+        <div className="flex gap-4">
+          <button onClick={handleGoal} className="text-blue-600 hover:text-blue-800 text-sm">
+            {t('stats.setGoal')}
+          </button>
+          <button onClick={loadStats} className="text-blue-600 hover:text-blue-800 text-sm">
+            {t('stats.refresh')}
+          </button>
+        </div>
+      </div>
+
+      <div className="mb-6">
+        <RaffleProgress stats={stats} revenue={stats.revenue} />
+      </div>
+
+      {/* Situação dos números */}
+      <div className="mb-6">
+        <div className="flex h-6 rounded-lg overflow-hidden">
+          {segments.map(segment => segment.value > 0 && (
+            <div
+              key={segment.id}
+              className={segment.color}
+              style={{ width: `${(segment.value / Math.max(1, stats.total)) * 100}%` }}
+              title={`${segment.label}: ${segment.value}`}
+            />
+          ))}
+        </div>
+        <div className="flex flex-wrap gap-4 mt-2 text-sm text-gray-600">
+          {segments.map(segment => (
+            <span key={segment.id} className="flex items-center gap-1">
+              <span className={`inline-block w-3 h-3 rounded ${segment.color}`} />
+              {segment.label}: {segment.value}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        {/* Vendas por dia */}
+        <div>
+          <h3 className="font-semibold text-gray-700 mb-3">{t('stats.perDay')}</h3>
+          {stats.salesPerDay.length === 0 ? (
+            <p className="text-gray-500 text-sm">{t('stats.noSales')}</p>
+          ) : (
+            <div className="flex items-end gap-1 h-40 overflow-x-auto">
+              {stats.salesPerDay.map(day => (
+                <div key={day.date} className="flex flex-col items-center justify-end h-full min-w-[2rem] flex-1">
+                  <span className="text-xs text-gray-600">{day.numbers}</span>
+                  <div
+                    className="w-full bg-blue-500 rounded-t"
+                    style={{ height: `${(day.numbers / maxDay) * 100}%` }}
+                    title={t('stats.day', { day: formatDay(day.date), numbers: day.numbers, amount: formatCurrency(day.revenue) })}
+                  />
+                  <span className="text-xs text-gray-500 mt-1">{formatDay(day.date)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Vendedores com mais números vendidos */}
+        <div>
+          <h3 className="font-semibold text-gray-700 mb-3">{t('stats.topSellers')}</h3>
+          {stats.topSellers.length === 0 ? (
+            <p className="text-gray-500 text-sm">{t('stats.noSellerSales')}</p>
+          ) : (
+            <ul className="space-y-2">
+              {stats.topSellers.map(seller => (
+                <li key={seller.sellerId}>
+                  <div className="flex justify-between text-sm text-gray-700">
+                    <span>{seller.name ?? t('stats.removedSeller')}</span>
+                    <span>{seller.numbers}</span>
+                  </div>
+                  <div className="h-2 rounded bg-gray-100">
+                    <div className="h-full rounded bg-indigo-500" style={{ width: `${(seller.numbers / maxSeller) * 100}%` }} />
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default StatsPanel
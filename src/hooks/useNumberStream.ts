@@ -0,0 +1,82 @@
+import { useEffect, useRef } from 'react'
+import { api, NumberChange } from '../services/api'
+
+// Enquanto o stream estiver fora, recarrega a grade neste intervalo
+const POLL_INTERVAL_MS = 15000
+// Com o stream aberto ainda recarrega de vez em quando, caso algum evento se perca
+const CONNECTED_RESYNC_MS = 60000
+const MAX_RECONNECT_DELAY_MS = 60000
+
+// Acompanha as mudanças dos números via SSE, com reconexão e polling mais frequente enquanto o stream falha
+export function useNumberStream(
+  raffleId: string,
+  onChanges: (changes: NumberChange[]) => void,
+  onResync: () => void
+) {
+  const onChangesRef = useRef(onChanges)
+  const onResyncRef = useRef(onResync)
+  onChangesRef.current = onChanges
+  onResyncRef.current = onResync
+
+  useEffect(() => {
+    if (!raffleId) {
+      return
+    }
+
+    let source: EventSource | null = null
+    let pollTimer: ReturnType<typeof setInterval> | null = null
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null
+    let reconnectDelay = 5000
+    let disconnected = false
+
+    const stopPolling = () => {
+      if (pollTimer) {
+        clearInterval(pollTimer)
+        pollTimer = null
+      }
+    }
+
+    const startPolling = (interval: number) => {
+      stopPolling()
+      pollTimer = setInterval(() => onResyncRef.current(), interval)
+    }
+
+    const connect = () => {
+      source = new EventSource(api.numbersStreamUrl(raffleId))
+
+      source.addEventListener('numbers', (event) => {
+        onChangesRef.current(JSON.parse((event as MessageEvent).data))
+      })
+
+      source.onopen = () => {
+        startPolling(CONNECTED_RESYNC_MS)
+        reconnectDelay = 5000
+        // Recupera o que mudou enquanto estava desconectado
+        if (disconnected) {
+          disconnected = false
+          onResyncRef.current()
+        }
+      }
+
+      source.onerror = () => {
+        source?.close()
+        if (!disconnected) {
+          disconnected = true
+          startPolling(POLL_INTERVAL_MS)
+        }
+        reconnectTimer = setTimeout(connect, reconnectDelay)
+        reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY_MS)
+      }
+    }
+
+    connect()
+
+    return () => {
+      source?.close()
+      stopPolling()
+      if (reconnectTimer) {
+        clearTimeout(reconnectTimer)
+      }
+    }
+  }, [raffleId])
+}
@@ -0,0 +1,113 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { api, ApiError, isApiError, OfflineError, PurchaseResult } from '../services/api'
+import { getSellerCode, listIntents, PurchaseIntent, queueIntent, removeIntent, setSellerCode } from '../services/offline'
+
+// Enquanto houver compras na fila, tenta enviá-las neste intervalo (navigator.onLine nem sempre é confiável)
+const RETRY_INTERVAL_MS = 30000
+
+// Fila das compras feitas sem conexão: envia quando a conexão volta, sempre com a mesma chave de idempotência
+export function usePurchaseQueue(
+  raffleId: string,
+  onSent: (result: PurchaseResult, intent: PurchaseIntent) => void,
+  onRejected: (intent: PurchaseIntent, error: unknown) => void
+) {
+  const [pending, setPending] = useState<PurchaseIntent[]>([])
+  const onSentRef = useRef(onSent)
+  const onRejectedRef = useRef(onRejected)
+  onSentRef.current = onSent
+  onRejectedRef.current = onRejected
+  const flushingRef = useRef(false)
+  // Depois de um 429, nada é enviado antes deste instante (Retry-After)
+  const retryAtRef = useRef(0)
+
+  const refresh = useCallback(async () => {
+    try {
+      setPending(await listIntents(raffleId))
+    } catch (error) {
+      console.error('Error reading queued purchases:', error)
+    }
+  }, [raffleId])
+
+  const flush = useCallback(async () => {
+    if (flushingRef.current || Date.now() < retryAtRef.current) {
+      return
+    }
+    flushingRef.current = true
+    try {
+      for (const intent of await listIntents(raffleId)) {
+        // A página recarregou desde que a compra entrou na fila: espera o vendedor digitar o código de novo
+        const sellerCode = getSellerCode(intent.idempotencyKey)
+        if (!sellerCode) {
+          continue
+        }
+        try {
+          const result = await api.purchaseNumbers(
+            intent.raffleId,
+            intent.numbers,
+            intent.buyer,
+            sellerCode,
+            intent.reservationToken,
+            intent.idempotencyKey,
+            intent.promoCode
+          )
+          await removeIntent(intent.idempotencyKey)
+          onSentRef.current(result, intent)
+        } catch (error) {
+          // Ainda sem conexão: o restante da fila espera a próxima tentativa
+          if (error instanceof OfflineError) {
+            break
+          }
+          // Limite de tentativas: como uma queda do servidor, a fila espera e tenta de novo depois
+          if (error instanceof ApiError && error.status === 429) {
+            retryAtRef.current = Date.now() + (error.body.retryAfter ?? RETRY_INTERVAL_MS / 1000) * 1000
+            break
+          }
+          // Um envio anterior com a mesma chave ainda está em andamento; a resposta vem na próxima tentativa
+          if (isApiError(error, 'REQUEST_IN_PROGRESS')) {
+            continue
+          }
+          // Recusa definitiva (números vendidos a outra pessoa, código inválido...): a compra sai da fila
+          await removeIntent(intent.idempotencyKey)
+          onRejectedRef.current(intent, error)
+        }
+      }
+    } catch (error) {
+      console.error('Error sending queued purchases:', error)
+    } finally {
+      flushingRef.current = false
+      await refresh()
+    }
+  }, [raffleId, refresh])
+
+  const enqueue = useCallback(async (intent: PurchaseIntent, sellerCode: string) => {
+    await queueIntent(intent, sellerCode)
+    await refresh()
+  }, [refresh])
+
+  // Código digitado de novo para uma compra que perdeu o seu ao recarregar a página
+  const provideSellerCode = useCallback(async (intent: PurchaseIntent, sellerCode: string) => {
+    setSellerCode(intent.idempotencyKey, sellerCode)
+    await flush()
+  }, [flush])
+
+  useEffect(() => {
+    if (!raffleId) {
+      return
+    }
+    flush()
+    window.addEventListener('online', flush)
+    return () => window.removeEventListener('online', flush)
+  }, [raffleId, flush])
+
+  useEffect(() => {
+    if (pending.length === 0) {
+      return
+    }
+    const timer = setInterval(flush, RETRY_INTERVAL_MS)
+    return () => clearInterval(timer)
+  }, [pending.length, flush])
+
+  const hasSellerCode = (intent: PurchaseIntent) => getSellerCode(intent.idempotencyKey) !== null
+
+  return { pending, enqueue, flush, provideSellerCode, hasSellerCode }
+}
@@ -0,0 +1,386 @@
+import { Messages } from './pt-BR'
+
+const messages: Messages = {
+  // Comuns
+  'common.loading': 'Loading...',
+  'common.close': 'Close',
+  'common.cancel': 'Cancel',
+  'common.unknownError': 'unknown error',
+  'common.whatsappImage': 'Image for WhatsApp',
+  'language.label': 'Language',
+  'offline.noConnection': 'No connection to the server',
+  'offline.serverDown': 'The server is not responding',
+  'payment.pending': 'Awaiting payment',
+  'payment.paid': 'Paid',
+  'payment.cancelled': 'Cancelled',
+  'prize.nth': 'Prize {order}',
+  'prize.single': 'Prize',
+
+  // Lista de rifas
+  'home.loadError': 'Error loading the raffles',
+  'home.title': 'Charity Raffles',
+  'home.lookup': 'Look up my numbers',
+  'home.empty': 'No raffles available at the moment.',
+  'home.pricePerNumber': '{price} per number',
+  'home.salesClosed': 'Sales closed',
+
+  // Página da rifa
+  'raffle.filter.all': 'All',
+  'raffle.filter.available': 'Available',
+  'raffle.filter.selected': 'My selection',
+  'raffle.justSold.one': 'Number {numbers} has just been sold',
+  'raffle.justSold.other': 'Numbers {numbers} have just been sold',
+  'raffle.loadError': 'Error loading the numbers',
+  'raffle.queuedSent': 'Purchase by {buyer} sent! Receipt: {receipt}',
+  'raffle.queuedFailed': 'The purchase by {buyer} (numbers {numbers}) could not be registered: {reason}',
+  'raffle.reserveError': 'Could not reserve the numbers',
+  'raffle.numberSold': 'This number has already been sold!',
+  'raffle.numberReserved': 'This number is reserved by someone else!',
+  'raffle.searchOutOfRange': 'Enter a number between {start} and {end}',
+  'raffle.noneAvailable': 'There are no numbers available',
+  'raffle.fewAvailable.one': 'Only {count} number is available',
+  'raffle.fewAvailable.other': 'Only {count} numbers are available',
+  'raffle.luckyNumber': 'Your lucky number is {number}!',
+  'raffle.randomPicked': 'Numbers picked: {numbers}',
+  'raffle.promoApplied': 'Promo code {code} applied',
+  'raffle.promoError': 'Could not check the promo code',
+  'raffle.purchased': 'Numbers purchased! Seller: {seller}. Receipt: {receipt}',
+  'raffle.purchaseQueued': 'No connection: the purchase was saved and will be sent when the internet is back',
+  'raffle.purchaseQueueError': 'No connection, and the purchase could not be saved on this device',
+  'raffle.purchaseError': 'Error purchasing numbers',
+  'raffle.aboutTitle': 'About the Cause',
+  'raffle.about': '{description} Each number costs {price}{bundles}, and you can buy as many numbers as you like. Numbers are picked freely, with no need for a sequence. Join us in this initiative and help make a difference!',
+  'raffle.bundle': '{quantity} for {price}',
+  'raffle.drawDate': 'Draw on {date}',
+  'raffle.followDraw': 'Follow the draw and check the result',
+  'raffle.lookup': 'Already bought? Look up your numbers',
+  'raffle.chooseTitle': 'Choose Your Numbers',
+  'raffle.buyerName': 'Your Name',
+  'raffle.buyerNamePlaceholder': 'Enter your full name',
+  'raffle.phone': 'Phone / WhatsApp',
+  'raffle.email': 'E-mail (optional)',
+  'raffle.emailPlaceholder': 'you@email.com',
+  'raffle.sellerCode': 'Seller Code',
+  'raffle.sellerCodePlaceholder': 'Enter the seller code',
+  'raffle.promoCode': 'Promo code (optional)',
+  'raffle.promoCodePlaceholder': 'Enter the promo code',
+  'raffle.applyPromo': 'Apply',
+  'raffle.promoAppliedButton': 'Applied',
+  'raffle.offline': 'No connection. Showing the numbers saved on {date}, which may be out of date. Purchases made now are saved and sent when the connection is back.',
+  'raffle.highlighted': 'Your numbers are highlighted in green on the grid.',
+  'raffle.search': 'Go to number',
+  'raffle.searchButton': 'Go',
+  'raffle.filterLabel': 'Filter numbers',
+  'raffle.randomCount': 'Quantity',
+  'raffle.randomPick': 'Pick at random',
+  'raffle.luckyPick': 'Lucky number',
+  'raffle.keyboardHint': 'Use the arrow keys to move around the grid and Enter to select.',
+  'raffle.buy.one': 'Buy {count} Number',
+  'raffle.buy.other': 'Buy {count} Numbers',
+  'raffle.buyFor.one': 'Buy {count} Number for {total}',
+  'raffle.buyFor.other': 'Buy {count} Numbers for {total}',
+  'raffle.queuedTitle': 'Purchases waiting for a connection',
+  'raffle.queuedItem': '{buyer}: numbers {numbers}',
+  'raffle.queuedNeedsCode': 'Seller code needed to send',
+  'raffle.queuedCodePrompt': 'Seller code to send the purchase by {buyer}',
+  'raffle.footer': '© 2024 Rifa Solidária da Marlize. All rights reserved.',
+
+  // Prêmios em destaque
+  'carousel.join': 'Join us in this special cause',
+
+  // Grade de números
+  'grid.label': 'Raffle numbers',
+  'grid.empty': 'No numbers found.',
+  'grid.state.available': 'available',
+  'grid.state.sold': 'sold',
+  'grid.state.reserved': 'reserved by someone else',
+  'grid.state.selected': 'selected',
+  'grid.cell': 'Number {number}, {state}',
+  'grid.soldTo': 'to {name}',
+  'grid.yours': 'your number',
+  'grid.soldBadge': 'Sold: {name}',
+  'grid.reservedBadge': 'Reserved',
+
+  // Resumo do valor
+  'price.numbers.one': '{count} number × {price}',
+  'price.numbers.other': '{count} numbers × {price}',
+  'price.bundle': 'Bundle of {quantity} for {price}',
+  'price.promo': 'Promo code {code}',
+  'price.total': 'Total',
+
+  // Pagamento com Pix
+  'pix.copied': 'Pix code copied!',
+  'pix.copyError': 'Could not copy the code',
+  'pix.title': 'Pay with Pix',
+  'pix.amount': 'Amount:',
+  'pix.qrCode': 'Pix QR code',
+  'pix.copyPaste': 'Or use Pix copy and paste:',
+  'pix.copy': 'Copy code',
+  'pix.automatic': 'The payment is confirmed automatically.',
+  'pix.receipt': 'Your receipt:',
+  'pix.downloadPdf': 'Download PDF',
+
+  // Progresso da meta e das vendas
+  'progress.raised': 'Raised',
+  'progress.goal': 'Goal',
+  'progress.label': 'Goal progress',
+  'progress.percent': '{percent}% of the goal',
+  'progress.sold': '{sold} of {total} numbers sold',
+  'progress.soldTitle': 'Sold',
+  'progress.available': 'Available',
+  'progress.salesLabel': 'Numbers sold',
+  'progress.soldPercent': '{percent}% sold',
+
+  // Página do sorteio
+  'draw.loadError': 'Error loading the draw',
+  'draw.back': '← Back to the raffle',
+  'draw.title': 'Draw: {title}',
+  'draw.notPrepared': 'The draw has not been prepared yet.',
+  'draw.notYet': 'The draw has not happened yet.',
+  'draw.winningNumber': 'Winning number',
+  'draw.drawnAt': 'Drawn on {date}',
+  'draw.waiting': 'Waiting for the draw',
+  'draw.completedAt': 'Draw completed on {date}',
+  'draw.verification': 'Verification data',
+  'draw.seedHash': 'Seed hash (published on {date}):',
+  'draw.seed': 'Revealed seed:',
+  'draw.soldNumbers': 'Sold numbers ({count}):',
+  'draw.howTo': 'How to check',
+  'draw.step1': 'Compute the SHA-256 of the seed and check that it matches the hash published before the draw.',
+  'draw.step2.start': 'Compute the SHA-256 of',
+  'draw.step2.formula': 'seed:numbers',
+  'draw.step2.end': ', with the sold numbers in ascending order separated by commas.',
+  'draw.step3': 'Convert the hexadecimal result to a number and take the remainder of its division by the count of sold numbers.',
+  'draw.step4': 'The result is the position (starting at zero) of the winning number in the list.',
+  'draw.step5': 'For the next prize, remove the winning number from the list and repeat steps 2 to 4.',
+  'draw.verified': 'Result checked in this browser ✓',
+  'draw.notVerified': 'The result does not match the published data',
+
+  // Meus números
+  'myNumbers.receiptError': 'Error looking up the receipt',
+  'myNumbers.codeSent': 'If there are purchases with this phone, we will send you a code',
+  'myNumbers.sendCodeError': 'Error sending the code',
+  'myNumbers.lookupError': 'Error looking up the purchases',
+  'myNumbers.receiptNotFound': 'Receipt not found',
+  'myNumbers.invalidCode': 'Invalid or expired code',
+  'myNumbers.title': 'My Numbers',
+  'myNumbers.intro': 'Look up your numbers with the receipt code or the phone used for the purchase.',
+  'myNumbers.byReceipt': 'I have the receipt',
+  'myNumbers.search': 'Search',
+  'myNumbers.byPhone': 'By phone',
+  'myNumbers.codePlaceholder': 'Code received',
+  'myNumbers.show': 'Show my numbers',
+  'myNumbers.sendCode': 'Get a code',
+  'myNumbers.raffle': 'Raffle',
+  'myNumbers.summary': 'Receipt {receipt} · {buyer} · {date} · {amount}',
+  'myNumbers.pdf': 'Receipt as PDF',
+  'myNumbers.showInGrid': 'Show my numbers on the grid',
+
+  // Verificação do comprovante
+  'receipt.checking': 'Checking...',
+  'receipt.authentic': 'Authentic receipt',
+  'receipt.buyer': 'Buyer',
+  'receipt.numbers': 'Numbers',
+  'receipt.amount': 'Amount',
+  'receipt.date': 'Date',
+  'receipt.payment': 'Payment',
+  'receipt.code': 'Receipt',
+  'receipt.notConfirmed': 'Receipt not confirmed',
+  'receipt.notConfirmedHelp': 'This QR code does not match a registered purchase. Check the receipt with whoever sent it.',
+  'receipt.seeRaffles': 'See the raffles',
+
+  // Painel administrativo
+  'admin.loadRafflesError': 'Error loading the raffles',
+  'admin.loadSalesError': 'Error loading the sales',
+  'admin.loginError': 'Error signing in',
+  'admin.paymentError': 'Error updating the payment',
+  'admin.buyerPrompt': 'Buyer name',
+  'admin.phonePrompt': 'Buyer phone',
+  'admin.emailPrompt': 'Buyer e-mail (optional)',
+  'admin.buyerError': 'Error updating the buyer',
+  'admin.cancelConfirm': 'Cancel the purchase by {buyer}? Numbers {numbers} will be available again.',
+  'admin.cancelled': 'Purchase cancelled',
+  'admin.cancelError': 'Error cancelling the purchase',
+  'admin.releaseConfirm': 'Release number {number}? It will be removed from the purchase.',
+  'admin.released': 'Number {number} released',
+  'admin.releaseError': 'Error releasing the number',
+  'admin.title': 'Admin Panel',
+  'admin.username': 'Username',
+  'admin.password': 'Password',
+  'admin.login': 'Sign in',
+  'admin.logout': 'Sign out',
+  'admin.sold': 'Sold',
+  'admin.paid': 'Paid',
+  'admin.expectedRevenue': 'Expected revenue',
+  'admin.receivedRevenue': 'Received',
+  'admin.buyer': 'Buyer',
+  'admin.numbers': 'Numbers',
+  'admin.amount': 'Amount',
+  'admin.seller': 'Seller',
+  'admin.date': 'Date',
+  'admin.payment': 'Payment',
+  'admin.lastChange': 'Last change',
+  'admin.releaseNumber': 'Release number',
+  'admin.saleCancelled': 'Cancelled',
+  'admin.salePaid': 'Paid',
+  'admin.salePending': 'Pending',
+  'admin.changedBy': '{admin} on {date}',
+  'admin.noSales': 'No sales recorded.',
+
+  // Vendedores
+  'sellers.loadError': 'Error loading the sellers',
+  'sellers.codeAlert': 'Code for {name}: {code}\n\nWrite it down now, it will not be shown again.',
+  'sellers.createError': 'Error creating the seller',
+  'sellers.regenerateConfirm': 'Generate a new code for {name}? The current code will stop working.',
+  'sellers.regenerateError': 'Error generating the code',
+  'sellers.revokeConfirm': 'Revoke the code of {name}?',
+  'sellers.revokeError': 'Error revoking the code',
+  'sellers.title': 'Sellers',
+  'sellers.namePlaceholder': 'Seller name',
+  'sellers.add': 'Add',
+  'sellers.name': 'Name',
+  'sellers.sold': 'Sold',
+  'sellers.paid': 'Paid',
+  'sellers.amount': 'Amount',
+  'sellers.newCode': 'New code',
+  'sellers.revoke': 'Revoke',
+
+  // Situação da rifa e sorteio no painel
+  'raffleStatus.draft': 'Draft',
+  'raffleStatus.open': 'Sales open',
+  'raffleStatus.closed': 'Sales closed',
+  'raffleStatus.drawn': 'Drawn',
+  'buyerNames.masked': 'Abbreviated (e.g. Maria S.)',
+  'buyerNames.hidden': 'Hidden',
+  'drawPanel.updateError': 'Error updating the raffle',
+  'drawPanel.committed': 'Seed hash published',
+  'drawPanel.commitError': 'Error preparing the draw',
+  'drawPanel.confirmPrize': 'Draw prize {order} ({name}) now? This cannot be undone.',
+  'drawPanel.confirmNumber': 'Draw the winning number now? This cannot be undone.',
+  'drawPanel.prizeDrawn': '{prize}: number {number}',
+  'drawPanel.numberDrawn': 'Winning number: {number}',
+  'drawPanel.drawError': 'Error running the draw',
+  'drawPanel.title': 'Draw',
+  'drawPanel.publicPage': 'Public page',
+  'drawPanel.status': 'Status:',
+  'drawPanel.buyerNames': 'Names on the public grid:',
+  'drawPanel.seedHash': 'Seed hash:',
+  'drawPanel.commitHint': 'Publish the seed hash while sales are open.',
+  'drawPanel.prizeResult': 'Prize {order}, {prize}: {number}',
+  'drawPanel.commit': 'Publish seed hash',
+  'drawPanel.drawPrize': 'Draw prize {order}',
+  'drawPanel.draw': 'Run the draw',
+
+  // Estatísticas
+  'stats.loadError': 'Error loading the statistics',
+  'stats.goalPrompt': 'Revenue goal in reais (leave blank to sell every number)',
+  'stats.invalidValue': 'Enter a valid amount',
+  'stats.goalError': 'Error updating the goal',
+  'stats.title': 'Statistics',
+  'stats.setGoal': 'Set goal',
+  'stats.refresh': 'Refresh',
+  'stats.sold': 'Sold',
+  'stats.reserved': 'Reserved',
+  'stats.available': 'Available',
+  'stats.perDay': 'Sales per day',
+  'stats.noSales': 'No sales recorded.',
+  'stats.day': '{day}: {numbers} numbers, {amount}',
+  'stats.topSellers': 'Top sellers',
+  'stats.noSellerSales': 'No sales by seller.',
+  'stats.removedSeller': 'Removed seller',
+
+  // Planilhas
+  'import.exportError': 'Error exporting the sales',
+  'import.readError': 'Error reading the spreadsheet',
+  'import.imported.one': '{count} sale imported',
+  'import.imported.other': '{count} sales imported',
+  'import.importError': 'Error importing the sales',
+  'import.title': 'Spreadsheets',
+  'import.exportCsv': 'Export CSV',
+  'import.exportExcel': 'Export Excel',
+  'import.importOffline': 'Import offline sales (CSV)',
+  'import.summary': '{rows} line(s) read: {purchases} sale(s) with {numbers} number(s) to import.',
+  'import.fixConflicts': 'Fix the conflicts below in the spreadsheet before importing:',
+  'import.conflict': 'Line {line}: {reason}',
+  'import.conflictNumber': 'Line {line} (number {number}): {reason}',
+  'import.purchase': '{buyer}: {numbers} ({amount})',
+  'import.purchasePaid': '{buyer}: {numbers} ({amount}, paid)',
+  'import.importing': 'Importing...',
+  'import.confirm': 'Confirm import',
+
+  // Histórico de um número
+  'audit.action.purchase': 'Purchase',
+  'audit.action.import': 'Import',
+  'audit.action.edit': 'Edit',
+  'audit.action.payment': 'Payment',
+  'audit.action.cancel': 'Cancellation',
+  'audit.action.release': 'Release',
+  'audit.action.draw': 'Draw',
+  'audit.loadError': 'Error loading the history',
+  'audit.title': 'History of a number',
+  'audit.numberPlaceholder': 'Number',
+  'audit.show': 'Show history',
+  'audit.empty': 'No changes recorded for this number.',
+  'audit.byAt': 'by {actor} on {date}',
+
+  // Preços e cupons
+  'pricing.percentOff': '{value}% off',
+  'pricing.amountOff': '{value} off',
+  'pricing.validBetween': 'from {start} to {end}',
+  'pricing.validUntil': 'until {end}',
+  'pricing.validFrom': 'from {start}',
+  'pricing.noDeadline': 'no deadline',
+  'pricing.loadError': 'Error loading the promo codes',
+  'pricing.saved': 'Prices saved',
+  'pricing.saveError': 'Error saving the prices',
+  'pricing.createError': 'Error creating the promo code',
+  'pricing.deactivateConfirm': 'Deactivate promo code {code}?',
+  'pricing.deactivateError': 'Error deactivating the promo code',
+  'pricing.title': 'Prices',
+  'pricing.ticketPrice': 'Price per number (R$):',
+  'pricing.bundles': 'Bundles',
+  'pricing.noBundles': 'No bundles: every number costs the same.',
+  'pricing.bundleQuantity': 'Numbers in the bundle',
+  'pricing.bundleFor': 'numbers for R$',
+  'pricing.bundlePrice': 'Bundle price',
+  'pricing.bundleSaving': '(saves {amount})',
+  'pricing.removeBundle': 'Remove bundle',
+  'pricing.addBundle': 'Add bundle',
+  'pricing.save': 'Save prices',
+  'pricing.promoCodes': 'Promo codes',
+  'pricing.code': 'Code',
+  'pricing.codeLabel': 'Promo code',
+  'pricing.codePlaceholder': 'Code (e.g. XMAS10)',
+  'pricing.kind': 'Discount type',
+  'pricing.discount': 'Discount',
+  'pricing.maxUses': 'Usage limit',
+  'pricing.maxUsesPlaceholder': 'Uses (unlimited)',
+  'pricing.startsAt': 'Start',
+  'pricing.expiresAt': 'End',
+  'pricing.create': 'Create promo code',
+  'pricing.validity': 'Validity',
+  'pricing.uses': 'Uses',
+  'pricing.deactivate': 'Deactivate',
+
+  // Catálogo de prêmios
+  'prizes.saved': 'Prizes saved',
+  'prizes.saveError': 'Error saving the prizes',
+  'prizes.title': 'Prizes',
+  'prizes.hint': 'Prizes are drawn from top to bottom, and a drawn number does not compete for the following prizes.',
+  'prizes.empty': 'With no prizes registered, the draw picks a single number.',
+  'prizes.position': '#{order}',
+  'prizes.nameLabel': 'Name of prize {order}',
+  'prizes.namePlaceholder': 'Prize name',
+  'prizes.descriptionLabel': 'Description of prize {order}',
+  'prizes.descriptionPlaceholder': 'Description (optional)',
+  'prizes.imageLabel': 'Image of prize {order}',
+  'prizes.imagePlaceholder': 'Image address (optional)',
+  'prizes.moveUp': 'Draw earlier',
+  'prizes.moveDown': 'Draw later',
+  'prizes.remove': 'Remove prize',
+  'prizes.locked': 'The draw has already taken place; the prizes can no longer be changed.',
+  'prizes.add': 'Add prize',
+  'prizes.save': 'Save prizes',
+}
+
+export default messages
@@ -0,0 +1,386 @@
+import { Messages } from './pt-BR'
+
+const messages: Messages = {
+  // Comuns
+  'common.loading': 'Cargando...',
+  'common.close': 'Cerrar',
+  'common.cancel': 'Cancelar',
+  'common.unknownError': 'error desconocido',
+  'common.whatsappImage': 'Imagen para WhatsApp',
+  'language.label': 'Idioma',
+  'offline.noConnection': 'Sin conexión con el servidor',
+  'offline.serverDown': 'El servidor no responde',
+  'payment.pending': 'Esperando el pago',
+  'payment.paid': 'Pagado',
+  'payment.cancelled': 'Cancelado',
+  'prize.nth': 'Premio {order}',
+  'prize.single': 'Premio',
+
+  // Lista de rifas
+  'home.loadError': 'Error al cargar las rifas',
+  'home.title': 'Rifas Solidarias',
+  'home.lookup': 'Consultar mis números',
+  'home.empty': 'No hay rifas disponibles en este momento.',
+  'home.pricePerNumber': '{price} por número',
+  'home.salesClosed': 'Ventas cerradas',
+
+  // Página da rifa
+  'raffle.filter.all': 'Todos',
+  'raffle.filter.available': 'Disponibles',
+  'raffle.filter.selected': 'Mi selección',
+  'raffle.justSold.one': 'El número {numbers} acaba de venderse',
+  'raffle.justSold.other': 'Los números {numbers} acaban de venderse',
+  'raffle.loadError': 'Error al cargar los números',
+  'raffle.queuedSent': '¡Compra de {buyer} enviada! Comprobante: {receipt}',
+  'raffle.queuedFailed': 'No se pudo registrar la compra de {buyer} (números {numbers}): {reason}',
+  'raffle.reserveError': 'No se pudieron reservar los números',
+  'raffle.numberSold': '¡Este número ya fue vendido!',
+  'raffle.numberReserved': '¡Este número está reservado por otra persona!',
+  'raffle.searchOutOfRange': 'Ingresa un número entre {start} y {end}',
+  'raffle.noneAvailable': 'No hay números disponibles',
+  'raffle.fewAvailable.one': 'Solo queda {count} número disponible',
+  'raffle.fewAvailable.other': 'Solo quedan {count} números disponibles',
+  'raffle.luckyNumber': '¡Tu número de la suerte es el {number}!',
+  'raffle.randomPicked': 'Números elegidos: {numbers}',
+  'raffle.promoApplied': 'Cupón {code} aplicado',
+  'raffle.promoError': 'No se pudo verificar el cupón',
+  'raffle.purchased': '¡Números comprados! Vendedor: {seller}. Comprobante: {receipt}',
+  'raffle.purchaseQueued': 'Sin conexión: la compra quedó guardada y se enviará cuando vuelva internet',
+  'raffle.purchaseQueueError': 'Sin conexión, y no se pudo guardar la compra en este dispositivo',
+  'raffle.purchaseError': 'Error al comprar los números',
+  'raffle.aboutTitle': 'Sobre la Causa',
+  'raffle.about': '{description} Cada número cuesta {price}{bundles}, y puedes comprar cuantos números quieras. Los números se eligen libremente, sin necesidad de seguir una secuencia. ¡Súmate a esta iniciativa y ayuda a marcar la diferencia!',
+  'raffle.bundle': '{quantity} por {price}',
+  'raffle.drawDate': 'Sorteo el {date}',
+  'raffle.followDraw': 'Sigue el sorteo y verifica el resultado',
+  'raffle.lookup': '¿Ya compraste? Consulta tus números',
+  'raffle.chooseTitle': 'Elige Tus Números',
+  'raffle.buyerName': 'Tu Nombre',
+  'raffle.buyerNamePlaceholder': 'Escribe tu nombre completo',
+  'raffle.phone': 'Teléfono / WhatsApp',
+  'raffle.email': 'Correo electrónico (opcional)',
+  'raffle.emailPlaceholder': 'tu@correo.com',
+  'raffle.sellerCode': 'Código del Vendedor',
+  'raffle.sellerCodePlaceholder': 'Escribe el código del vendedor',
+  'raffle.promoCode': 'Cupón de descuento (opcional)',
+  'raffle.promoCodePlaceholder': 'Escribe el cupón',
+  'raffle.applyPromo': 'Aplicar',
+  'raffle.promoAppliedButton': 'Aplicado',
+  'raffle.offline': 'Sin conexión. Se muestran los números guardados el {date}, que pueden estar desactualizados. Las compras hechas ahora se guardan y se envían cuando vuelva la conexión.',
+  'raffle.highlighted': 'Tus números aparecen resaltados en verde en la cuadrícula.',
+  'raffle.search': 'Ir al número',
+  'raffle.searchButton': 'Ir',
+  'raffle.filterLabel': 'Filtrar números',
+  'raffle.randomCount': 'Cantidad',
+  'raffle.randomPick': 'Elegir al azar',
+  'raffle.luckyPick': 'Número de la suerte',
+  'raffle.keyboardHint': 'Usa las flechas para moverte por la cuadrícula y Enter para seleccionar.',
+  'raffle.buy.one': 'Comprar {count} Número',
+  'raffle.buy.other': 'Comprar {count} Números',
+  'raffle.buyFor.one': 'Comprar {count} Número por {total}',
+  'raffle.buyFor.other': 'Comprar {count} Números por {total}',
+  'raffle.queuedTitle': 'Compras esperando conexión',
+  'raffle.queuedItem': '{buyer}: números {numbers}',
+  'raffle.queuedNeedsCode': 'Se necesita el código del vendedor para enviar',
+  'raffle.queuedCodePrompt': 'Código del vendedor para enviar la compra de {buyer}',
+  'raffle.footer': '© 2024 Rifa Solidária da Marlize. Todos los derechos reservados.',
+
+  // Prêmios em destaque
+  'carousel.join': 'Súmate a esta causa especial',
+
+  // Grade de números
+  'grid.label': 'Números de la rifa',
+  'grid.empty': 'No se encontraron números.',
+  'grid.state.available': 'disponible',
+  'grid.state.sold': 'vendido',
+  'grid.state.reserved': 'reservado por otra persona',
+  'grid.state.selected': 'seleccionado',
+  'grid.cell': 'Número {number}, {state}',
+  'grid.soldTo': 'a {name}',
+  'grid.yours': 'tu número',
+  'grid.soldBadge': 'Vendido: {name}',
+  'grid.reservedBadge': 'Reservado',
+
+  // Resumo do valor
+  'price.numbers.one': '{count} número × {price}',
+  'price.numbers.other': '{count} números × {price}',
+  'price.bundle': 'Paquete de {quantity} por {price}',
+  'price.promo': 'Cupón {code}',
+  'price.total': 'Total',
+
+  // Pagamento com Pix
+  'pix.copied': '¡Código Pix copiado!',
+  'pix.copyError': 'No se pudo copiar el código',
+  'pix.title': 'Pago con Pix',
+  'pix.amount': 'Monto:',
+  'pix.qrCode': 'Código QR de Pix',
+  'pix.copyPaste': 'O usa Pix copia y pega:',
+  'pix.copy': 'Copiar código',
+  'pix.automatic': 'El pago se confirma automáticamente.',
+  'pix.receipt': 'Tu comprobante:',
+  'pix.downloadPdf': 'Descargar PDF',
+
+  // Progresso da meta e das vendas
+  'progress.raised': 'Recaudado',
+  'progress.goal': 'Meta',
+  'progress.label': 'Progreso de la meta',
+  'progress.percent': '{percent}% de la meta',
+  'progress.sold': '{sold} de {total} números vendidos',
+  'progress.soldTitle': 'Vendidos',
+  'progress.available': 'Disponibles',
+  'progress.salesLabel': 'Números vendidos',
+  'progress.soldPercent': '{percent}% vendido',
+
+  // Página do sorteio
+  'draw.loadError': 'Error al cargar el sorteo',
+  'draw.back': '← Volver a la rifa',
+  'draw.title': 'Sorteo: {title}',
+  'draw.notPrepared': 'El sorteo todavía no fue preparado.',
+  'draw.notYet': 'El sorteo todavía no se realizó.',
+  'draw.winningNumber': 'Número ganador',
+  'draw.drawnAt': 'Sorteado el {date}',
+  'draw.waiting': 'Esperando el sorteo',
+  'draw.completedAt': 'Sorteo realizado el {date}',
+  'draw.verification': 'Datos para verificación',
+  'draw.seedHash': 'Hash de la semilla (publicado el {date}):',
+  'draw.seed': 'Semilla revelada:',
+  'draw.soldNumbers': 'Números vendidos ({count}):',
+  'draw.howTo': 'Cómo verificar',
+  'draw.step1': 'Calcula el SHA-256 de la semilla y comprueba que coincide con el hash publicado antes del sorteo.',
+  'draw.step2.start': 'Calcula el SHA-256 de',
+  'draw.step2.formula': 'semilla:números',
+  'draw.step2.end': ', con los números vendidos en orden ascendente separados por comas.',
+  'draw.step3': 'Convierte el resultado hexadecimal en un número y toma el resto de su división por la cantidad de números vendidos.',
+  'draw.step4': 'El resultado es la posición (empezando en cero) del número ganador en la lista.',
+  'draw.step5': 'Para el siguiente premio, quita el número ganador de la lista y repite los pasos 2 a 4.',
+  'draw.verified': 'Resultado verificado en este navegador ✓',
+  'draw.notVerified': 'El resultado no coincide con los datos publicados',
+
+  // Meus números
+  'myNumbers.receiptError': 'Error al consultar el comprobante',
+  'myNumbers.codeSent': 'Si hay compras con este teléfono, te enviaremos un código',
+  'myNumbers.sendCodeError': 'Error al enviar el código',
+  'myNumbers.lookupError': 'Error al consultar las compras',
+  'myNumbers.receiptNotFound': 'Comprobante no encontrado',
+  'myNumbers.invalidCode': 'Código inválido o vencido',
+  'myNumbers.title': 'Mis Números',
+  'myNumbers.intro': 'Consulta tus números con el código del comprobante o el teléfono usado en la compra.',
+  'myNumbers.byReceipt': 'Tengo el comprobante',
+  'myNumbers.search': 'Consultar',
+  'myNumbers.byPhone': 'Por teléfono',
+  'myNumbers.codePlaceholder': 'Código recibido',
+  'myNumbers.show': 'Ver mis números',
+  'myNumbers.sendCode': 'Recibir código',
+  'myNumbers.raffle': 'Rifa',
+  'myNumbers.summary': 'Comprobante {receipt} · {buyer} · {date} · {amount}',
+  'myNumbers.pdf': 'Comprobante en PDF',
+  'myNumbers.showInGrid': 'Ver mis números en la cuadrícula',
+
+  // Verificação do comprovante
+  'receipt.checking': 'Verificando...',
+  'receipt.authentic': 'Comprobante auténtico',
+  'receipt.buyer': 'Comprador',
+  'receipt.numbers': 'Números',
+  'receipt.amount': 'Monto',
+  'receipt.date': 'Fecha',
+  'receipt.payment': 'Pago',
+  'receipt.code': 'Comprobante',
+  'receipt.notConfirmed': 'Comprobante no confirmado',
+  'receipt.notConfirmedHelp': 'Este código QR no corresponde a una compra registrada. Verifica el comprobante con quien te lo envió.',
+  'receipt.seeRaffles': 'Ver las rifas',
+
+  // Painel administrativo
+  'admin.loadRafflesError': 'Error al cargar las rifas',
+  'admin.loadSalesError': 'Error al cargar las ventas',
+  'admin.loginError': 'Error al iniciar sesión',
+  'admin.paymentError': 'Error al actualizar el pago',
+  'admin.buyerPrompt': 'Nombre del comprador',
+  'admin.phonePrompt': 'Teléfono del comprador',
+  'admin.emailPrompt': 'Correo del comprador (opcional)',
+  'admin.buyerError': 'Error al actualizar el comprador',
+  'admin.cancelConfirm': '¿Cancelar la compra de {buyer}? Los números {numbers} volverán a estar disponibles.',
+  'admin.cancelled': 'Compra cancelada',
+  'admin.cancelError': 'Error al cancelar la compra',
+  'admin.releaseConfirm': '¿Liberar el número {number}? Se quitará de la compra.',
+  'admin.released': 'Número {number} liberado',
+  'admin.releaseError': 'Error al liberar el número',
+  'admin.title': 'Panel Administrativo',
+  'admin.username': 'Usuario',
+  'admin.password': 'Contraseña',
+  'admin.login': 'Entrar',
+  'admin.logout': 'Salir',
+  'admin.sold': 'Vendidos',
+  'admin.paid': 'Pagados',
+  'admin.expectedRevenue': 'Recaudación prevista',
+  'admin.receivedRevenue': 'Recibido',
+  'admin.buyer': 'Comprador',
+  'admin.numbers': 'Números',
+  'admin.amount': 'Monto',
+  'admin.seller': 'Vendedor',
+  'admin.date': 'Fecha',
+  'admin.payment': 'Pago',
+  'admin.lastChange': 'Último cambio',
+  'admin.releaseNumber': 'Liberar número',
+  'admin.saleCancelled': 'Cancelada',
+  'admin.salePaid': 'Pagada',
+  'admin.salePending': 'Pendiente',
+  'admin.changedBy': '{admin} el {date}',
+  'admin.noSales': 'Ninguna venta registrada.',
+
+  // Vendedores
+  'sellers.loadError': 'Error al cargar los vendedores',
+  'sellers.codeAlert': 'Código de {name}: {code}\n\nAnótalo ahora, no se volverá a mostrar.',
+  'sellers.createError': 'Error al registrar el vendedor',
+  'sellers.regenerateConfirm': '¿Generar un código nuevo para {name}? El código actual dejará de funcionar.',
+  'sellers.regenerateError': 'Error al generar el código',
+  'sellers.revokeConfirm': '¿Revocar el código de {name}?',
+  'sellers.revokeError': 'Error al revocar el código',
+  'sellers.title': 'Vendedores',
+  'sellers.namePlaceholder': 'Nombre del vendedor',
+  'sellers.add': 'Registrar',
+  'sellers.name': 'Nombre',
+  'sellers.sold': 'Vendidos',
+  'sellers.paid': 'Pagados',
+  'sellers.amount': 'Monto',
+  'sellers.newCode': 'Nuevo código',
+  'sellers.revoke': 'Revocar',
+
+  // Situação da rifa e sorteio no painel
+  'raffleStatus.draft': 'Borrador',
+  'raffleStatus.open': 'Ventas abiertas',
+  'raffleStatus.closed': 'Ventas cerradas',
+  'raffleStatus.drawn': 'Sorteada',
+  'buyerNames.masked': 'Abreviados (ej.: Maria S.)',
+  'buyerNames.hidden': 'Ocultos',
+  'drawPanel.updateError': 'Error al actualizar la rifa',
+  'drawPanel.committed': 'Hash de la semilla publicado',
+  'drawPanel.commitError': 'Error al preparar el sorteo',
+  'drawPanel.confirmPrize': '¿Sortear ahora el premio {order} ({name})? Esta acción no se puede deshacer.',
+  'drawPanel.confirmNumber': '¿Sortear ahora el número ganador? Esta acción no se puede deshacer.',
+  'drawPanel.prizeDrawn': '{prize}: número {number}',
+  'drawPanel.numberDrawn': 'Número ganador: {number}',
+  'drawPanel.drawError': 'Error al realizar el sorteo',
+  'drawPanel.title': 'Sorteo',
+  'drawPanel.publicPage': 'Página pública',
+  'drawPanel.status': 'Estado:',
+  'drawPanel.buyerNames': 'Nombres en la cuadrícula pública:',
+  'drawPanel.seedHash': 'Hash de la semilla:',
+  'drawPanel.commitHint': 'Publica el hash de la semilla mientras las ventas están abiertas.',
+  'drawPanel.prizeResult': 'Premio {order}, {prize}: {number}',
+  'drawPanel.commit': 'Publicar hash de la semilla',
+  'drawPanel.drawPrize': 'Sortear premio {order}',
+  'drawPanel.draw': 'Realizar sorteo',
+
+  // Estatísticas
+  'stats.loadError': 'Error al cargar las estadísticas',
+  'stats.goalPrompt': 'Meta de recaudación en reales (deja en blanco para vender todos los números)',
+  'stats.invalidValue': 'Ingresa un monto válido',
+  'stats.goalError': 'Error al actualizar la meta',
+  'stats.title': 'Estadísticas',
+  'stats.setGoal': 'Definir meta',
+  'stats.refresh': 'Actualizar',
+  'stats.sold': 'Vendidos',
+  'stats.reserved': 'Reservados',
+  'stats.available': 'Disponibles',
+  'stats.perDay': 'Ventas por día',
+  'stats.noSales': 'Ninguna venta registrada.',
+  'stats.day': '{day}: {numbers} números, {amount}',
+  'stats.topSellers': 'Mejores vendedores',
+  'stats.noSellerSales': 'Ninguna venta por vendedor.',
+  'stats.removedSeller': 'Vendedor eliminado',
+
+  // Planilhas
+  'import.exportError': 'Error al exportar las ventas',
+  'import.readError': 'Error al leer la planilla',
+  'import.imported.one': '{count} venta importada',
+  'import.imported.other': '{count} ventas importadas',
+  'import.importError': 'Error al importar las ventas',
+  'import.title': 'Planillas',
+  'import.exportCsv': 'Exportar CSV',
+  'import.exportExcel': 'Exportar Excel',
+  'import.importOffline': 'Importar ventas sin conexión (CSV)',
+  'import.summary': '{rows} línea(s) leída(s): {purchases} venta(s) con {numbers} número(s) para importar.',
+  'import.fixConflicts': 'Corrige los conflictos de abajo en la planilla antes de importar:',
+  'import.conflict': 'Línea {line}: {reason}',
+  'import.conflictNumber': 'Línea {line} (número {number}): {reason}',
+  'import.purchase': '{buyer}: {numbers} ({amount})',
+  'import.purchasePaid': '{buyer}: {numbers} ({amount}, pagado)',
+  'import.importing': 'Importando...',
+  'import.confirm': 'Confirmar importación',
+
+  // Histórico de um número
+  'audit.action.purchase': 'Compra',
+  'audit.action.import': 'Importación',
+  'audit.action.edit': 'Edición',
+  'audit.action.payment': 'Pago',
+  'audit.action.cancel': 'Cancelación',
+  'audit.action.release': 'Liberación',
+  'audit.action.draw': 'Sorteo',
+  'audit.loadError': 'Error al cargar el historial',
+  'audit.title': 'Historial de un número',
+  'audit.numberPlaceholder': 'Número',
+  'audit.show': 'Ver historial',
+  'audit.empty': 'Ningún cambio registrado para este número.',
+  'audit.byAt': 'por {actor} el {date}',
+
+  // Preços e cupons
+  'pricing.percentOff': '{value}% de descuento',
+  'pricing.amountOff': '{value} de descuento',
+  'pricing.validBetween': 'del {start} al {end}',
+  'pricing.validUntil': 'hasta el {end}',
+  'pricing.validFrom': 'desde el {start}',
+  'pricing.noDeadline': 'sin plazo',
+  'pricing.loadError': 'Error al cargar los cupones',
+  'pricing.saved': 'Precios guardados',
+  'pricing.saveError': 'Error al guardar los precios',
+  'pricing.createError': 'Error al crear el cupón',
+  'pricing.deactivateConfirm': '¿Desactivar el cupón {code}?',
+  'pricing.deactivateError': 'Error al desactivar el cupón',
+  'pricing.title': 'Precios',
+  'pricing.ticketPrice': 'Precio por número (R$):',
+  'pricing.bundles': 'Paquetes',
+  'pricing.noBundles': 'Sin paquetes: todos los números cuestan lo mismo.',
+  'pricing.bundleQuantity': 'Números del paquete',
+  'pricing.bundleFor': 'números por R$',
+  'pricing.bundlePrice': 'Precio del paquete',
+  'pricing.bundleSaving': '(ahorro de {amount})',
+  'pricing.removeBundle': 'Quitar paquete',
+  'pricing.addBundle': 'Agregar paquete',
+  'pricing.save': 'Guardar precios',
+  'pricing.promoCodes': 'Cupones',
+  'pricing.code': 'Cupón',
+  'pricing.codeLabel': 'Código del cupón',
+  'pricing.codePlaceholder': 'Código (ej.: NAVIDAD10)',
+  'pricing.kind': 'Tipo de descuento',
+  'pricing.discount': 'Descuento',
+  'pricing.maxUses': 'Límite de usos',
+  'pricing.maxUsesPlaceholder': 'Usos (sin límite)',
+  'pricing.startsAt': 'Inicio',
+  'pricing.expiresAt': 'Fin',
+  'pricing.create': 'Crear cupón',
+  'pricing.validity': 'Vigencia',
+  'pricing.uses': 'Usos',
+  'pricing.deactivate': 'Desactivar',
+
+  // Catálogo de prêmios
+  'prizes.saved': 'Premios guardados',
+  'prizes.saveError': 'Error al guardar los premios',
+  'prizes.title': 'Premios',
+  'prizes.hint': 'Los premios se sortean de arriba hacia abajo, y un número sorteado no compite por los premios siguientes.',
+  'prizes.empty': 'Sin premios registrados, el sorteo elige un único número.',
+  'prizes.position': '#{order}',
+  'prizes.nameLabel': 'Nombre del premio {order}',
+  'prizes.namePlaceholder': 'Nombre del premio',
+  'prizes.descriptionLabel': 'Descripción del premio {order}',
+  'prizes.descriptionPlaceholder': 'Descripción (opcional)',
+  'prizes.imageLabel': 'Imagen del premio {order}',
+  'prizes.imagePlaceholder': 'Dirección de la imagen (opcional)',
+  'prizes.moveUp': 'Sortear antes',
+  'prizes.moveDown': 'Sortear después',
+  'prizes.remove': 'Quitar premio',
+  'prizes.locked': 'El sorteo ya se realizó; los premios ya no se pueden cambiar.',
+  'prizes.add': 'Agregar premio',
+  'prizes.save': 'Guardar premios',
+}
+
+export default messages
@@ -0,0 +1,90 @@
+import { useMemo, useSyncExternalStore } from 'react'
+import { Locale, interpolate, isLocale, negotiateLocale } from '../../shared/i18n'
+import ptBR, { MessageKey, Messages } from './pt-BR'
+import en from './en'
+import es from './es'
+
+export { LOCALES } from '../../shared/i18n'
+export type { Locale } from '../../shared/i18n'
+export type { MessageKey } from './pt-BR'
+
+const LOCALE_KEY = 'locale'
+
+const CATALOGS: Record<Locale, Messages> = { 'pt-BR': ptBR, en, es }
+
+// Mensagens com plural ("x.one", "x.other") são pedidas sem o sufixo, com { count }
+type PluralKey = { [K in MessageKey]: K extends `${infer Base}.other` ? Base : never }[MessageKey]
+
+export type TranslationKey = MessageKey | PluralKey
+
+export type TranslationParams = Record<string, string | number>
+
+// Idioma escolhido neste aparelho ou, na primeira visita, o do navegador
+let currentLocale: Locale = (() => {
+  const saved = localStorage.getItem(LOCALE_KEY)
+  return isLocale(saved) ? saved : negotiateLocale(navigator.languages)
+})()
+document.documentElement.lang = currentLocale
+
+const listeners = new Set<() => void>()
+
+function subscribe(listener: () => void) {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export function getLocale(): Locale {
+  return currentLocale
+}
+
+export function setLocale(locale: Locale): void {
+  currentLocale = locale
+  localStorage.setItem(LOCALE_KEY, locale)
+  document.documentElement.lang = locale
+  listeners.forEach(listener => listener())
+}
+
+export function translate(locale: Locale, key: TranslationKey, params: TranslationParams = {}): string {
+  const messages = CATALOGS[locale]
+  let messageKey = key as MessageKey
+  if (!(key in messages) && typeof params.count === 'number') {
+    const plural = `${key}.${new Intl.PluralRules(locale).select(params.count)}`
+    messageKey = (plural in messages ? plural : `${key}.other`) as MessageKey
+  }
+  return interpolate(messages[messageKey] ?? key, params)
+}
+
+// Para quem não é componente (serviços, mensagens de erro), no idioma do momento
+export function t(key: TranslationKey, params?: TranslationParams): string {
+  return translate(currentLocale, key, params)
+}
+
+// Os valores são sempre em reais; muda só a forma de escrever
+export const formatCurrency = (value: number, locale: Locale = currentLocale) =>
+  value.toLocaleString(locale, { style: 'currency', currency: 'BRL' })
+
+export const formatNumber = (value: number, locale: Locale = currentLocale) =>
+  value.toLocaleString(locale)
+
+export const formatDate = (value: string | Date, locale: Locale = currentLocale) =>
+  new Date(value).toLocaleDateString(locale)
+
+export const formatDateTime = (value: string | Date, locale: Locale = currentLocale) =>
+  new Date(value).toLocaleString(locale)
+
+// Traduções e formatos no idioma atual; o componente renderiza de novo quando o idioma muda
+export function useI18n() {
+  const locale = useSyncExternalStore(subscribe, getLocale)
+
+  return useMemo(() => ({
+    locale,
+    setLocale,
+    t: (key: TranslationKey, params?: TranslationParams) => translate(locale, key, params),
+    formatCurrency: (value: number) => formatCurrency(value, locale),
+    formatNumber: (value: number) => formatNumber(value, locale),
+    formatDate: (value: string | Date) => formatDate(value, locale),
+    formatDateTime: (value: string | Date) => formatDateTime(value, locale),
+  }), [locale])
+}
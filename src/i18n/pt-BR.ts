@@ -0,0 +1,389 @@
+// Textos da interface em português, o idioma padrão; as chaves daqui valem para os outros idiomas
+const messages = {
+  // Comuns
+  'common.loading': 'Carregando...',
+  'common.close': 'Fechar',
+  'common.cancel': 'Cancelar',
+  'common.unknownError': 'erro desconhecido',
+  'common.whatsappImage': 'Imagem para WhatsApp',
+  'language.label': 'Idioma',
+  'offline.noConnection': 'Sem conexão com o servidor',
+  'offline.serverDown': 'O servidor não está respondendo',
+  'payment.pending': 'Aguardando pagamento',
+  'payment.paid': 'Pago',
+  'payment.cancelled': 'Cancelado',
+  'prize.nth': '{order}º prêmio',
+  'prize.single': 'Prêmio',
+
+  // Lista de rifas
+  'home.loadError': 'Erro ao carregar as rifas',
+  'home.title': 'Rifas Solidárias',
+  'home.lookup': 'Consultar meus números',
+  'home.empty': 'Nenhuma rifa disponível no momento.',
+  'home.pricePerNumber': '{price} por número',
+  'home.salesClosed': 'Vendas encerradas',
+
+  // Página da rifa
+  'raffle.filter.all': 'Todos',
+  'raffle.filter.available': 'Disponíveis',
+  'raffle.filter.selected': 'Minha seleção',
+  'raffle.justSold.one': 'O número {numbers} acabou de ser vendido',
+  'raffle.justSold.other': 'Os números {numbers} acabaram de ser vendidos',
+  'raffle.loadError': 'Erro ao carregar os números',
+  'raffle.queuedSent': 'Compra de {buyer} enviada! Comprovante: {receipt}',
+  'raffle.queuedFailed': 'A compra de {buyer} (números {numbers}) não pôde ser registrada: {reason}',
+  'raffle.reserveError': 'Não foi possível reservar os números',
+  'raffle.numberSold': 'Este número já foi vendido!',
+  'raffle.numberReserved': 'Este número está reservado por outra pessoa!',
+  'raffle.searchOutOfRange': 'Digite um número entre {start} e {end}',
+  'raffle.noneAvailable': 'Não há números disponíveis',
+  'raffle.fewAvailable.one': 'Só há {count} número disponível',
+  'raffle.fewAvailable.other': 'Só há {count} números disponíveis',
+  'raffle.luckyNumber': 'Seu número da sorte é o {number}!',
+  'raffle.randomPicked': 'Números escolhidos: {numbers}',
+  'raffle.promoApplied': 'Cupom {code} aplicado',
+  'raffle.promoError': 'Não foi possível conferir o cupom',
+  'raffle.purchased': 'Números comprados com sucesso! Vendedor: {seller}. Comprovante: {receipt}',
+  'raffle.purchaseQueued': 'Sem conexão: a compra foi guardada e será enviada quando a internet voltar',
+  'raffle.purchaseQueueError': 'Sem conexão e não foi possível guardar a compra neste aparelho',
+  'raffle.purchaseError': 'Erro ao comprar números',
+  'raffle.aboutTitle': 'Sobre a Causa',
+  'raffle.about': '{description} Cada número custa {price}{bundles}, e você pode comprar quantos números desejar. Os números são escolhidos livremente, sem necessidade de sequência. Junte-se a nós nesta iniciativa e ajude a fazer a diferença!',
+  'raffle.bundle': '{quantity} por {price}',
+  'raffle.drawDate': 'Sorteio em {date}',
+  'raffle.followDraw': 'Acompanhe o sorteio e confira o resultado',
+  'raffle.lookup': 'Já comprou? Consulte seus números',
+  'raffle.chooseTitle': 'Escolha Seus Números',
+  'raffle.buyerName': 'Seu Nome',
+  'raffle.buyerNamePlaceholder': 'Digite seu nome completo',
+  'raffle.phone': 'Telefone / WhatsApp',
+  'raffle.email': 'E-mail (opcional)',
+  'raffle.emailPlaceholder': 'seu@email.com',
+  'raffle.sellerCode': 'Código do Vendedor',
+  'raffle.sellerCodePlaceholder': 'Digite o código do vendedor',
+  'raffle.promoCode': 'Cupom de desconto (opcional)',
+  'raffle.promoCodePlaceholder': 'Digite o cupom',
+  'raffle.applyPromo': 'Aplicar',
+  'raffle.promoAppliedButton': 'Aplicado',
+  'raffle.offline': 'Sem conexão. Mostrando os números salvos em {date}, que podem estar desatualizados. Compras feitas agora ficam guardadas e são enviadas quando a conexão voltar.',
+  'raffle.highlighted': 'Seus números estão destacados em verde na grade.',
+  'raffle.search': 'Ir para o número',
+  'raffle.searchButton': 'Ir',
+  'raffle.filterLabel': 'Filtrar números',
+  'raffle.randomCount': 'Quantidade',
+  'raffle.randomPick': 'Escolher aleatórios',
+  'raffle.luckyPick': 'Número da sorte',
+  'raffle.keyboardHint': 'Use as setas do teclado para navegar pela grade e Enter para selecionar.',
+  'raffle.buy.one': 'Comprar {count} Número',
+  'raffle.buy.other': 'Comprar {count} Números',
+  'raffle.buyFor.one': 'Comprar {count} Número por {total}',
+  'raffle.buyFor.other': 'Comprar {count} Números por {total}',
+  'raffle.queuedTitle': 'Compras aguardando conexão',
+  'raffle.queuedItem': '{buyer}: números {numbers}',
+  'raffle.queuedNeedsCode': 'Código do vendedor necessário para enviar',
+  'raffle.queuedCodePrompt': 'Código do vendedor para enviar a compra de {buyer}',
+  'raffle.footer': '© 2024 Rifa Solidária da Marlize. Todos os direitos reservados.',
+
+  // Prêmios em destaque
+  'carousel.join': 'Junte-se a nós nesta causa especial',
+
+  // Grade de números
+  'grid.label': 'Números da rifa',
+  'grid.empty': 'Nenhum número encontrado.',
+  'grid.state.available': 'disponível',
+  'grid.state.sold': 'vendido',
+  'grid.state.reserved': 'reservado por outra pessoa',
+  'grid.state.selected': 'selecionado',
+  'grid.cell': 'Número {number}, {state}',
+  'grid.soldTo': 'para {name}',
+  'grid.yours': 'seu número',
+  'grid.soldBadge': 'Vendido: {name}',
+  'grid.reservedBadge': 'Reservado',
+
+  // Resumo do valor
+  'price.numbers.one': '{count} número × {price}',
+  'price.numbers.other': '{count} números × {price}',
+  'price.bundle': 'Pacote {quantity} por {price}',
+  'price.promo': 'Cupom {code}',
+  'price.total': 'Total',
+
+  // Pagamento com Pix
+  'pix.copied': 'Código Pix copiado!',
+  'pix.copyError': 'Não foi possível copiar o código',
+  'pix.title': 'Pague com Pix',
+  'pix.amount': 'Valor:',
+  'pix.qrCode': 'QR Code Pix',
+  'pix.copyPaste': 'Ou use o Pix copia e cola:',
+  'pix.copy': 'Copiar código',
+  'pix.automatic': 'A confirmação do pagamento é automática.',
+  'pix.receipt': 'Seu comprovante:',
+  'pix.downloadPdf': 'Baixar PDF',
+
+  // Progresso da meta e das vendas
+  'progress.raised': 'Arrecadado',
+  'progress.goal': 'Meta',
+  'progress.label': 'Progresso da meta',
+  'progress.percent': '{percent}% da meta',
+  'progress.sold': '{sold} de {total} números vendidos',
+  'progress.soldTitle': 'Vendidos',
+  'progress.available': 'Disponíveis',
+  'progress.salesLabel': 'Números vendidos',
+  'progress.soldPercent': '{percent}% vendido',
+
+  // Página do sorteio
+  'draw.loadError': 'Erro ao carregar o sorteio',
+  'draw.back': '← Voltar para a rifa',
+  'draw.title': 'Sorteio {title}',
+  'draw.notPrepared': 'O sorteio ainda não foi preparado.',
+  'draw.notYet': 'O sorteio ainda não aconteceu.',
+  'draw.winningNumber': 'Número sorteado',
+  'draw.drawnAt': 'Sorteado em {date}',
+  'draw.waiting': 'Aguardando sorteio',
+  'draw.completedAt': 'Sorteio concluído em {date}',
+  'draw.verification': 'Dados de verificação',
+  'draw.seedHash': 'Hash da semente (publicado em {date}):',
+  'draw.seed': 'Semente revelada:',
+  'draw.soldNumbers': 'Números vendidos ({count}):',
+  'draw.howTo': 'Como conferir',
+  'draw.step1': 'Calcule o SHA-256 da semente e confira que é igual ao hash publicado antes do sorteio.',
+  'draw.step2.start': 'Calcule o SHA-256 de',
+  'draw.step2.formula': 'semente:números',
+  'draw.step2.end': ', com os números vendidos em ordem crescente separados por vírgula.',
+  'draw.step3': 'Converta o resultado hexadecimal em número e calcule o resto da divisão pela quantidade de números vendidos.',
+  'draw.step4': 'O resultado é a posição (a partir de zero) do número sorteado na lista.',
+  'draw.step5': 'Para o prêmio seguinte, retire o número sorteado da lista e repita os passos 2 a 4.',
+  'draw.verified': 'Resultado conferido neste navegador ✓',
+  'draw.notVerified': 'O resultado não confere com os dados publicados',
+
+  // Meus números
+  'myNumbers.receiptError': 'Erro ao buscar o comprovante',
+  'myNumbers.codeSent': 'Se houver compras com este telefone, enviaremos um código',
+  'myNumbers.sendCodeError': 'Erro ao enviar o código',
+  'myNumbers.lookupError': 'Erro ao buscar as compras',
+  'myNumbers.receiptNotFound': 'Comprovante não encontrado',
+  'myNumbers.invalidCode': 'Código inválido ou expirado',
+  'myNumbers.title': 'Meus Números',
+  'myNumbers.intro': 'Consulte seus números pelo código do comprovante ou pelo telefone usado na compra.',
+  'myNumbers.byReceipt': 'Tenho o comprovante',
+  'myNumbers.search': 'Buscar',
+  'myNumbers.byPhone': 'Pelo telefone',
+  'myNumbers.codePlaceholder': 'Código recebido',
+  'myNumbers.show': 'Ver meus números',
+  'myNumbers.sendCode': 'Receber código',
+  'myNumbers.raffle': 'Rifa',
+  'myNumbers.summary': 'Comprovante {receipt} · {buyer} · {date} · {amount}',
+  'myNumbers.pdf': 'Comprovante em PDF',
+  'myNumbers.showInGrid': 'Ver meus números na grade',
+
+  // Verificação do comprovante
+  'receipt.checking': 'Verificando...',
+  'receipt.authentic': 'Comprovante autêntico',
+  'receipt.buyer': 'Comprador',
+  'receipt.numbers': 'Números',
+  'receipt.amount': 'Valor',
+  'receipt.date': 'Data',
+  'receipt.payment': 'Pagamento',
+  'receipt.code': 'Comprovante',
+  'receipt.notConfirmed': 'Comprovante não confirmado',
+  'receipt.notConfirmedHelp': 'Este QR code não corresponde a uma compra registrada. Confira o comprovante com quem o enviou.',
+  'receipt.seeRaffles': 'Ver as rifas',
+
+  // Painel administrativo
+  'admin.loadRafflesError': 'Erro ao carregar as rifas',
+  'admin.loadSalesError': 'Erro ao carregar as vendas',
+  'admin.loginError': 'Erro ao entrar',
+  'admin.paymentError': 'Erro ao atualizar o pagamento',
+  'admin.buyerPrompt': 'Nome do comprador',
+  'admin.phonePrompt': 'Telefone do comprador',
+  'admin.emailPrompt': 'E-mail do comprador (opcional)',
+  'admin.buyerError': 'Erro ao atualizar o comprador',
+  'admin.cancelConfirm': 'Cancelar a compra de {buyer}? Os números {numbers} voltarão a ficar disponíveis.',
+  'admin.cancelled': 'Compra cancelada',
+  'admin.cancelError': 'Erro ao cancelar a compra',
+  'admin.releaseConfirm': 'Liberar o número {number}? Ele será removido da compra.',
+  'admin.released': 'Número {number} liberado',
+  'admin.releaseError': 'Erro ao liberar o número',
+  'admin.title': 'Painel Administrativo',
+  'admin.username': 'Usuário',
+  'admin.password': 'Senha',
+  'admin.login': 'Entrar',
+  'admin.logout': 'Sair',
+  'admin.sold': 'Vendidos',
+  'admin.paid': 'Pagos',
+  'admin.expectedRevenue': 'Arrecadação prevista',
+  'admin.receivedRevenue': 'Recebido',
+  'admin.buyer': 'Comprador',
+  'admin.numbers': 'Números',
+  'admin.amount': 'Valor',
+  'admin.seller': 'Vendedor',
+  'admin.date': 'Data',
+  'admin.payment': 'Pagamento',
+  'admin.lastChange': 'Última alteração',
+  'admin.releaseNumber': 'Liberar número',
+  'admin.saleCancelled': 'Cancelada',
+  'admin.salePaid': 'Pago',
+  'admin.salePending': 'Pendente',
+  'admin.changedBy': '{admin} em {date}',
+  'admin.noSales': 'Nenhuma venda registrada.',
+
+  // Vendedores
+  'sellers.loadError': 'Erro ao carregar os vendedores',
+  'sellers.codeAlert': 'Código de {name}: {code}\n\nAnote agora, ele não será exibido novamente.',
+  'sellers.createError': 'Erro ao criar o vendedor',
+  'sellers.regenerateConfirm': 'Gerar um novo código para {name}? O código atual deixará de funcionar.',
+  'sellers.regenerateError': 'Erro ao gerar o código',
+  'sellers.revokeConfirm': 'Revogar o código de {name}?',
+  'sellers.revokeError': 'Erro ao revogar o código',
+  'sellers.title': 'Vendedores',
+  'sellers.namePlaceholder': 'Nome do vendedor',
+  'sellers.add': 'Adicionar',
+  'sellers.name': 'Nome',
+  'sellers.sold': 'Vendidos',
+  'sellers.paid': 'Pagos',
+  'sellers.amount': 'Valor',
+  'sellers.newCode': 'Novo código',
+  'sellers.revoke': 'Revogar',
+
+  // Situação da rifa e sorteio no painel
+  'raffleStatus.draft': 'Rascunho',
+  'raffleStatus.open': 'Vendas abertas',
+  'raffleStatus.closed': 'Vendas encerradas',
+  'raffleStatus.drawn': 'Sorteada',
+  'buyerNames.masked': 'Abreviados (ex.: Maria S.)',
+  'buyerNames.hidden': 'Ocultos',
+  'drawPanel.updateError': 'Erro ao atualizar a rifa',
+  'drawPanel.committed': 'Hash da semente publicado',
+  'drawPanel.commitError': 'Erro ao preparar o sorteio',
+  'drawPanel.confirmPrize': 'Sortear o {order}º prêmio ({name}) agora? Esta ação não pode ser desfeita.',
+  'drawPanel.confirmNumber': 'Sortear o número vencedor agora? Esta ação não pode ser desfeita.',
+  'drawPanel.prizeDrawn': '{prize}: número {number}',
+  'drawPanel.numberDrawn': 'Número sorteado: {number}',
+  'drawPanel.drawError': 'Erro ao realizar o sorteio',
+  'drawPanel.title': 'Sorteio',
+  'drawPanel.publicPage': 'Página pública',
+  'drawPanel.status': 'Situação:',
+  'drawPanel.buyerNames': 'Nomes na grade pública:',
+  'drawPanel.seedHash': 'Hash da semente:',
+  'drawPanel.commitHint': 'Publique o hash da semente enquanto as vendas estão abertas.',
+  'drawPanel.prizeResult': '{order}º {prize}: {number}',
+  'drawPanel.commit': 'Publicar hash da semente',
+  'drawPanel.drawPrize': 'Sortear {order}º prêmio',
+  'drawPanel.draw': 'Realizar sorteio',
+
+  // Estatísticas
+  'stats.loadError': 'Erro ao carregar as estatísticas',
+  'stats.goalPrompt': 'Meta de arrecadação em reais (deixe em branco para vender todos os números)',
+  'stats.invalidValue': 'Informe um valor válido',
+  'stats.goalError': 'Erro ao atualizar a meta',
+  'stats.title': 'Estatísticas',
+  'stats.setGoal': 'Definir meta',
+  'stats.refresh': 'Atualizar',
+  'stats.sold': 'Vendidos',
+  'stats.reserved': 'Reservados',
+  'stats.available': 'Disponíveis',
+  'stats.perDay': 'Vendas por dia',
+  'stats.noSales': 'Nenhuma venda registrada.',
+  'stats.day': '{day}: {numbers} números, {amount}',
+  'stats.topSellers': 'Melhores vendedores',
+  'stats.noSellerSales': 'Nenhuma venda por vendedor.',
+  'stats.removedSeller': 'Vendedor removido',
+
+  // Planilhas
+  'import.exportError': 'Erro ao exportar as vendas',
+  'import.readError': 'Erro ao ler a planilha',
+  'import.imported.one': '{count} venda importada',
+  'import.imported.other': '{count} vendas importadas',
+  'import.importError': 'Erro ao importar as vendas',
+  'import.title': 'Planilhas',
+  'import.exportCsv': 'Exportar CSV',
+  'import.exportExcel': 'Exportar Excel',
+  'import.importOffline': 'Importar vendas offline (CSV)',
+  'import.summary': '{rows} linha(s) lidas: {purchases} venda(s) com {numbers} número(s) a importar.',
+  'import.fixConflicts': 'Corrija os conflitos abaixo na planilha antes de importar:',
+  'import.conflict': 'Linha {line}: {reason}',
+  'import.conflictNumber': 'Linha {line} (número {number}): {reason}',
+  'import.purchase': '{buyer}: {numbers} ({amount})',
+  'import.purchasePaid': '{buyer}: {numbers} ({amount}, pago)',
+  'import.importing': 'Importando...',
+  'import.confirm': 'Confirmar importação',
+
+  // Histórico de um número
+  'audit.action.purchase': 'Compra',
+  'audit.action.import': 'Importação',
+  'audit.action.edit': 'Edição',
+  'audit.action.payment': 'Pagamento',
+  'audit.action.cancel': 'Cancelamento',
+  'audit.action.release': 'Liberação',
+  'audit.action.draw': 'Sorteio',
+  'audit.loadError': 'Erro ao carregar o histórico',
+  'audit.title': 'Histórico de um número',
+  'audit.numberPlaceholder': 'Número',
+  'audit.show': 'Ver histórico',
+  'audit.empty': 'Nenhuma alteração registrada para este número.',
+  'audit.byAt': 'por {actor} em {date}',
+
+  // Preços e cupons
+  'pricing.percentOff': '{value}% de desconto',
+  'pricing.amountOff': '{value} de desconto',
+  'pricing.validBetween': 'de {start} até {end}',
+  'pricing.validUntil': 'até {end}',
+  'pricing.validFrom': 'a partir de {start}',
+  'pricing.noDeadline': 'sem prazo',
+  'pricing.loadError': 'Erro ao carregar os cupons',
+  'pricing.saved': 'Preços salvos',
+  'pricing.saveError': 'Erro ao salvar os preços',
+  'pricing.createError': 'Erro ao criar o cupom',
+  'pricing.deactivateConfirm': 'Desativar o cupom {code}?',
+  'pricing.deactivateError': 'Erro ao desativar o cupom',
+  'pricing.title': 'Preços',
+  'pricing.ticketPrice': 'Preço por número (R$):',
+  'pricing.bundles': 'Pacotes',
+  'pricing.noBundles': 'Nenhum pacote: todos os números custam o mesmo.',
+  'pricing.bundleQuantity': 'Quantidade de números do pacote',
+  'pricing.bundleFor': 'números por R$',
+  'pricing.bundlePrice': 'Preço do pacote',
+  'pricing.bundleSaving': '(economia de {amount})',
+  'pricing.removeBundle': 'Remover pacote',
+  'pricing.addBundle': 'Adicionar pacote',
+  'pricing.save': 'Salvar preços',
+  'pricing.promoCodes': 'Cupons',
+  'pricing.code': 'Código',
+  'pricing.codeLabel': 'Código do cupom',
+  'pricing.codePlaceholder': 'Código (ex.: NATAL10)',
+  'pricing.kind': 'Tipo de desconto',
+  'pricing.discount': 'Desconto',
+  'pricing.maxUses': 'Limite de usos',
+  'pricing.maxUsesPlaceholder': 'Usos (sem limite)',
+  'pricing.startsAt': 'Início',
+  'pricing.expiresAt': 'Fim',
+  'pricing.create': 'Criar cupom',
+  'pricing.validity': 'Validade',
+  'pricing.uses': 'Usos',
+  'pricing.deactivate': 'Desativar',
+
+  // Catálogo de prêmios
+  'prizes.saved': 'Prêmios salvos',
+  'prizes.saveError': 'Erro ao salvar os prêmios',
+  'prizes.title': 'Prêmios',
+  'prizes.hint': 'Os prêmios são sorteados de cima para baixo, e um número sorteado não concorre aos prêmios seguintes.',
+  'prizes.empty': 'Sem prêmios cadastrados, o sorteio escolhe um único número.',
+  'prizes.position': '{order}º',
+  'prizes.nameLabel': 'Nome do {order}º prêmio',
+  'prizes.namePlaceholder': 'Nome do prêmio',
+  'prizes.descriptionLabel': 'Descrição do {order}º prêmio',
+  'prizes.descriptionPlaceholder': 'Descrição (opcional)',
+  'prizes.imageLabel': 'Imagem do {order}º prêmio',
+  'prizes.imagePlaceholder': 'Endereço da imagem (opcional)',
+  'prizes.moveUp': 'Sortear antes',
+  'prizes.moveDown': 'Sortear depois',
+  'prizes.remove': 'Remover prêmio',
+  'prizes.locked': 'O sorteio já foi realizado; os prêmios não podem mais ser alterados.',
+  'prizes.add': 'Adicionar prêmio',
+  'prizes.save': 'Salvar prêmios',
+}
+
+export type MessageKey = keyof typeof messages
+
+export type Messages = Record<MessageKey, string>
+
+export default messages
@@ -1,12 +1,36 @@
 import React from 'react'
 import ReactDOM from 'react-dom/client'
+import { BrowserRouter, Routes, Route } from 'react-router-dom'
 import App from './App.tsx'
+import Home from './Home.tsx'
+import Admin from './Admin.tsx'
+import Draw from './Draw.tsx'
+import MyNumbers from './MyNumbers.tsx'
+import ReceiptCheck from './ReceiptCheck.tsx'
+import LanguageSelect from './components/LanguageSelect.tsx'
 import './index.css'
 import { Toaster } from 'react-hot-toast'
 
+// Guarda a aplicação para abrir mesmo sem conexão
+if ('serviceWorker' in navigator && import.meta.env.PROD) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(error => console.error('Error registering service worker:', error))
+  })
+}
+
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
     <Toaster position="top-center" />
-    <App />
+    <LanguageSelect />
+    <BrowserRouter>
+      <Routes>
+        <Route path="/" element={<Home />} />
+        <Route path="/rifas/:raffleId" element={<App />} />
+        <Route path="/rifas/:raffleId/sorteio" element={<Draw />} />
+        <Route path="/meus-numeros" element={<MyNumbers />} />
+        <Route path="/comprovantes/verificar" element={<ReceiptCheck />} />
+        <Route path="/admin" element={<Admin />} />
+      </Routes>
+    </BrowserRouter>
   </React.StrictMode>,
-) 
\ No newline at end of file
+)
@@ -0,0 +1,303 @@
+import { Draw, PaymentStatus, Raffle, RaffleRevenue, RaffleStats } from './api'
+import { PrizeInput } from '../../shared/schemas'
+import { Bundle, PromoKind } from '../../shared/pricing'
+import { getLocale } from '../i18n'
+import { toApiError } from './errors'
+
+const API_URL = import.meta.env.PROD 
+  ? '/api'  // Em produção, usa o caminho relativo
+  : 'http://localhost:3001/api'  // Em desenvolvimento, usa localhost
+
+const TOKEN_KEY = 'adminToken'
+
+export interface Seller {
+  _id: string
+  name: string
+  isActive: boolean
+  revokedAt: string | null
+}
+
+export interface SellerSummary {
+  sellerId: string | null
+  name: string | null
+  sold: number
+  paid: number
+  revenue: number
+}
+
+// Número com todos os dados do comprador, visível apenas no painel
+export interface AdminRaffleNumber {
+  number: number
+  isAvailable: boolean
+  purchasedBy: string | null
+  purchaseDate: string | null
+  purchaseId: string | null
+  sellerId: { _id: string; name: string } | null
+  reservedUntil: string | null
+  lastChangedBy: string | null
+  lastChangedAt: string | null
+}
+
+export interface AdminSale {
+  _id: string
+  raffleId: string
+  sellerId: { _id: string; name: string } | null
+  buyerName: string
+  phone: string
+  email: string | null
+  numbers: number[]
+  totalAmount: number
+  paymentStatus: PaymentStatus
+  paidAt: string | null
+  purchaseDate: string
+  lastChangedBy: string | null
+  lastChangedAt: string | null
+}
+
+export interface PurchaseChanges {
+  buyerName?: string
+  phone?: string
+  email?: string | null
+  paymentStatus?: PaymentStatus
+}
+
+// Andamento completo da rifa, só para o admin
+export interface AdminRaffleStats extends RaffleStats {
+  reserved: number
+  revenue: RaffleRevenue
+  salesPerDay: { date: string; numbers: number; revenue: number }[]
+  topSellers: { sellerId: string; name: string | null; numbers: number }[]
+}
+
+export interface AdminTotals {
+  total: number
+  sold: number
+  available: number
+  paid: number
+  unpaid: number
+  expectedRevenue: number
+  receivedRevenue: number
+}
+
+export type AuditAction = 'purchase' | 'import' | 'edit' | 'payment' | 'cancel' | 'release' | 'draw'
+
+export interface AuditEvent {
+  _id: string
+  numbers: number[]
+  purchaseId: string | null
+  action: AuditAction
+  actor: string
+  ip: string | null
+  before: Record<string, unknown> | null
+  after: Record<string, unknown> | null
+  createdAt: string
+}
+
+export interface ImportConflict {
+  line: number
+  number: number | null
+  reason: string
+}
+
+export interface ImportReport {
+  dryRun: boolean
+  committed: boolean
+  rows: number
+  purchases: {
+    buyerName: string
+    phone: string
+    email: string | null
+    numbers: number[]
+    paymentStatus: PaymentStatus
+    totalAmount: number
+  }[]
+  conflicts: ImportConflict[]
+}
+
+export interface PromoCode {
+  _id: string
+  code: string
+  kind: PromoKind
+  value: number
+  startsAt: string | null
+  expiresAt: string | null
+  maxUses: number | null
+  uses: number
+  isActive: boolean
+}
+
+export type NewPromoCode = Omit<PromoCode, '_id' | 'uses' | 'isActive'>
+
+// Requisição autenticada com o token salvo no login
+async function request<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(`${API_URL}${path}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${localStorage.getItem(TOKEN_KEY) ?? ''}`,
+      'Accept-Language': getLocale(),
+      ...init.headers,
+    },
+  })
+
+  if (response.status === 401) {
+    localStorage.removeItem(TOKEN_KEY)
+  }
+  if (!response.ok) {
+    throw await toApiError(response, 'Request failed')
+  }
+  return response.json()
+}
+
+// Baixa um arquivo protegido pelo token, já que um link simples não envia o cabeçalho
+async function download(path: string, filename: string): Promise<void> {
+  const response = await fetch(`${API_URL}${path}`, {
+    headers: {
+      Authorization: `Bearer ${localStorage.getItem(TOKEN_KEY) ?? ''}`,
+      'Accept-Language': getLocale(),
+    },
+  })
+  if (!response.ok) {
+    throw await toApiError(response, 'Download failed')
+  }
+  const url = URL.createObjectURL(await response.blob())
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+export const adminApi = {
+  isLoggedIn(): boolean {
+    return localStorage.getItem(TOKEN_KEY) !== null
+  },
+
+  async login(username: string, password: string): Promise<void> {
+    const { token } = await request<{ token: string }>('/admin/login', {
+      method: 'POST',
+      body: JSON.stringify({ username, password }),
+    })
+    localStorage.setItem(TOKEN_KEY, token)
+  },
+
+  logout(): void {
+    localStorage.removeItem(TOKEN_KEY)
+  },
+
+  getRaffles(): Promise<Raffle[]> {
+    return request('/admin/raffles')
+  },
+
+  updateRaffle(raffleId: string, changes: Partial<Pick<Raffle, 'status' | 'buyerNameDisplay' | 'revenueGoal'>>): Promise<Raffle> {
+    return request(`/admin/raffles/${raffleId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(changes),
+    })
+  },
+
+  updatePricing(raffleId: string, pricing: { ticketPrice: number; bundles: Bundle[] }): Promise<Raffle> {
+    return request(`/admin/raffles/${raffleId}/pricing`, {
+      method: 'PUT',
+      body: JSON.stringify(pricing),
+    })
+  },
+
+  getPromoCodes(raffleId: string): Promise<PromoCode[]> {
+    return request(`/admin/raffles/${raffleId}/promo-codes`)
+  },
+
+  createPromoCode(raffleId: string, promoCode: NewPromoCode): Promise<PromoCode> {
+    return request(`/admin/raffles/${raffleId}/promo-codes`, {
+      method: 'POST',
+      body: JSON.stringify(promoCode),
+    })
+  },
+
+  deactivatePromoCode(promoCodeId: string): Promise<PromoCode> {
+    return request(`/admin/promo-codes/${promoCodeId}/deactivate`, { method: 'POST' })
+  },
+
+  updatePrizes(raffleId: string, prizes: PrizeInput[]): Promise<Raffle> {
+    return request(`/admin/raffles/${raffleId}/prizes`, {
+      method: 'PUT',
+      body: JSON.stringify({ prizes }),
+    })
+  },
+
+  getNumbers(raffleId: string): Promise<AdminRaffleNumber[]> {
+    return request(`/admin/raffles/${raffleId}/numbers`)
+  },
+
+  getSales(raffleId: string): Promise<AdminSale[]> {
+    return request(`/admin/raffles/${raffleId}/sales`)
+  },
+
+  getTotals(raffleId: string): Promise<AdminTotals> {
+    return request(`/admin/raffles/${raffleId}/totals`)
+  },
+
+  // Mesmo endpoint público, mas com o token: rascunhos só aparecem para o admin
+  getStats(raffleId: string): Promise<AdminRaffleStats> {
+    return request(`/admin/raffles/${raffleId}/stats`)
+  },
+
+  updatePurchase(purchaseId: string, changes: PurchaseChanges): Promise<AdminSale> {
+    return request(`/admin/purchases/${purchaseId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(changes),
+    })
+  },
+
+  getSellers(): Promise<Seller[]> {
+    return request('/admin/sellers')
+  },
+
+  getSellerSummary(raffleId: string): Promise<SellerSummary[]> {
+    return request(`/admin/raffles/${raffleId}/sellers`)
+  },
+
+  createSeller(name: string): Promise<{ seller: Seller; code: string }> {
+    return request('/admin/sellers', {
+      method: 'POST',
+      body: JSON.stringify({ name }),
+    })
+  },
+
+  regenerateSellerCode(sellerId: string): Promise<{ seller: Seller; code: string }> {
+    return request(`/admin/sellers/${sellerId}/code`, { method: 'POST' })
+  },
+
+  revokeSeller(sellerId: string): Promise<Seller> {
+    return request(`/admin/sellers/${sellerId}/revoke`, { method: 'POST' })
+  },
+
+  commitDraw(raffleId: string): Promise<Draw> {
+    return request(`/raffles/${raffleId}/draw/commit`, { method: 'POST' })
+  },
+
+  // Sorteia o próximo prêmio do catálogo
+  drawWinner(raffleId: string): Promise<Draw> {
+    return request(`/raffles/${raffleId}/draw`, { method: 'POST' })
+  },
+
+  releaseNumber(raffleId: string, number: number): Promise<{ purchase: AdminSale | null }> {
+    return request(`/admin/raffles/${raffleId}/numbers/${number}/release`, { method: 'POST' })
+  },
+
+  exportSales(raffleId: string, format: 'csv' | 'xlsx'): Promise<void> {
+    return download(`/admin/raffles/${raffleId}/export.${format}`, `vendas.${format}`)
+  },
+
+  importSales(raffleId: string, csv: string, dryRun: boolean): Promise<ImportReport> {
+    return request(`/admin/raffles/${raffleId}/import${dryRun ? '?dryRun=true' : ''}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'text/csv' },
+      body: csv,
+    })
+  },
+
+  getNumberHistory(raffleId: string, number: number): Promise<AuditEvent[]> {
+    return request(`/admin/audit?raffleId=${raffleId}&number=${number}`)
+  },
+}
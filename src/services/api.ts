@@ -1,21 +1,210 @@
+import { ValidationError } from 'yup'
+import { purchaseSchema } from '../../shared/schemas'
+import { PublicNumber, PurchaseResponse, ReserveResponse } from '../../shared/api'
+import { Bundle, PriceBreakdown } from '../../shared/pricing'
+import { validationMessage } from '../../shared/messages'
+import { getLocale, t } from '../i18n'
+import { toApiError } from './errors'
+
+export { ApiError, isApiError } from './errors'
+
 const API_URL = import.meta.env.PROD 
-  ? '/api/numbers'  // Em produção, usa o caminho relativo
-  : 'http://localhost:3001/api/numbers'  // Em desenvolvimento, usa localhost
+  ? '/api'  // Em produção, usa o caminho relativo
+  : 'http://localhost:3001/api'  // Em desenvolvimento, usa localhost
+
+export type RaffleStatus = 'draft' | 'open' | 'closed' | 'drawn'
+
+export type BuyerNameDisplay = 'masked' | 'hidden'
+
+// Prêmio do catálogo; `order` é a posição em que ele é sorteado
+export interface Prize {
+  _id: string
+  name: string
+  description: string
+  imageUrl: string | null
+  order: number
+}
+
+export interface Raffle {
+  _id: string
+  title: string
+  description: string
+  ticketPrice: number
+  bundles: Bundle[]
+  numberStart: number
+  numberEnd: number
+  drawDate: string | null
+  status: RaffleStatus
+  buyerNameDisplay: BuyerNameDisplay
+  revenueGoal: number | null
+  prizes: Prize[]
+}
+
+// Número como exibido ao público: o nome do comprador vem mascarado ou omitido
+export type PublicRaffleNumber = PublicNumber
+
+export type PaymentStatus = 'pending' | 'paid' | 'cancelled'
+
+export interface BuyerDetails {
+  name: string
+  phone: string
+  email: string
+}
+
+export type PurchaseResult = PurchaseResponse
+
+// Compra encontrada pelo comprovante ou pelo telefone
+export interface PurchaseLookup {
+  receiptCode: string
+  raffle: { _id: string; title: string; status: RaffleStatus } | null
+  buyerName: string
+  numbers: number[]
+  totalAmount: number
+  paymentStatus: PaymentStatus
+  purchaseDate: string
+}
+
+export interface ReceiptVerification {
+  valid: boolean
+  receipt?: {
+    receiptCode: string
+    raffleTitle: string | null
+    buyerName: string
+    numbers: number[]
+    totalAmount: number
+    paymentStatus: PaymentStatus
+    purchaseDate: string
+  }
+}
+
+export interface PixCharge {
+  payload: string
+  qrCode: string
+}
+
+export interface DrawnPrize {
+  prizeId: string | null
+  prizeName: string | null
+  order: number
+  winningNumber: number
+  winnerName: string | null
+  drawnAt: string
+}
+
+// A semente só aparece depois que o último prêmio é sorteado
+export interface Draw {
+  raffleId: string
+  seedHash: string
+  committedAt: string
+  seed: string | null
+  soldNumbers: number[]
+  results: DrawnPrize[]
+  drawnAt: string | null
+}
 
-export interface RaffleNumber {
+// Andamento público da rifa: só os números vendidos e os que restam
+export interface RaffleStats {
+  total: number
+  sold: number
+  available: number
+}
+
+// Arrecadação em direção à meta; a meta sem valor definido é vender todos os números
+export interface RaffleRevenue {
+  raised: number
+  goal: number
+  percent: number
+}
+
+export interface NumberChange {
   number: number
-  isAvailable: boolean
-  purchasedBy: string | null
-  purchaseDate: Date | null
+  state: 'sold' | 'reserved' | 'released'
+  displayName?: string | null
+  reservedUntil?: string | null
+}
+
+export type Reservation = ReserveResponse
+
+// Mesmas regras da API (shared/schemas); retorna a primeira mensagem de erro ou null
+export function validatePurchase(
+  numbers: number[],
+  buyer: BuyerDetails,
+  sellerCode: string,
+  raffle: Raffle | null = null
+): string | null {
+  try {
+    purchaseSchema.validateSync(
+      { numbers, buyer: buyer.name, phone: buyer.phone, email: buyer.email, sellerCode },
+      { context: { raffle } }
+    )
+    return null
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return validationMessage(getLocale(), error.message, error.params)
+    }
+    throw error
+  }
+}
+
+// Sem resposta útil do servidor (sem internet ou servidor fora); vale tentar de novo depois
+export class OfflineError extends Error {
+  constructor(message = t('offline.noConnection')) {
+    super(message)
+    this.name = 'OfflineError'
+  }
+}
+
+// As mensagens de erro da API vêm no idioma escolhido na interface
+function withLocale(init: RequestInit = {}): RequestInit {
+  return { ...init, headers: { ...init.headers, 'Accept-Language': getLocale() } }
+}
+
+// fetch que distingue falta de conexão (OfflineError) de respostas de erro da API
+async function fetchOnline(input: string, init?: RequestInit): Promise<Response> {
+  let response: Response
+  try {
+    response = await fetch(input, withLocale(init))
+  } catch {
+    throw new OfflineError()
+  }
+  if (response.status >= 500) {
+    throw new OfflineError(t('offline.serverDown'))
+  }
+  return response
 }
 
 export const api = {
-  async getNumbers(): Promise<RaffleNumber[]> {
+  async getRaffles(): Promise<Raffle[]> {
     try {
-      const response = await fetch(`${API_URL}`)
+      const response = await fetch(`${API_URL}/raffles`, withLocale())
       if (!response.ok) {
-        const errorData = await response.json()
-        throw new Error(errorData.error || 'Failed to fetch numbers')
+        throw await toApiError(response, 'Failed to fetch raffles')
+      }
+      return response.json()
+    } catch (error) {
+      console.error('Error fetching raffles:', error)
+      throw error
+    }
+  },
+
+  async getRaffle(raffleId: string): Promise<Raffle> {
+    try {
+      const response = await fetch(`${API_URL}/raffles/${raffleId}`, withLocale())
+      if (!response.ok) {
+        throw await toApiError(response, 'Failed to fetch raffle')
+      }
+      return response.json()
+    } catch (error) {
+      console.error('Error fetching raffle:', error)
+      throw error
+    }
+  },
+
+  async getNumbers(raffleId: string): Promise<PublicRaffleNumber[]> {
+    try {
+      const response = await fetch(`${API_URL}/raffles/${raffleId}/numbers`, withLocale())
+      if (!response.ok) {
+        throw await toApiError(response, 'Failed to fetch numbers')
       }
       return response.json()
     } catch (error) {
@@ -24,29 +213,164 @@ export const api = {
     }
   },
 
-  async purchaseNumbers(numbers: number[], buyer: string, password: string): Promise<void> {
+  numbersStreamUrl(raffleId: string): string {
+    return `${API_URL}/raffles/${raffleId}/numbers/stream`
+  },
+
+  async getDraw(raffleId: string): Promise<Draw | null> {
     try {
-      const response = await fetch(`${API_URL}/purchase`, {
+      const response = await fetch(`${API_URL}/raffles/${raffleId}/draw`, withLocale())
+      if (response.status === 404) {
+        return null
+      }
+      if (!response.ok) {
+        throw await toApiError(response, 'Failed to fetch draw')
+      }
+      return response.json()
+    } catch (error) {
+      console.error('Error fetching draw:', error)
+      throw error
+    }
+  },
+
+  async getStats(raffleId: string): Promise<RaffleStats> {
+    try {
+      const response = await fetch(`${API_URL}/raffles/${raffleId}/stats`, withLocale())
+      if (!response.ok) {
+        throw await toApiError(response, 'Failed to fetch stats')
+      }
+      return response.json()
+    } catch (error) {
+      console.error('Error fetching stats:', error)
+      throw error
+    }
+  },
+
+  async reserveNumbers(raffleId: string, numbers: number[], token: string | null): Promise<Reservation> {
+    try {
+      const response = await fetchOnline(`${API_URL}/raffles/${raffleId}/numbers/reserve`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ numbers, token }),
+      })
+
+      if (!response.ok) {
+        throw await toApiError(response, 'Failed to reserve numbers')
+      }
+      return response.json()
+    } catch (error) {
+      console.error('Error reserving numbers:', error)
+      throw error
+    }
+  },
+
+  async purchaseNumbers(
+    raffleId: string,
+    numbers: number[],
+    buyer: BuyerDetails,
+    sellerCode: string,
+    reservationToken: string | null,
+    idempotencyKey: string,
+    promoCode: string | null = null
+  ): Promise<PurchaseResult> {
+    const validationError = validatePurchase(numbers, buyer, sellerCode)
+    if (validationError) {
+      throw new Error(validationError)
+    }
+
+    try {
+      // Repetir a compra com a mesma chave nunca registra a venda duas vezes
+      const response = await fetchOnline(`${API_URL}/raffles/${raffleId}/numbers/purchase`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          'Idempotency-Key': idempotencyKey,
         },
-        body: JSON.stringify({ numbers, buyer, password }),
+        body: JSON.stringify({
+          numbers,
+          buyer: buyer.name.trim(),
+          phone: buyer.phone.trim(),
+          email: buyer.email.trim() || null,
+          sellerCode,
+          reservationToken,
+          promoCode,
+        }),
       })
 
       if (!response.ok) {
-        const error = await response.json()
-        throw new Error(error.error || 'Failed to purchase numbers')
+        throw await toApiError(response, 'Failed to purchase numbers')
       }
+      return response.json()
     } catch (error) {
       console.error('Error purchasing numbers:', error)
       throw error
     }
   },
 
+  // Confere o cupom; o valor com os pacotes é calculado no próprio navegador
+  async quotePrice(raffleId: string, numbers: number[], promoCode: string | null): Promise<PriceBreakdown> {
+    try {
+      const response = await fetch(`${API_URL}/raffles/${raffleId}/price`, withLocale({
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ numbers, promoCode }),
+      }))
+
+      if (!response.ok) {
+        throw await toApiError(response, 'Failed to price numbers')
+      }
+      return response.json()
+    } catch (error) {
+      console.error('Error pricing numbers:', error)
+      throw error
+    }
+  },
+
+  async requestLookupCode(phone: string): Promise<void> {
+    const response = await fetch(`${API_URL}/purchases/lookup/code`, withLocale({
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ phone }),
+    }))
+    if (!response.ok) {
+      throw await toApiError(response, 'Failed to send code')
+    }
+  },
+
+  // Pelo código do comprovante, ou pelo telefone com o código recebido
+  async lookupPurchases(query: { receipt: string } | { phone: string; code: string }): Promise<PurchaseLookup[]> {
+    const response = await fetch(`${API_URL}/purchases/lookup?${new URLSearchParams(query)}`, withLocale())
+    if (response.status === 404) {
+      throw new Error(t('receipt' in query ? 'myNumbers.receiptNotFound' : 'myNumbers.invalidCode'))
+    }
+    if (!response.ok) {
+      throw await toApiError(response, 'Failed to look up purchases')
+    }
+    const { purchases } = await response.json()
+    return purchases
+  },
+
+  receiptUrl(receiptCode: string, format: 'pdf' | 'png'): string {
+    return `${API_URL}/receipts/${receiptCode}.${format}`
+  },
+
+  async verifyReceipt(token: string): Promise<ReceiptVerification> {
+    const response = await fetch(`${API_URL}/receipts/verify?${new URLSearchParams({ token })}`, withLocale())
+    if (!response.ok && response.status !== 400 && response.status !== 404) {
+      throw await toApiError(response, 'Failed to verify receipt')
+    }
+    return response.json()
+  },
+
   async checkHealth(): Promise<boolean> {
     try {
-      const response = await fetch('/api/health')
+      const response = await fetch(`${API_URL}/health`)
       if (!response.ok) {
         return false
       }
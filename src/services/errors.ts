@@ -0,0 +1,29 @@
+import { ApiErrorBody, ERROR_CODES, ErrorCode } from '../../shared/api'
+import { errorMessage } from '../../shared/messages'
+import { getLocale } from '../i18n'
+
+// Erro respondido pela API, com o código para a interface decidir o que fazer
+export class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: ErrorCode | null,
+    readonly body: Partial<ApiErrorBody>,
+    message: string
+  ) {
+    super(message)
+    this.name = 'ApiError'
+  }
+}
+
+export function isApiError(error: unknown, code: ErrorCode): error is ApiError {
+  return error instanceof ApiError && error.code === code
+}
+
+// Monta o ApiError de uma resposta de erro, com a mensagem do código no idioma atual
+// (shared/messages.ts); respostas sem código usam o texto de reserva
+export async function toApiError(response: Response, fallback: string): Promise<ApiError> {
+  const body: Partial<ApiErrorBody> = await response.json().catch(() => ({}))
+  const code = body.code && ERROR_CODES.includes(body.code) ? body.code : null
+  const message = code ? errorMessage(getLocale(), body as ApiErrorBody) : body.message || body.error || fallback
+  return new ApiError(response.status, code, body, message)
+}
@@ -0,0 +1,93 @@
+import { BuyerDetails, PublicRaffleNumber, Raffle } from './api'
+
+const DB_NAME = 'rifa-offline'
+const DB_VERSION = 1
+const GRIDS = 'grids'
+const INTENTS = 'intents'
+
+// Última grade carregada de cada rifa, exibida quando a API não responde
+export interface CachedGrid {
+  raffleId: string
+  raffle: Raffle | null
+  numbers: PublicRaffleNumber[]
+  savedAt: string
+}
+
+// Compra feita sem conexão, enviada depois com a mesma chave de idempotência.
+// O código do vendedor não vai para o IndexedDB: fica só na memória (ver sellerCodes)
+export interface PurchaseIntent {
+  idempotencyKey: string
+  raffleId: string
+  numbers: number[]
+  buyer: BuyerDetails
+  // Reserva feita antes de cair a conexão; sem ela o envio esbarraria nos próprios números reservados
+  reservationToken: string | null
+  promoCode: string | null
+  createdAt: string
+}
+
+// Código do vendedor de cada compra na fila, pela chave de idempotência; se a página recarregar,
+// o vendedor digita de novo antes do envio
+const sellerCodes = new Map<string, string>()
+
+export function getSellerCode(idempotencyKey: string): string | null {
+  return sellerCodes.get(idempotencyKey) ?? null
+}
+
+export function setSellerCode(idempotencyKey: string, sellerCode: string): void {
+  sellerCodes.set(idempotencyKey, sellerCode)
+}
+
+let database: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(GRIDS, { keyPath: 'raffleId' })
+        request.result.createObjectStore(INTENTS, { keyPath: 'idempotencyKey' })
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        database = null
+        reject(request.error)
+      }
+    })
+  }
+  return database
+}
+
+async function run<T>(storeName: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+  const db = await openDatabase()
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(storeName, mode).objectStore(storeName))
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+export async function saveGrid(grid: Omit<CachedGrid, 'savedAt'>): Promise<void> {
+  await run(GRIDS, 'readwrite', store => store.put({ ...grid, savedAt: new Date().toISOString() }))
+}
+
+export async function loadGrid(raffleId: string): Promise<CachedGrid | null> {
+  return (await run<CachedGrid | undefined>(GRIDS, 'readonly', store => store.get(raffleId))) ?? null
+}
+
+export async function queueIntent(intent: PurchaseIntent, sellerCode: string): Promise<void> {
+  setSellerCode(intent.idempotencyKey, sellerCode)
+  await run(INTENTS, 'readwrite', store => store.put(intent))
+}
+
+export async function listIntents(raffleId?: string): Promise<PurchaseIntent[]> {
+  const intents = await run<PurchaseIntent[]>(INTENTS, 'readonly', store => store.getAll())
+  return intents
+    .filter(intent => !raffleId || intent.raffleId === raffleId)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+}
+
+export async function removeIntent(idempotencyKey: string): Promise<void> {
+  sellerCodes.delete(idempotencyKey)
+  await run(INTENTS, 'readwrite', store => store.delete(idempotencyKey))
+}
@@ -0,0 +1,16 @@
+const RECEIPTS_KEY = 'receiptCodes'
+
+// Comprovantes das compras feitas neste aparelho, para a página "Meus Números"
+export function savedReceiptCodes(): string[] {
+  try {
+    const codes = JSON.parse(localStorage.getItem(RECEIPTS_KEY) ?? '[]')
+    return Array.isArray(codes) ? codes : []
+  } catch {
+    return []
+  }
+}
+
+export function saveReceiptCode(code: string): void {
+  const codes = savedReceiptCodes().filter(c => c !== code)
+  localStorage.setItem(RECEIPTS_KEY, JSON.stringify([code, ...codes]))
+}